@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PoseLandmarker } from '@mediapipe/tasks-vision';
+import { BodyInteractionState, GardenEvent } from '../types';
+import { BODY_LIMBS, BodyFiring, BodyMotionState, createBodyMotionState, releaseBodyMotion, updateBodyMotion } from '../utils/bodyMotion';
+import { BODY_CONNECTIONS, loadPoseLandmarker } from '../utils/vision';
+
+interface BodyScannerProps {
+  isActive: boolean;
+  videoElement: HTMLVideoElement | null;
+  bodyRef: React.MutableRefObject<BodyInteractionState>;
+  onGesture?: (gesture: GardenEvent, data?: any) => void;
+}
+
+const LABEL_MS = 800;
+const BODY_LABELS: Partial<Record<GardenEvent, (payload: any) => string>> = {
+  BODY_JUMP: () => "¡SALTO!",
+  BODY_SQUAT: () => "AGACHADO",
+  BODY_LEAN: p => p?.direction === 'LEFT' ? "<< INCLINACIÓN" : "INCLINACIÓN >>",
+  BODY_KICK: () => "¡PATADA!"
+};
+
+/**
+ * Optional full-body input next to HandScanner: runs the pose landmarker on the same video,
+ * keeps `bodyRef` up to date and emits the body events. Draws a faint skeleton under the hands.
+ */
+export const BodyScanner: React.FC<BodyScannerProps> = ({ isActive, videoElement, bodyRef, onGesture }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const landmarkerRef = useRef<PoseLandmarker | null>(null);
+  const motionRef = useRef<BodyMotionState>(createBodyMotionState());
+  const labelRef = useRef<{ text: string, time: number } | null>(null);
+  const [modelLoaded, setModelLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadPoseLandmarker()
+      .then(landmarker => { if (isMounted) { landmarkerRef.current = landmarker; setModelLoaded(true); } })
+      .catch(() => { if (isMounted) setError("Error cargando el seguimiento corporal."); });
+    return () => { isMounted = false; };
+  }, []);
+
+  useEffect(() => {
+    if (!isActive || !modelLoaded || !canvasRef.current) return;
+    const canvas = canvasRef.current; const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    let raf = 0; let lastTime = performance.now();
+
+    const handleFiring = ({ event, payload }: BodyFiring, now: number) => {
+      onGesture?.(event, payload);
+      const label = BODY_LABELS[event];
+      if (label) labelRef.current = { text: label(payload), time: now };
+    };
+
+    const detect = () => {
+      raf = requestAnimationFrame(detect);
+      if (!videoElement || !videoElement.videoWidth || videoElement.readyState < 2) return;
+      if (canvas.width !== videoElement.videoWidth || canvas.height !== videoElement.videoHeight) {
+        canvas.width = videoElement.videoWidth; canvas.height = videoElement.videoHeight;
+      }
+      const now = performance.now();
+      const dt = Math.max(0.001, (now - lastTime) / 1000);
+      lastTime = now;
+      let pose;
+      try { pose = landmarkerRef.current?.detectForVideo(videoElement, now).landmarks[0]; } catch (e) {}
+
+      const w = canvas.width; const h = canvas.height;
+      ctx.clearRect(0, 0, w, h);
+      if (!pose) { releaseBodyMotion(bodyRef.current); return; }
+      updateBodyMotion(motionRef.current, bodyRef.current, pose, dt, now).forEach(firing => handleFiring(firing, now));
+
+      // Raw coords: the canvas is mirrored like the video
+      ctx.strokeStyle = "rgba(251, 146, 60, 0.5)"; ctx.lineWidth = 6; ctx.lineCap = "round";
+      BODY_CONNECTIONS.forEach(([a, b]) => {
+        if ((pose[a].visibility ?? 1) < 0.5 || (pose[b].visibility ?? 1) < 0.5) return;
+        ctx.beginPath(); ctx.moveTo(pose[a].x * w, pose[a].y * h); ctx.lineTo(pose[b].x * w, pose[b].y * h); ctx.stroke();
+      });
+      ctx.fillStyle = "#fb923c";
+      BODY_LIMBS.forEach(name => {
+        const limb = bodyRef.current.limbs[name];
+        if (!limb.visible) return;
+        ctx.beginPath(); ctx.arc((1 - limb.x) * w, limb.y * h, 10, 0, Math.PI * 2); ctx.fill();
+      });
+
+      const label = labelRef.current;
+      if (label && now - label.time < LABEL_MS) {
+        // Text is drawn un-mirrored so it reads correctly
+        ctx.save(); ctx.scale(-1, 1);
+        ctx.globalAlpha = 1 - (now - label.time) / LABEL_MS;
+        ctx.font = "bold 48px Inter"; ctx.textAlign = "center"; ctx.fillStyle = "#fb923c";
+        ctx.fillText(label.text, -w / 2, h * 0.2);
+        ctx.restore();
+      }
+    };
+
+    detect();
+    return () => { cancelAnimationFrame(raf); releaseBodyMotion(bodyRef.current); };
+  }, [isActive, modelLoaded, videoElement, bodyRef, onGesture]);
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none object-cover"
+        style={{ transform: 'scaleX(-1)' }}
+      />
+      {isActive && !modelLoaded && !error && (
+        <div className="absolute bottom-2 inset-x-0 text-center text-xs text-white/80 font-mono uppercase tracking-wider pointer-events-none">
+          Cargando seguimiento corporal...
+        </div>
+      )}
+      {error && (
+        <div className="absolute bottom-2 inset-x-0 text-center text-xs text-rose-300 pointer-events-none">{error}</div>
+      )}
+    </>
+  );
+};
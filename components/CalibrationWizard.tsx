@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationProfile } from '../types';
+import { getHandFeatures } from '../utils/gestures';
+import { measureReach, median } from '../utils/calibration';
+import { HAND_CONNECTIONS, loadHandLandmarker } from '../utils/vision';
+
+type Measurements = Omit<CalibrationProfile, 'id' | 'name' | 'updatedAt'>;
+
+interface CalibrationWizardProps {
+  videoElement: HTMLVideoElement | null;
+  playerName: string;
+  onComplete: (measurements: Measurements) => void;
+  onCancel: () => void;
+}
+
+type Step = 'OPEN' | 'PINCH' | 'REACH' | 'DONE';
+
+const STEPS: Record<Exclude<Step, 'DONE'>, { icon: string, title: string, hint: string }> = {
+  OPEN: { icon: '🖐️', title: 'Mano abierta', hint: 'Muestra la palma abierta a la cámara, a la distancia a la que vas a jugar, y mantenla quieta.' },
+  PINCH: { icon: '🤏', title: 'Pinza', hint: 'Junta las puntas del pulgar y el índice, como si agarraras algo pequeño, y mantenlas juntas.' },
+  REACH: { icon: '👆', title: 'Tu alcance', hint: 'Mueve el dedo índice por toda la zona que alcanzas cómodo: arriba, abajo y a los lados.' }
+};
+const STEP_ORDER: Step[] = ['OPEN', 'PINCH', 'REACH', 'DONE'];
+
+const HOLD_MS = 1500;   // Open hand and pinch must be held this long
+const REACH_MS = 6000;  // Time to sweep the reach area
+const PINCH_MAX_SHARE = 0.5; // A pinch closes the thumb-index gap to at most half of the open hand's
+
+/**
+ * Measures a player's open hand, pinch and comfortable reach with the live camera.
+ * Runs before the game starts, so it has the hand landmarker to itself.
+ */
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ videoElement, playerName, onComplete, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [step, setStep] = useState<Step>('OPEN');
+  const [progress, setProgress] = useState(0);
+  const [isHandVisible, setIsHandVisible] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resultRef = useRef<Partial<Measurements>>({});
+
+  useEffect(() => {
+    if (step === 'DONE' || !videoElement) return;
+    const canvas = canvasRef.current; const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let raf = 0; let isMounted = true;
+    let since = 0; // Start of the current hold (or sweep)
+    let scales: number[] = []; let ratios: number[] = [];
+    const reachPoints: { x: number, y: number }[] = [];
+    let lastProgress = -1;
+
+    const report = (value: number) => {
+      const rounded = Math.round(Math.min(1, value) * 20) / 20;
+      if (rounded !== lastProgress) { lastProgress = rounded; setProgress(rounded); }
+    };
+
+    const detect = (landmarker: Awaited<ReturnType<typeof loadHandLandmarker>>) => {
+      if (!isMounted) return;
+      raf = requestAnimationFrame(() => detect(landmarker));
+      if (!videoElement.videoWidth || videoElement.readyState < 2) return;
+      if (canvas.width !== videoElement.videoWidth) { canvas.width = videoElement.videoWidth; canvas.height = videoElement.videoHeight; }
+      const w = canvas.width; const h = canvas.height;
+      ctx.drawImage(videoElement, 0, 0, w, h);
+      let landmarks;
+      try { landmarks = landmarker.detectForVideo(videoElement, performance.now()).landmarks[0]; } catch (e) {}
+      setIsHandVisible(!!landmarks);
+      const now = performance.now();
+
+      if (step === 'REACH') {
+        ctx.fillStyle = "rgba(56, 189, 248, 0.6)";
+        reachPoints.forEach(p => { ctx.beginPath(); ctx.arc(p.x * w, p.y * h, 4, 0, Math.PI * 2); ctx.fill(); });
+        if (reachPoints.length >= 10) {
+          const reach = measureReach(reachPoints);
+          ctx.strokeStyle = "#38bdf8"; ctx.lineWidth = 3; ctx.setLineDash([10, 10]);
+          ctx.strokeRect(reach.minX * w, reach.minY * h, (reach.maxX - reach.minX) * w, (reach.maxY - reach.minY) * h);
+          ctx.setLineDash([]);
+        }
+      }
+      if (!landmarks) { if (step !== 'REACH') { since = 0; scales = []; ratios = []; report(0); } return; }
+
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.7)"; ctx.lineWidth = 3;
+      HAND_CONNECTIONS.forEach(([a, b]) => { ctx.beginPath(); ctx.moveTo(landmarks[a].x * w, landmarks[a].y * h); ctx.lineTo(landmarks[b].x * w, landmarks[b].y * h); ctx.stroke(); });
+      ctx.fillStyle = "#38bdf8";
+      ctx.beginPath(); ctx.arc(landmarks[8].x * w, landmarks[8].y * h, 10, 0, Math.PI * 2); ctx.fill();
+
+      const hand = getHandFeatures(landmarks);
+      const ratio = hand.pinchDistance / hand.handScale;
+      if (step === 'REACH') {
+        if (!since) since = now;
+        reachPoints.push({ x: landmarks[8].x, y: landmarks[8].y });
+        report((now - since) / REACH_MS);
+        if (now - since >= REACH_MS) { resultRef.current.reach = measureReach(reachPoints); setStep('DONE'); }
+        return;
+      }
+      const isOpen = step === 'OPEN' && hand.extended.index && hand.extended.middle && hand.extended.ring && hand.extended.pinky && hand.extended.thumb;
+      const isPinch = step === 'PINCH' && ratio < (resultRef.current.pinchOpen || 0) * PINCH_MAX_SHARE;
+      if (!isOpen && !isPinch) { since = 0; scales = []; ratios = []; report(0); return; }
+      if (!since) since = now;
+      scales.push(hand.handScale); ratios.push(ratio);
+      report((now - since) / HOLD_MS);
+      if (now - since < HOLD_MS) return;
+      if (step === 'OPEN') {
+        resultRef.current.handScale = median(scales);
+        resultRef.current.pinchOpen = median(ratios);
+        setStep('PINCH');
+      } else {
+        resultRef.current.pinchClosed = median(ratios);
+        setStep('REACH');
+      }
+    };
+
+    loadHandLandmarker()
+      .then(landmarker => { if (isMounted) detect(landmarker); })
+      .catch(() => { if (isMounted) setError("Error cargando IA de visión. Refresca la página."); });
+    return () => { isMounted = false; cancelAnimationFrame(raf); };
+  }, [step, videoElement]);
+
+  useEffect(() => setProgress(0), [step]);
+
+  const restart = () => { resultRef.current = {}; setStep('OPEN'); };
+  const current = step === 'DONE' ? null : STEPS[step];
+  const result = resultRef.current;
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-black/90 backdrop-blur-sm p-6 text-white animate-in fade-in duration-300">
+      <p className="text-xs font-bold text-sky-300 uppercase tracking-[0.3em]">Calibración · {playerName}</p>
+      <div className="flex gap-2">
+        {STEP_ORDER.map((s, i) => (
+          <span key={s} className={`w-8 h-1.5 rounded-full ${i <= STEP_ORDER.indexOf(step) ? 'bg-sky-400' : 'bg-white/15'}`} />
+        ))}
+      </div>
+
+      {current ? (
+        <>
+          <h2 className="text-3xl font-bold">{current.icon} {current.title}</h2>
+          <p className="max-w-md text-center text-white/70">{current.hint}</p>
+          <div className="relative w-full max-w-[560px] aspect-[4/3] rounded-2xl overflow-hidden border-2 border-white/10 bg-black">
+            <canvas ref={canvasRef} className="w-full h-full object-cover" style={{ transform: 'scaleX(-1)' }} />
+            {!isHandVisible && !error && (
+              <p className="absolute inset-x-0 bottom-4 text-center text-sm text-amber-300 font-bold">No veo tu mano todavía</p>
+            )}
+            {error && <p className="absolute inset-0 flex items-center justify-center text-rose-300">{error}</p>}
+          </div>
+          <div className="w-full max-w-[560px] h-2 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-sky-400 transition-all duration-150" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </>
+      ) : (
+        <div className="text-center space-y-2">
+          <h2 className="text-3xl font-bold">✅ ¡Listo!</h2>
+          <p className="text-white/70 text-sm">
+            Pinza: {Math.round((result.pinchClosed || 0) * 100)}% · Mano abierta: {Math.round((result.pinchOpen || 0) * 100)}%
+            {result.reach && <> · Alcance: {Math.round((result.reach.maxX - result.reach.minX) * 100)}% × {Math.round((result.reach.maxY - result.reach.minY) * 100)}%</>}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="px-6 py-2 rounded-full bg-white/10 hover:bg-white/20">Cancelar</button>
+        {step !== 'OPEN' && <button onClick={restart} className="px-6 py-2 rounded-full bg-white/10 hover:bg-white/20">🔄 Repetir</button>}
+        {step === 'DONE' && (
+          <button onClick={() => onComplete(result as Measurements)}
+            className="px-8 py-2 rounded-full bg-gradient-to-r from-sky-600 to-cyan-600 hover:from-sky-500 hover:to-cyan-500 font-bold">
+            Guardar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FaceLandmarker } from '@mediapipe/tasks-vision';
+import { DifficultyLevel, GardenEvent } from '../types';
+import { FaceExpressions, createFaceGestureEngine, readFaceExpressions } from '../utils/faceExpressions';
+import { FACE_GESTURES } from '../data/faceGestures';
+import { loadFaceLandmarker } from '../utils/vision';
+
+interface FaceScannerProps {
+  isActive: boolean;
+  videoElement: HTMLVideoElement | null;
+  levelId: DifficultyLevel;
+  onGesture?: (gesture: GardenEvent, data?: any) => void;
+}
+
+const LABEL_MS = 800;
+const MAX_TILT = 30; // Degrees shown as a full meter
+const METERS: { icon: string, value: (face: FaceExpressions) => number }[] = [
+  { icon: '😊', value: face => face.smile },
+  { icon: '😮', value: face => face.mouthOpen },
+  { icon: '🤨', value: face => face.browRaise },
+  { icon: '😌', value: face => face.blink },
+  { icon: '↔️', value: face => Math.min(1, Math.abs(face.tilt) / MAX_TILT) }
+];
+
+/**
+ * Optional face input next to HandScanner: expressions and head tilt become garden events
+ * (see data/faceGestures.ts). Shows a small meter per expression so players can find their threshold.
+ */
+export const FaceScanner: React.FC<FaceScannerProps> = ({ isActive, videoElement, levelId, onGesture }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const landmarkerRef = useRef<FaceLandmarker | null>(null);
+  const labelRef = useRef<{ text: string, time: number } | null>(null);
+  const [modelLoaded, setModelLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadFaceLandmarker()
+      .then(landmarker => { if (isMounted) { landmarkerRef.current = landmarker; setModelLoaded(true); } })
+      .catch(() => { if (isMounted) setError("Error cargando el seguimiento facial."); });
+    return () => { isMounted = false; };
+  }, []);
+
+  useEffect(() => {
+    if (!isActive || !modelLoaded || !canvasRef.current) return;
+    const canvas = canvasRef.current; const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const engine = createFaceGestureEngine(FACE_GESTURES);
+    let raf = 0;
+
+    const detect = () => {
+      raf = requestAnimationFrame(detect);
+      if (!videoElement || !videoElement.videoWidth || videoElement.readyState < 2) return;
+      if (canvas.width !== videoElement.videoWidth || canvas.height !== videoElement.videoHeight) {
+        canvas.width = videoElement.videoWidth; canvas.height = videoElement.videoHeight;
+      }
+      const now = performance.now();
+      let face: FaceExpressions | null = null;
+      try {
+        const result = landmarkerRef.current?.detectForVideo(videoElement, now);
+        if (result?.faceLandmarks[0] && result.faceBlendshapes[0]) {
+          face = readFaceExpressions(result.faceBlendshapes[0].categories, result.faceLandmarks[0], canvas.width / canvas.height);
+        }
+      } catch (e) {}
+
+      engine.update(face, levelId, now).forEach(({ definition, event, payload }) => {
+        onGesture?.(event, payload);
+        if (definition.label) labelRef.current = { text: definition.label, time: now };
+      });
+
+      const w = canvas.width; const h = canvas.height;
+      ctx.clearRect(0, 0, w, h);
+      // The canvas is mirrored like the video: flip back so the HUD reads correctly
+      ctx.save(); ctx.translate(w, 0); ctx.scale(-1, 1);
+      if (face) {
+        METERS.forEach(({ icon, value }, i) => {
+          const y = h - 24 - (METERS.length - 1 - i) * 26;
+          ctx.font = "18px sans-serif"; ctx.textAlign = "left"; ctx.textBaseline = "middle";
+          ctx.fillText(icon, 12, y);
+          ctx.fillStyle = "rgba(255, 255, 255, 0.15)"; ctx.fillRect(40, y - 4, 100, 8);
+          ctx.fillStyle = "#f472b6"; ctx.fillRect(40, y - 4, 100 * Math.max(0, Math.min(1, value(face))), 8);
+        });
+      }
+      const label = labelRef.current;
+      if (label && now - label.time < LABEL_MS) {
+        ctx.globalAlpha = 1 - (now - label.time) / LABEL_MS;
+        ctx.font = "bold 48px Inter"; ctx.textAlign = "center"; ctx.textBaseline = "alphabetic"; ctx.fillStyle = "#f472b6";
+        ctx.fillText(label.text, w / 2, h * 0.3);
+      }
+      ctx.restore();
+    };
+
+    detect();
+    return () => cancelAnimationFrame(raf);
+  }, [isActive, modelLoaded, videoElement, levelId, onGesture]);
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none object-cover"
+        style={{ transform: 'scaleX(-1)' }}
+      />
+      {isActive && !modelLoaded && !error && (
+        <div className="absolute top-2 inset-x-0 text-center text-xs text-white/80 font-mono uppercase tracking-wider pointer-events-none">
+          Cargando seguimiento facial...
+        </div>
+      )}
+      {error && (
+        <div className="absolute top-2 inset-x-0 text-center text-xs text-rose-300 pointer-events-none">{error}</div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { GardenDocument } from '../types';
+import { listGardens, parseGardenDocument } from '../utils/gardenStorage';
+import { downloadBlob } from '../utils/download';
+
+interface GardenLibraryProps {
+  activeGardenId: string | null;
+  gardenName: string;
+  refreshKey: number; // Bumped by the parent after every autosave
+  onRename: (name: string) => void;
+  onLoad: (garden: GardenDocument) => void;
+  onDelete: (id: string) => void;
+  onImport: (garden: GardenDocument) => void;
+}
+
+export const GardenLibrary: React.FC<GardenLibraryProps> = ({ activeGardenId, gardenName, refreshKey, onRename, onLoad, onDelete, onImport }) => {
+  const [gardens, setGardens] = useState<GardenDocument[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    listGardens()
+      .then(list => { if (isMounted) setGardens(list); })
+      .catch(() => { if (isMounted) setError("No se pudo abrir el almacenamiento del navegador."); });
+    return () => { isMounted = false; };
+  }, [refreshKey]);
+
+  const handleExport = (garden: GardenDocument) => {
+    const blob = new Blob([JSON.stringify(garden, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${garden.name.replace(/[^\w\-áéíóúñ ]/gi, '').trim() || 'jardin'}.garden.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setError(null);
+      onImport(parseGardenDocument(JSON.parse(await file.text())));
+    } catch (err: any) {
+      setError("Archivo de jardín inválido.");
+    }
+  };
+
+  return (
+    <div className="w-[320px] mx-auto mt-6 bg-black/50 backdrop-blur rounded-xl p-4 text-left text-sm text-white/80 border border-white/10">
+      <p className="text-xs font-bold text-emerald-400 uppercase tracking-wider mb-2">Mis Jardines</p>
+      <input
+        value={gardenName}
+        onChange={e => onRename(e.target.value)}
+        placeholder="Nombre del jardín"
+        className="w-full mb-3 px-3 py-2 rounded-lg bg-white/10 border border-white/10 text-white placeholder-white/30 outline-none focus:border-emerald-400"
+      />
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {gardens.length === 0 && <p className="text-white/40 italic text-xs">Aún no hay jardines guardados.</p>}
+        {gardens.map(garden => (
+          <div key={garden.id} className={`flex items-center gap-2 px-2 py-1 rounded ${garden.id === activeGardenId ? 'bg-emerald-600/40' : 'hover:bg-white/5'}`}>
+            <button onClick={() => onLoad(garden)} className="flex-1 text-left truncate" title="Cargar">
+              🌷 {garden.name} <span className="text-white/40 text-xs">({garden.flowers.length})</span>
+            </button>
+            <button onClick={() => handleExport(garden)} className="text-xs opacity-60 hover:opacity-100" title="Exportar">📤</button>
+            <button onClick={() => onDelete(garden.id)} className="text-xs opacity-60 hover:opacity-100" title="Eliminar">🗑️</button>
+          </div>
+        ))}
+      </div>
+      <label className="block mt-3 text-xs text-center px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 cursor-pointer transition-all">
+        📥 Importar jardín
+        <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </label>
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+};
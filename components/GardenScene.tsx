@@ -1,17 +1,131 @@
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import { GardenEvent, GardenInteractionState, DifficultyLevel } from '../types';
+import { GardenEvent, GardenInteractionState, BodyInteractionState, DifficultyLevel, GameStatus, GardenDocument, SavedFlower, PlantSpecies, PaintHistory, PaintStroke, StrokePoint, BrushType, NetMessage, NetVector } from '../types';
+import { createGuitarSynth, GuitarSynth, velocityToGain } from '../utils/guitarSynth';
+import { buildPlant, getGrowthStage, growthToBloom, growthToScale, PLANT_SPECIES, randomSpecies } from '../utils/plants';
+import { snapStrokePoints } from '../utils/shapeRecognizer';
+import { beginStroke, BrushSplat, buildTimelapse, clearPaintHistory, createPaintHistory, createStrokeRasterizer, PAINT_LAYER_COUNT, PaintFrame, rasterizeStroke, redoStroke, TimelapseStep, undoStroke } from '../utils/paintHistory';
+import { randomSeed } from '../utils/random';
+import { BRUSHES, BrushTextures } from '../utils/brushes';
+import { BODY_LIMBS } from '../utils/bodyMotion';
+import { PLAYER_COLORS, PLAYER_COUNT } from '../utils/players';
+import { NET_LEVELS, NetSession } from '../utils/netSession';
+import { createOwnershipTable, OwnershipTable } from '../utils/sharedObjects';
 
 interface GardenSceneProps {
   activeEvent: GardenEvent | null;
   eventPayload?: any;
   isActive: boolean;
   interactionRef?: React.MutableRefObject<GardenInteractionState>;
+  bodyRef?: React.MutableRefObject<BodyInteractionState>; // Full-body tracking, when switched on
   levelId?: DifficultyLevel;
-  onScore?: (points: number) => void;
+  onScore?: (points: number, player?: number) => void; // player: who scored, in split mode
+  onGameState?: (state: GameStatus) => void;
+  onGardenChange?: (flowers: SavedFlower[]) => void; // Autosave hook (Garden)
+  plantSpecies?: PlantSpecies | 'RANDOM'; // Species palette selection (Garden)
+  paintHistoryRef?: React.MutableRefObject<PaintHistory>; // Stroke history + layers (Painter)
+  onPaintHistoryChange?: () => void; // Strokes were added, undone or cleared
+  onTimelapseEnd?: () => void; // A TIMELAPSE replay finished drawing
+  playerRefs?: React.MutableRefObject<GardenInteractionState>[] | null; // Split mode (Frontón / Arcade): one pointer per player
+  netRef?: React.MutableRefObject<NetSession | null>; // Networked play (Garden / Painter / Frontón)
 }
 
-export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayload, isActive, interactionRef, levelId, onScore }) => {
+// Garden Environment Presets (sky + lighting targets the scene blends towards)
+type EnvironmentPreset = 'DAY' | 'SUN' | 'NIGHT';
+const ENVIRONMENT_PRESETS: Record<EnvironmentPreset, { sky: string, ambient: number, sun: number, sunColor: string, night: number }> = {
+  DAY:   { sky: '#0f172a', ambient: 0.8,  sun: 1.2, sunColor: '#ffffff', night: 0 },
+  SUN:   { sky: '#38bdf8', ambient: 1.1,  sun: 2.0, sunColor: '#fde68a', night: 0 },
+  NIGHT: { sky: '#020617', ambient: 0.25, sun: 0.3, sunColor: '#93c5fd', night: 1 },
+};
+const ENVIRONMENT_BLEND = 0.02; // Per-frame lerp factor (~2s transitions)
+const WIND_DURATION_MS = 6000;
+const FIREFLY_COUNT = 60;
+const AUTOSAVE_CHECK_MS = 2000;
+
+// Garden Plant Simulation
+const MAX_PLANTS = 80; // Reseeding stops once the garden is this full
+const PLANT_MIN_SPACING = 0.4;
+const GARDEN_RADIUS = 15; // Seeds landing further out are lost
+
+// Painter Configuration
+const PAINT_CANVAS_Z = -5;
+const PAINT_REBUILD_BATCH = 400; // Splats rendered per pass when replaying a layer
+
+// Stacks the paint layer targets bottom to top. Layer textures hold premultiplied color
+// (NormalBlending into a cleared target), so "over" is a plain premultiplied blend.
+const createLayerCompositeMaterial = (textures: THREE.Texture[]) => {
+    const uniforms: Record<string, THREE.IUniform> = {};
+    textures.forEach((texture, i) => { uniforms[`layer${i}`] = { value: texture }; uniforms[`opacity${i}`] = { value: 1 }; });
+    return new THREE.ShaderMaterial({
+        uniforms,
+        vertexShader: `varying vec2 vUv; void main() { vUv = uv; gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0); }`,
+        fragmentShader: `
+            varying vec2 vUv;
+            ${textures.map((_, i) => `uniform sampler2D layer${i}; uniform float opacity${i};`).join('\n')}
+            void main() {
+                vec4 color = vec4(0.0); vec4 layer;
+                ${textures.map((_, i) => `layer = texture2D(layer${i}, vUv) * opacity${i}; color = layer + color * (1.0 - layer.a);`).join('\n')}
+                gl_FragColor = vec4(color.a > 0.0 ? color.rgb / color.a : vec3(0.0), color.a);
+                #include <colorspace_fragment>
+            }`,
+        transparent: true, depthWrite: false, side: THREE.DoubleSide
+    });
+};
+
+const createPaintTarget = () => new THREE.WebGLRenderTarget(window.innerWidth, window.innerHeight, {
+    minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, format: THREE.RGBAFormat, type: THREE.HalfFloatType, depthBuffer: false, stencilBuffer: false,
+});
+
+// Arcade Configuration
+const ARCADE_MAX_HEALTH = 100;
+const ARCADE_SPAWN_Z = -35;
+const ARCADE_BREACH_Z = 7; // Enemies past this line hurt the player
+const ARCADE_FIRE_COOLDOWN_MS = 350;
+const ARCADE_WAVE_BREAK_MS = 2500;
+
+// Frontón with body tracking: hands, elbows and feet swung at the ball hit it
+const BODY_HIT_RANGE = 1.8;      // World units around the ball, on the player's plane
+const BODY_HIT_SPEED = 0.8;      // Minimum limb speed, screen units per second
+const BODY_HIT_FORCE = 0.5;
+const BODY_HIT_COOLDOWN_MS = 300;
+
+// Split mode: Frontón players take turns, a ball lost behind the player on turn scores for the other one
+const RALLY_POINTS = 10;
+const BALL_GRAB_RANGE = 2.5;
+
+// Networked play
+const NET_STATE_INTERVAL_MS = 50;     // Pointer and moving objects are streamed ~20 times a second
+const NET_POINTER_TIMEOUT_MS = 1000;  // Hide the other player's cursor when their stream stops
+const NET_STROKE_CHUNK = 500;         // Points per message when a whole stroke is sent
+const NET_BALL_ID = 'ball';
+
+let plantCounter = 0;
+
+// Dodge Configuration: obstacles fly down the lane and are judged as they cross the player's plane
+const DODGE_MAX_LIVES = 3;
+const DODGE_SPAWN_Z = -40;
+const DODGE_PLAYER_Z = 4;
+const DODGE_LANE_WIDTH = 6;     // World width the head covers moving across the whole camera image
+const DODGE_HEAD_Y = 1.6;       // Standing head height
+const DODGE_HEAD_RADIUS = 0.3;
+const DODGE_DUCK_DROP = 0.6;    // Shoulder drop, in torso lengths, of a full duck
+const DODGE_DUCK_DEPTH = 0.8;   // How far a full duck lowers the head
+const DODGE_JUMP_HEIGHT = 0.8;
+const DODGE_AIR_MS = 400;       // The feet count as off the ground this long after a jump is seen
+const DODGE_START_GAP_MS = 2200;
+const DODGE_MIN_GAP_MS = 700;
+const DODGE_LEVEL_EVERY = 8;    // Obstacles dodged per difficulty step
+
+type DodgeKind = 'HIGH' | 'LOW' | 'LEFT' | 'RIGHT';
+// The part of the player's plane each obstacle blocks, in world units
+const DODGE_OBSTACLES: Record<DodgeKind, { minX: number, maxX: number, minY: number, maxY: number, color: number }> = {
+  HIGH: { minX: -4, maxX: 4, minY: 1.3, maxY: 2.6, color: 0xf43f5e },  // Duck
+  LOW: { minX: -4, maxX: 4, minY: 0, maxY: 0.6, color: 0xfacc15 },     // Jump
+  LEFT: { minX: -4, maxX: 0, minY: 0, maxY: 3, color: 0x38bdf8 },      // Lean or step right
+  RIGHT: { minX: 0, maxX: 4, minY: 0, maxY: 3, color: 0x38bdf8 }       // Lean or step left
+};
+
+export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayload, isActive, interactionRef, bodyRef, levelId, onScore, onGameState, onGardenChange, plantSpecies, paintHistoryRef, onPaintHistoryChange, onTimelapseEnd, playerRefs, netRef }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
@@ -19,16 +133,30 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
   const flowersRef = useRef<THREE.Group | null>(null);
   const particlesRef = useRef<THREE.Group | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const guitarSynthRef = useRef<GuitarSynth | null>(null);
   
-  // --- PAINTER MODE: Render Target System ---
-  const paintRT = useRef<THREE.WebGLRenderTarget | null>(null);
+  // --- PAINTER MODE: Render Target System (one target per layer) ---
+  const paintLayersRT = useRef<THREE.WebGLRenderTarget[]>([]);
   const brushScene = useRef<THREE.Scene | null>(null);
   const paintQuad = useRef<THREE.Mesh | null>(null);
   const sharedBrushGeoRef = useRef<THREE.BufferGeometry | null>(null);
   
-  // Impasto Textures
-  const brushColorMapRef = useRef<THREE.Texture | null>(null);
-  const brushNormalMapRef = useRef<THREE.Texture | null>(null);
+  // Brush Textures (per brush type)
+  const brushTexturesRef = useRef<Partial<Record<BrushType, BrushTextures>>>({});
+  
+  // Environment (Garden)
+  const ambientLightRef = useRef<THREE.AmbientLight | null>(null);
+  const sunLightRef = useRef<THREE.DirectionalLight | null>(null);
+  const firefliesRef = useRef<THREE.Points | null>(null);
+  const environmentRef = useRef({ preset: 'DAY' as EnvironmentPreset, night: 0, wind: 0, windUntil: 0 });
+
+  // Garden persistence
+  const autosaveRef = useRef({ lastCheck: 0, signature: '' });
+
+  // Garden plants
+  const plantSpeciesRef = useRef(plantSpecies);
+  const plantClockRef = useRef(0);
+  useEffect(() => { plantSpeciesRef.current = plantSpecies; }, [plantSpecies]);
   
   // Interaction State
   const groundRef = useRef<THREE.Mesh | null>(null);
@@ -41,19 +169,58 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
   // Garden Physics State
   const heldFlowerRef = useRef<THREE.Object3D | null>(null);
 
-  // Stroke Interpolation
-  const lastPaintPos = useRef<{x:number, y:number} | null>(null);
+  // Stroke Recording: strokes being drawn right now, keyed by cursor
+  const localPaintHistoryRef = useRef<PaintHistory>(createPaintHistory());
+  const historyRef = paintHistoryRef || localPaintHistoryRef;
+  const liveStrokesRef = useRef<Map<string, { stroke: PaintStroke, rasterize: (point: StrokePoint, frame: PaintFrame) => BrushSplat[] }>>(new Map());
+  // Time-lapse replay: live painting pauses while the recorded points are redrawn on a compressed clock
+  const timelapseRef = useRef<{ steps: TimelapseStep[], next: number, startTime: number, rasterizers: Map<string, (point: StrokePoint, frame: PaintFrame) => BrushSplat[]> } | null>(null);
   const animationIdRef = useRef<number>(0);
   
   // Physics Ball
   const ballRef = useRef<THREE.Mesh | null>(null);
   const ballVelocity = useRef<THREE.Vector3>(new THREE.Vector3(0, 0, 0));
   const isBallHeldRef = useRef<boolean>(false);
+  const lastBodyHitRef = useRef<number>(0);
   
   // Wall Ball specific
   const backWallRef = useRef<THREE.Mesh | null>(null);
   const targetsRef = useRef<THREE.Group | null>(null);
 
+  // Arcade specific
+  const enemiesRef = useRef<THREE.Group | null>(null);
+  const raycasterRef = useRef<THREE.Raycaster>(new THREE.Raycaster());
+  // Mirrors the isActive prop for the render loop (games only advance once the session started)
+  const isActiveRef = useRef(isActive);
+  const arcadeRef = useRef({
+      health: ARCADE_MAX_HEALTH, wave: 0, toSpawn: 0, nextSpawnTime: 0, nextWaveTime: 0, lastShotTime: 0, isGameOver: false
+  });
+
+  // Split mode: the render loop reads the players' pointers through this ref
+  const playerRefsRef = useRef(playerRefs);
+  playerRefsRef.current = playerRefs;
+  const playerCursorsRef = useRef<THREE.Mesh[]>([]);
+  const playerShotTimesRef = useRef<number[]>(Array(PLAYER_COUNT).fill(0));
+  // Frontón rally: who may hit next, who threw last (null = serve) and who holds the ball
+  const rallyRef = useRef<{ turn: number, thrower: number | null, hasHitWall: boolean, holder: number | null }>({ turn: 0, thrower: null, hasHitWall: false, holder: null });
+
+  // Networked play: who owns each shared object, and the other player's pointer
+  const netSyncRef = useRef<{ session: NetSession | null, remotePeer: string | null, flowers: OwnershipTable, ball: OwnershipTable, lastSent: number }>({
+      session: null, remotePeer: null, flowers: createOwnershipTable('', 'LOCK'), ball: createOwnershipTable('', 'HANDOFF'), lastSent: 0
+  });
+  const remotePointerRef = useRef<(Extract<NetMessage, { kind: 'pointer' }> & { time: number }) | null>(null);
+  const remoteCursorRef = useRef<THREE.Mesh | null>(null);
+  const remoteRasterizersRef = useRef<Map<string, (point: StrokePoint, frame: PaintFrame) => BrushSplat[]>>(new Map());
+
+  // Dodge specific
+  const dodgeObstaclesRef = useRef<THREE.Group | null>(null);
+  const dodgeMarkerRef = useRef<THREE.Mesh | null>(null);
+  const dodgeRef = useRef({
+      lives: DODGE_MAX_LIVES, level: 1, dodged: 0, nextSpawnTime: 0, isGameOver: false,
+      standingY: null as number | null, // Shoulder height while standing, learned as the player plays
+      lastJumpTime: 0
+  });
+
   // Audio System
   const getAudioContext = () => {
       if (!audioContextRef.current) {
@@ -63,6 +230,17 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
       return audioContextRef.current;
   };
   
+  const getGuitarSynth = () => {
+      if (!guitarSynthRef.current) guitarSynthRef.current = createGuitarSynth(getAudioContext());
+      return guitarSynthRef.current;
+  };
+
+  // Note loudness follows how fast the hand was moving when it hit the string
+  const getPluckVelocity = () => {
+      if (!interactionRef?.current) return 0.6;
+      return velocityToGain(Math.hypot(interactionRef.current.velocityX, interactionRef.current.velocityY));
+  };
+  
   const playResetSound = () => {
       const ctx = getAudioContext();
       if (ctx.state === 'suspended') ctx.resume();
@@ -104,7 +282,7 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
     osc.stop(t + 1.0);
   };
 
-  const playImpactSound = (type: 'WALL' | 'TARGET' | 'SOFT') => {
+  const playImpactSound = (type: 'WALL' | 'TARGET' | 'SOFT' | 'LASER') => {
     const ctx = getAudioContext();
     if (ctx.state === 'suspended') ctx.resume();
     const t = ctx.currentTime;
@@ -116,6 +294,10 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
         osc.type = 'square'; osc.frequency.setValueAtTime(880, t); osc.frequency.linearRampToValueAtTime(1760, t + 0.1); 
         gain.gain.setValueAtTime(0.15, t); gain.gain.exponentialRampToValueAtTime(0.001, t + 0.5);
         osc.start(t); osc.stop(t + 0.5);
+    } else if (type === 'LASER') {
+        osc.type = 'sawtooth'; osc.frequency.setValueAtTime(1400, t); osc.frequency.exponentialRampToValueAtTime(180, t + 0.15);
+        gain.gain.setValueAtTime(0.12, t); gain.gain.exponentialRampToValueAtTime(0.001, t + 0.18);
+        osc.start(t); osc.stop(t + 0.18);
     } else if (type === 'SOFT') {
         osc.type = 'sine'; osc.frequency.setValueAtTime(220, t);
         gain.gain.setValueAtTime(0.2, t); gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
@@ -161,7 +343,7 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
       }
   };
   
-  const spawnFallingPetal = (pos: THREE.Vector3) => {
+  const spawnFallingPetal = (pos: THREE.Vector3, wind: number = 0) => {
       if (!particlesRef.current) return;
       const geo = new THREE.PlaneGeometry(0.08, 0.08);
       const mat = new THREE.MeshBasicMaterial({ color: 0xffc0cb, side: THREE.DoubleSide, transparent: true });
@@ -171,45 +353,234 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
       mesh.position.y += (Math.random() - 0.5) * 0.4;
       mesh.position.z += (Math.random() - 0.5) * 0.4;
       mesh.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, 0);
-      mesh.userData = { velocity: new THREE.Vector3((Math.random()-0.5)*0.1, -0.05, (Math.random()-0.5)*0.1), life: 1.5, decayRate: 0.01, gravity: 0.005, rotationSpeed: new THREE.Vector3(Math.random()*0.2, Math.random()*0.2, Math.random()*0.2) };
+      mesh.userData = { velocity: new THREE.Vector3((Math.random()-0.5)*0.1 + wind * 0.12, -0.05 + wind * 0.04, (Math.random()-0.5)*0.1), life: 1.5, decayRate: 0.01, gravity: 0.005, rotationSpeed: new THREE.Vector3(Math.random()*0.2, Math.random()*0.2, Math.random()*0.2) };
       particlesRef.current.add(mesh);
   };
   
-  const spawnFlower = (x: number, z: number) => {
+  const pickPlantSpecies = (): PlantSpecies => {
+      const selected = plantSpeciesRef.current;
+      return selected && selected !== 'RANDOM' ? selected : randomSpecies();
+  };
+
+  // `saved` restores a plant from a GardenDocument instead of planting a fresh seed.
+  // `id` is only given for plants the other player planted; our own are announced to them.
+  const spawnPlant = (x: number, z: number, species: PlantSpecies = pickPlantSpecies(), saved?: SavedFlower, id?: string) => {
       if (!flowersRef.current) return;
-      const flower = new THREE.Group();
-      flower.position.set(x, 0, z);
-      const stemGeo = new THREE.CylinderGeometry(0.05, 0.05, 0.5, 8);
-      const stemMat = new THREE.MeshStandardMaterial({ color: 0x4ade80 });
-      const stem = new THREE.Mesh(stemGeo, stemMat);
-      stem.position.y = 0.25;
-      flower.add(stem);
-      const petalColor = new THREE.Color().setHSL(Math.random(), 0.8, 0.6);
-      const petalGeo = new THREE.SphereGeometry(0.15, 8, 8);
-      const petalMat = new THREE.MeshStandardMaterial({ color: petalColor });
-      const petalCount = 5;
-      for(let i=0; i<petalCount; i++) {
-          const angle = (i / petalCount) * Math.PI * 2;
-          const petal = new THREE.Mesh(petalGeo, petalMat);
-          petal.position.set(Math.cos(angle)*0.15, 0.5, Math.sin(angle)*0.15);
-          petal.scale.set(1, 0.5, 1);
-          flower.add(petal);
-      }
-      const centerGeo = new THREE.SphereGeometry(0.1, 8, 8);
-      const centerMat = new THREE.MeshStandardMaterial({ color: 0xfacc15 });
-      const center = new THREE.Mesh(centerGeo, centerMat);
-      center.position.y = 0.5;
-      flower.add(center);
-      flower.userData = { scaleSpeed: 0.05, targetScale: 1.0 + Math.random() * 0.5, currentScale: 0.1, isHeld: false };
-      flower.scale.set(0.1, 0.1, 0.1);
-      flowersRef.current.add(flower);
-      spawnDust(x, z);
+      if (!saved && flowersRef.current.children.length >= MAX_PLANTS) return;
+      const kind = saved ? saved.species : species;
+      const seed = saved ? saved.seed : randomSeed();
+      const { root, bloom, color, size } = buildPlant(kind, seed, saved?.petalColor);
+      root.position.set(x, saved ? saved.position[1] : 0, z);
+      if (saved) root.rotation.set(saved.rotation[0], saved.rotation[1], saved.rotation[2]);
+      else root.rotation.y = Math.random() * Math.PI * 2;
+      root.userData = {
+          species: kind, seed, petalColor: color, bloom, isHeld: false,
+          size: saved ? saved.size : size, growth: saved ? saved.growth : 0,
+          seedTimer: 0, stage: 'SEED', swayPhase: Math.random() * Math.PI * 2,
+          id: id || `plant-${Date.now().toString(36)}-${plantCounter++}`, isRemote: !!id
+      };
+      root.scale.setScalar(root.userData.size * growthToScale(root.userData.growth));
+      flowersRef.current.add(root);
+      if (!saved) spawnDust(x, z);
+      if (!id) sendNet({ kind: 'plant', id: root.userData.id, flower: serializeFlower(root) });
+  };
+
+  // Mature plants drop a seed of their own species somewhere free around them
+  // The other player's plants reseed on their side and arrive as new plants
+  const reseedPlant = (parent: THREE.Object3D) => {
+      const flowers = flowersRef.current;
+      if (!flowers || parent.userData.isRemote || flowers.children.length >= MAX_PLANTS) return;
+      const def = PLANT_SPECIES[parent.userData.species as PlantSpecies];
+      const angle = Math.random() * Math.PI * 2;
+      const dist = (0.4 + Math.random() * 0.6) * def.seedRadius * parent.userData.size;
+      const x = parent.position.x + Math.cos(angle) * dist;
+      const z = parent.position.z + Math.sin(angle) * dist;
+      if (Math.hypot(x, z) > GARDEN_RADIUS) return;
+      if (flowers.children.some(f => Math.hypot(f.position.x - x, f.position.z - z) < PLANT_MIN_SPACING)) return;
+      spawnPlant(x, z, parent.userData.species);
+  };
+
+  // Growth, sway and reseeding for every plant. Growth runs on real time (seconds), not frames.
+  const updatePlants = (now: number) => {
+      const flowers = flowersRef.current;
+      if (!flowers) return;
+      const dt = plantClockRef.current ? Math.min(0.1, (now - plantClockRef.current) / 1000) : 0;
+      plantClockRef.current = now;
+      const env = environmentRef.current;
+      // Sunshine speeds growth up, night slows it down
+      const growthRate = env.preset === 'SUN' ? 2 : 1 - env.night * 0.6;
+      const parents: THREE.Object3D[] = [];
+
+      flowers.children.forEach(plant => {
+          const data = plant.userData;
+          const def = PLANT_SPECIES[data.species as PlantSpecies];
+          const isResting = !data.isHeld && !data.velocity;
+          if (data.growth < 1) {
+              data.growth = Math.min(1, data.growth + (dt * growthRate) / def.growthSeconds);
+          } else if (isResting) {
+              data.seedTimer += dt * growthRate;
+              if (data.seedTimer >= def.seedIntervalSeconds) {
+                  data.seedTimer = 0;
+                  parents.push(plant);
+              }
+          }
+          data.stage = getGrowthStage(data.growth, data.seedTimer > def.seedIntervalSeconds * 0.8);
+          if (data.stage === 'SEEDING' && Math.random() < 0.01) spawnFallingPetal(plant.position.clone().setY(0.5 * plant.scale.y), env.wind);
+
+          plant.scale.setScalar(data.size * growthToScale(data.growth) * (data.isHeld ? 1.2 : 1));
+          if (data.bloom) data.bloom.scale.setScalar(Math.max(0.001, growthToBloom(data.growth)));
+
+          // Only resting plants sway; held or flying ones own their rotation
+          if (isResting) {
+              const sway = Math.sin(now / 500 + data.swayPhase) * def.flex * (0.03 + 0.22 * env.wind);
+              plant.rotation.z = sway;
+              plant.rotation.x = sway * 0.3;
+          }
+      });
+      parents.forEach(reseedPlant);
+  };
+
+  const serializeFlower = (f: THREE.Object3D): SavedFlower => {
+      const round = (n: number) => Math.round(n * 1000) / 1000;
+      return {
+          species: f.userData.species,
+          seed: f.userData.seed,
+          position: [round(f.position.x), round(Math.max(0, f.position.y)), round(f.position.z)],
+          rotation: [round(f.rotation.x), round(f.rotation.y), round(f.rotation.z)],
+          petalColor: f.userData.petalColor || '#f472b6',
+          size: round(f.userData.size),
+          growth: round(f.userData.growth)
+      };
+  };
+
+  const serializeFlowers = (): SavedFlower[] => flowersRef.current ? flowersRef.current.children.map(serializeFlower) : [];
+
+  const restoreGarden = (doc: GardenDocument) => {
+      if (!flowersRef.current) return;
+      flowersRef.current.clear();
+      heldFlowerRef.current = null;
+      doc.flowers.forEach(f => spawnPlant(f.position[0], f.position[2], f.species, f));
+      // The restored state is the saved state: don't echo it back as a change
+      autosaveRef.current.signature = getGardenSignature();
+  };
+
+  // Cheap fingerprint so autosave only fires when something actually moved, grew or was planted.
+  // Growth is bucketed in quarters so a growing garden doesn't save on every check.
+  const getGardenSignature = () => {
+      if (!flowersRef.current) return '';
+      let sum = 0;
+      flowersRef.current.children.forEach(f => { sum += f.position.x * 3 + f.position.z * 7 + f.userData.size + Math.floor(f.userData.growth * 4); });
+      return `${flowersRef.current.children.length}:${sum.toFixed(2)}`;
+  };
+
+  const checkAutosave = (now: number) => {
+      const autosave = autosaveRef.current;
+      if (!onGardenChange || now - autosave.lastCheck < AUTOSAVE_CHECK_MS) return;
+      autosave.lastCheck = now;
+      // Wait for thrown flowers to land before saving
+      if (heldFlowerRef.current || flowersRef.current?.children.some(f => f.userData.velocity)) return;
+      const signature = getGardenSignature();
+      if (signature === autosave.signature) return;
+      autosave.signature = signature;
+      onGardenChange(serializeFlowers());
   };
   
-  const spawnImpactBloom = (pos: THREE.Vector3) => {
+  const createFireflies = () => {
+      const positions = new Float32Array(FIREFLY_COUNT * 3);
+      const base = new Float32Array(FIREFLY_COUNT * 3);
+      for (let i = 0; i < FIREFLY_COUNT; i++) {
+          base[i * 3] = (Math.random() - 0.5) * 24;
+          base[i * 3 + 1] = 0.3 + Math.random() * 3;
+          base[i * 3 + 2] = (Math.random() - 0.5) * 24;
+      }
+      positions.set(base);
+      const geo = new THREE.BufferGeometry();
+      geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      const mat = new THREE.PointsMaterial({ color: 0xfde047, size: 0.18, transparent: true, opacity: 0, blending: THREE.AdditiveBlending, depthWrite: false });
+      const points = new THREE.Points(geo, mat);
+      points.userData = { base, phases: Array.from({ length: FIREFLY_COUNT }, () => Math.random() * Math.PI * 2) };
+      points.visible = false;
+      return points;
+  };
+
+  const setEnvironment = (preset: EnvironmentPreset) => {
+      environmentRef.current.preset = preset;
+  };
+
+  const triggerWind = () => {
+      environmentRef.current.windUntil = performance.now() + WIND_DURATION_MS;
+      playResetSound(); // Filtered noise doubles as a gust
+  };
+
+  // Every plant matures at once with a size step and a ring of new seeds sprouts around the garden
+  const triggerMassBloom = () => {
+      if (!flowersRef.current) return;
+      flowersRef.current.children.forEach(f => {
+          const def = PLANT_SPECIES[f.userData.species as PlantSpecies];
+          f.userData.growth = 1;
+          f.userData.size = Math.min(def.sizeRange[1] * 1.5, f.userData.size * 1.15);
+          for (let i = 0; i < 3; i++) spawnFallingPetal(f.position.clone().setY(0.8));
+      });
+      for (let i = 0; i < 8; i++) {
+          setTimeout(() => {
+              const angle = Math.random() * Math.PI * 2; const r = 2 + Math.random() * 5;
+              spawnPlant(Math.cos(angle) * r, Math.sin(angle) * r);
+          }, i * 120);
+      }
+      playPlantSound();
+  };
+
+  const updateEnvironment = (now: number) => {
+      const env = environmentRef.current;
+      const target = ENVIRONMENT_PRESETS[env.preset];
+      const scene = sceneRef.current;
+      if (scene && scene.background instanceof THREE.Color) {
+          scene.background.lerp(new THREE.Color(target.sky), ENVIRONMENT_BLEND);
+          if (scene.fog) scene.fog.color.copy(scene.background);
+      }
+      if (ambientLightRef.current) ambientLightRef.current.intensity += (target.ambient - ambientLightRef.current.intensity) * ENVIRONMENT_BLEND;
+      if (sunLightRef.current) {
+          sunLightRef.current.intensity += (target.sun - sunLightRef.current.intensity) * ENVIRONMENT_BLEND;
+          sunLightRef.current.color.lerp(new THREE.Color(target.sunColor), ENVIRONMENT_BLEND);
+      }
+      env.night += (target.night - env.night) * ENVIRONMENT_BLEND;
+
+      // Wind eases in while the gust lasts and dies down afterwards
+      const windTarget = now < env.windUntil ? 1 : 0;
+      env.wind += (windTarget - env.wind) * 0.03;
+
+      if (flowersRef.current) {
+          if (env.wind > 0.2 && flowersRef.current.children.length > 0 && Math.random() < env.wind * 0.3) {
+              const f = flowersRef.current.children[Math.floor(Math.random() * flowersRef.current.children.length)];
+              spawnFallingPetal(f.position.clone().setY(0.6 * f.scale.y), env.wind);
+          }
+      }
+
+      const fireflies = firefliesRef.current;
+      if (fireflies) {
+          const mat = fireflies.material as THREE.PointsMaterial;
+          fireflies.visible = env.night > 0.02;
+          if (fireflies.visible) {
+              const pos = fireflies.geometry.getAttribute('position') as THREE.BufferAttribute;
+              const { base, phases } = fireflies.userData;
+              for (let i = 0; i < FIREFLY_COUNT; i++) {
+                  const p = phases[i];
+                  pos.setXYZ(i,
+                      base[i * 3] + Math.sin(now / 1500 + p) * 0.8 + env.wind * 2,
+                      base[i * 3 + 1] + Math.sin(now / 900 + p * 2) * 0.4,
+                      base[i * 3 + 2] + Math.cos(now / 1700 + p) * 0.8);
+              }
+              pos.needsUpdate = true;
+              // Slow collective twinkle
+              mat.opacity = env.night * (0.6 + Math.sin(now / 400) * 0.3);
+          }
+      }
+  };
+
+  const spawnImpactBloom = (pos: THREE.Vector3, species: PlantSpecies) => {
       for(let i=0; i<3; i++) {
           const offset = new THREE.Vector3((Math.random()-0.5)*1.5, 0, (Math.random()-0.5)*1.5);
-          spawnFlower(pos.x + offset.x, pos.z + offset.z);
+          spawnPlant(pos.x + offset.x, pos.z + offset.z, species);
       }
       spawnTargetBurst(pos.x, pos.y, pos.z, 0x4ade80); 
       playPlantSound(); 
@@ -300,103 +671,734 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
       targetsRef.current.add(group);
   };
 
-  const createImpastoBrush = () => {
-    const size = 256; 
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    const cx = size / 2;
-    const cy = size / 2;
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, size, size);
-    const gradient = ctx.createRadialGradient(cx, cy, size * 0.1, cx, cy, size * 0.5);
-    gradient.addColorStop(0, 'rgba(255, 255, 255, 1.0)'); 
-    gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.5)');
-    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, size, size);
-    ctx.globalCompositeOperation = 'multiply'; 
-    ctx.strokeStyle = '#cccccc'; 
-    for (let i = 0; i < 100; i++) {
-        const x = Math.random() * size;
-        const width = size * 0.8;
-        const y = Math.random() * size;
-        ctx.beginPath();
-        ctx.moveTo(x - width/2, y);
-        ctx.bezierCurveTo(x - width/4, y + Math.random()*4, x + width/4, y - Math.random()*4, x + width/2, y);
-        ctx.lineWidth = 1 + Math.random() * 2;
-        ctx.stroke();
+  const reportArcadeState = () => {
+      const a = arcadeRef.current;
+      onGameState?.({ health: a.health, maxHealth: ARCADE_MAX_HEALTH, wave: a.wave, isGameOver: a.isGameOver });
+  };
+
+  const startArcadeWave = (now: number) => {
+      const a = arcadeRef.current;
+      a.wave += 1;
+      a.toSpawn = 4 + a.wave * 2;
+      a.nextSpawnTime = now;
+      reportArcadeState();
+  };
+
+  // Every enemy owns its geometry and material
+  const removeEnemy = (enemy: THREE.Mesh) => {
+      enemiesRef.current?.remove(enemy);
+      enemy.geometry.dispose();
+      (enemy.material as THREE.Material).dispose();
+  };
+
+  const clearEnemies = () => {
+      [...(enemiesRef.current?.children || [])].forEach(enemy => removeEnemy(enemy as THREE.Mesh));
+  };
+
+  const resetArcade = () => {
+      clearEnemies();
+      arcadeRef.current = {
+          health: ARCADE_MAX_HEALTH, wave: 0, toSpawn: 0, nextSpawnTime: 0, nextWaveTime: performance.now() + ARCADE_WAVE_BREAK_MS, lastShotTime: 0, isGameOver: false
+      };
+      reportArcadeState();
+  };
+
+  const spawnEnemy = () => {
+      if (!enemiesRef.current) return;
+      const wave = arcadeRef.current.wave;
+      // From wave 3 on, some enemies are armored: bigger, slower, 3 hits
+      const isTough = wave >= 3 && Math.random() < Math.min(0.5, 0.1 * wave);
+      const color = isTough ? 0xf97316 : 0xec4899;
+      const radius = isTough ? 1.1 : 0.7;
+      const geo = new THREE.IcosahedronGeometry(radius, 0);
+      const mat = new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.6, roughness: 0.3, metalness: 0.6, flatShading: true });
+      const enemy = new THREE.Mesh(geo, mat);
+      enemy.position.set((Math.random() * 16) - 8, 1 + Math.random() * 5, ARCADE_SPAWN_Z);
+      enemy.castShadow = true;
+      enemy.userData = {
+          isEnemy: true, color, radius,
+          hp: isTough ? 3 : 1,
+          score: isTough ? 30 : 10,
+          speed: (isTough ? 0.05 : 0.08) + wave * 0.01,
+          wobblePhase: Math.random() * Math.PI * 2,
+          baseX: enemy.position.x
+      };
+      enemiesRef.current.add(enemy);
+  };
+
+  const spawnLaserBeam = (from: THREE.Vector3, to: THREE.Vector3) => {
+      if (!particlesRef.current) return;
+      const length = from.distanceTo(to);
+      const geo = new THREE.CylinderGeometry(0.04, 0.04, length, 6);
+      geo.translate(0, length / 2, 0);
+      geo.rotateX(Math.PI / 2); // Cylinder now extends along +Z from its origin
+      const mat = new THREE.MeshBasicMaterial({ color: 0xff3366, transparent: true, opacity: 1, blending: THREE.AdditiveBlending });
+      const beam = new THREE.Mesh(geo, mat);
+      beam.position.copy(from);
+      beam.lookAt(to);
+      beam.userData = { velocity: new THREE.Vector3(0, 0, 0), life: 0.6, decayRate: 0.08 };
+      particlesRef.current.add(beam);
+  };
+
+  // `player` fires from that player's pointer (split mode), with their own cooldown and score
+  const fireLaser = (player?: number) => {
+      const a = arcadeRef.current;
+      const camera = cameraRef.current;
+      const now = performance.now();
+      const aim = player === undefined ? interactionRef?.current : playerRefsRef.current?.[player]?.current;
+      const lastShotTime = player === undefined ? a.lastShotTime : playerShotTimesRef.current[player];
+      if (!camera || !aim || a.isGameOver || now - lastShotTime < ARCADE_FIRE_COOLDOWN_MS) return;
+      if (player === undefined) a.lastShotTime = now; else playerShotTimesRef.current[player] = now;
+
+      // Ray through the index tip, fired from a "gun" just below the camera (on the player's side in split mode)
+      const { x, y } = aim;
+      const raycaster = raycasterRef.current;
+      raycaster.setFromCamera(new THREE.Vector2((x * 2) - 1, -(y * 2) + 1), camera);
+      const muzzle = new THREE.Vector3(player === 0 ? -0.6 : 0.6, -0.8, -1).applyMatrix4(camera.matrixWorld);
+      let end = raycaster.ray.at(60, new THREE.Vector3());
+
+      const hits = enemiesRef.current ? raycaster.intersectObjects(enemiesRef.current.children, false) : [];
+      if (hits.length > 0) {
+          const enemy = hits[0].object as THREE.Mesh;
+          end = hits[0].point.clone();
+          enemy.userData.hp -= 1;
+          if (enemy.userData.hp <= 0) {
+              spawnTargetBurst(enemy.position.x, enemy.position.y, enemy.position.z, enemy.userData.color);
+              playImpactSound('TARGET');
+              onScore?.(enemy.userData.score, player);
+              removeEnemy(enemy);
+          } else {
+              // Armored hit: flash white and get knocked back a little
+              (enemy.material as THREE.MeshStandardMaterial).emissive.setHex(0xffffff);
+              setTimeout(() => (enemy.material as THREE.MeshStandardMaterial).emissive.setHex(enemy.userData.color), 80);
+              enemy.position.z -= 1.5;
+              playImpactSound('WALL');
+          }
+      }
+      spawnLaserBeam(muzzle, end);
+      playImpactSound('LASER');
+  };
+
+  const hitBallWithBody = (ball: THREE.Mesh, vel: THREE.Vector3, camera: THREE.PerspectiveCamera) => {
+      const body = bodyRef?.current;
+      if (!body?.isTracking || performance.now() - lastBodyHitRef.current < BODY_HIT_COOLDOWN_MS) return;
+      const ray = new THREE.Vector3(); const limbPos = new THREE.Vector3();
+      for (const limb of BODY_LIMBS.map(name => body.limbs[name])) {
+          const speed = Math.hypot(limb.vx, limb.vy);
+          if (!limb.visible || speed < BODY_HIT_SPEED) continue;
+          // Same plane as the grab cursor (Z = 0)
+          ray.set(limb.x * 2 - 1, -(limb.y * 2) + 1, 0.5).unproject(camera).sub(camera.position).normalize();
+          limbPos.copy(camera.position).add(ray.multiplyScalar((0 - camera.position.z) / ray.z));
+          if (limbPos.distanceTo(ball.position) > BODY_HIT_RANGE) continue;
+          // The swing aims sideways and up; every hit also drives the ball towards the wall
+          vel.set(limb.vx * BODY_HIT_FORCE, -limb.vy * BODY_HIT_FORCE, -Math.min(1.5, 0.4 + speed * 0.3));
+          lastBodyHitRef.current = performance.now();
+          claimBall(ball);
+          (ball.material as THREE.MeshStandardMaterial).emissive.setHex(0xfb923c);
+          playImpactSound('WALL');
+          return;
+      }
+  };
+
+  const throwBall = (ball: THREE.Mesh, vel: THREE.Vector3, hand: GardenInteractionState, color: number) => {
+      const THROW_FORCE = 30.0;
+      // Use averaged velocity from HandScanner for smoothness
+      vel.set(hand.velocityX * THROW_FORCE, -hand.velocityY * THROW_FORCE, hand.velocityZ * THROW_FORCE);
+      // Aim assist: If throwing generally forward, make sure it goes forward
+      if (vel.z > -2.0) vel.z -= 10.0;
+      (ball.material as THREE.MeshStandardMaterial).emissive.setHex(color);
+      playImpactSound('SOFT');
+  };
+
+  // Free flight: gravity, court bounces and target hits. Reports a wall bounce, or the ball lost behind the player
+  const stepBall = (ball: THREE.Mesh, vel: THREE.Vector3, onTargetHit: (points: number) => void): 'WALL' | 'OUT' | null => {
+      let result: 'WALL' | 'OUT' | null = null;
+      vel.y -= 0.02; // Gravity
+      vel.multiplyScalar(0.995); // Drag
+
+      // Speed Limit
+      if (vel.length() > 1.5) vel.setLength(1.5);
+
+      ball.position.add(vel);
+
+      if (ball.position.y < 0.25) { ball.position.y = 0.25; vel.y *= -0.8; }
+      // Wall Bounce at Z = -11.5 (Wall is -12, Ball radius 0.5)
+      if (ball.position.z < -11.5) {
+          ball.position.z = -11.5;
+          vel.z *= -0.8;
+          playImpactSound('WALL');
+          spawnDust(ball.position.x, ball.position.z);
+          result = 'WALL';
+      }
+      if (ball.position.z > 8.0) {
+          // Reset if goes too far behind
+          ball.position.set(0, 5, 0); vel.set(0,0,0);
+          result = 'OUT';
+      }
+      if (ball.position.x > 9) { ball.position.x = 9; vel.x *= -0.9; }
+      if (ball.position.x < -9) { ball.position.x = -9; vel.x *= -0.9; }
+      if (ball.position.y > 15) { ball.position.y = 15; vel.y *= -0.9; }
+
+      targetsRef.current?.children.forEach((targetGroup) => {
+          const tPos = targetGroup.position;
+          const tRadius = targetGroup.userData.radius || 1.4;
+
+          // Cylinder collision logic (Flat circle check essentially)
+          const dx = ball.position.x - tPos.x;
+          const dy = ball.position.y - tPos.y;
+          const dz = ball.position.z - tPos.z;
+          const dist = Math.sqrt(dx*dx + dy*dy);
+          const depthDist = Math.abs(dz);
+
+          if (dist < tRadius && depthDist < 1.0) {
+              spawnTargetBurst(tPos.x, tPos.y, tPos.z, new THREE.Color(targetGroup.userData.color).getHex());
+              playImpactSound('TARGET');
+              onTargetHit(targetGroup.userData.score || 10);
+              targetsRef.current?.remove(targetGroup);
+              spawnRandomTarget();
+          }
+      });
+      return result;
+  };
+
+  const resetRally = () => {
+      rallyRef.current = { turn: 0, thrower: null, hasHitWall: false, holder: null };
+      if (ballRef.current && playerRefsRef.current) (ballRef.current.material as THREE.MeshStandardMaterial).emissive.set(PLAYER_COLORS[0]);
+  };
+
+  // Split mode: a cursor per player on the same planes as the single-player one; Frontón alternates hits, Arcade races for kills
+  const updateSplitPlayers = (camera: THREE.PerspectiveCamera, players: React.MutableRefObject<GardenInteractionState>[]) => {
+      const ray = new THREE.Vector3();
+      players.forEach((ref, player) => {
+          const cursor = playerCursorsRef.current[player];
+          if (!cursor) return;
+          const { x, y, isHovering, isPointing } = ref.current;
+          ray.set((x * 2) - 1, -(y * 2) + 1, 0.5).unproject(camera).sub(camera.position).normalize();
+          if (levelId === DifficultyLevel.WALLBALL) {
+              cursor.position.copy(camera.position).add(ray.multiplyScalar((0 - camera.position.z) / ray.z));
+          } else {
+              cursor.position.copy(camera.position).add(ray.multiplyScalar(15));
+              if (isPointing) fireLaser(player);
+          }
+          cursor.visible = isHovering;
+      });
+
+      const ball = ballRef.current;
+      if (levelId !== DifficultyLevel.WALLBALL || !ball) return;
+      const vel = ballVelocity.current; const rally = rallyRef.current;
+      const material = ball.material as THREE.MeshStandardMaterial;
+      if (rally.holder === null) {
+          // Only the player on turn may catch it, and only once it came back from the wall
+          const canCatch = rally.thrower === null || rally.hasHitWall;
+          const hand = players[rally.turn].current; const cursor = playerCursorsRef.current[rally.turn];
+          if (canCatch && hand.isGrabbing && cursor && cursor.position.distanceTo(ball.position) < BALL_GRAB_RANGE) {
+              rally.holder = rally.turn;
+              vel.set(0, 0, 0);
+              playImpactSound('SOFT');
+          }
+      }
+      if (rally.holder !== null) {
+          const hand = players[rally.holder].current;
+          if (hand.isGrabbing) {
+              ball.position.copy(playerCursorsRef.current[rally.holder].position);
+              material.emissive.setHex(0x4ade80);
+          } else {
+              // The next hit belongs to the other player
+              rally.thrower = rally.holder; rally.holder = null;
+              rally.turn = (rally.thrower + 1) % PLAYER_COUNT; rally.hasHitWall = false;
+              throwBall(ball, vel, hand, new THREE.Color(PLAYER_COLORS[rally.turn]).getHex());
+          }
+          return;
+      }
+      const result = stepBall(ball, vel, points => onScore?.(points, rally.thrower ?? rally.turn));
+      if (result === 'WALL' && rally.thrower !== null) rally.hasHitWall = true;
+      if (rally.thrower !== null && !rally.hasHitWall && ball.position.y <= 0.3 && vel.length() < 0.02) {
+          // Died on the floor before reaching the wall: the point goes to the player on turn, who serves
+          onScore?.(RALLY_POINTS, rally.turn);
+          rally.thrower = null;
+          return;
+      }
+      if (result === 'OUT') {
+          // The player on turn missed: the other one takes the rally, the one who missed serves again
+          onScore?.(RALLY_POINTS, (rally.turn + 1) % PLAYER_COUNT);
+          rally.thrower = null; rally.hasHitWall = false;
+          material.emissive.set(PLAYER_COLORS[rally.turn]);
+      }
+  };
+
+  const updateArcade = () => {
+      const a = arcadeRef.current;
+      if (!isActiveRef.current || a.isGameOver || !enemiesRef.current) return;
+      const now = performance.now();
+
+      if (a.toSpawn === 0 && enemiesRef.current.children.length === 0) {
+          if (a.nextWaveTime === 0) a.nextWaveTime = now + ARCADE_WAVE_BREAK_MS;
+          if (now >= a.nextWaveTime) { a.nextWaveTime = 0; startArcadeWave(now); }
+      }
+      if (a.toSpawn > 0 && now >= a.nextSpawnTime) {
+          spawnEnemy();
+          a.toSpawn -= 1;
+          a.nextSpawnTime = now + Math.max(400, 1400 - a.wave * 100);
+      }
+
+      for (let i = enemiesRef.current.children.length - 1; i >= 0; i--) {
+          const enemy = enemiesRef.current.children[i] as THREE.Mesh;
+          const d = enemy.userData;
+          enemy.position.z += d.speed;
+          enemy.position.x = d.baseX + Math.sin(now / 600 + d.wobblePhase) * 1.5;
+          enemy.rotation.x += 0.02; enemy.rotation.y += 0.03;
+          if (enemy.position.z > ARCADE_BREACH_Z) {
+              removeEnemy(enemy);
+              a.health = Math.max(0, a.health - (d.hp > 1 ? 25 : 15));
+              playImpactSound('WALL');
+              if (sceneRef.current) {
+                  sceneRef.current.background = new THREE.Color(0x7f1d1d);
+                  setTimeout(() => { if (sceneRef.current) sceneRef.current.background = new THREE.Color('#0f172a'); }, 120);
+              }
+              if (a.health <= 0) {
+                  a.isGameOver = true;
+                  clearEnemies();
+                  playResetSound();
+                  reportArcadeState();
+                  return; // The loop's remaining enemies are gone
+              }
+              reportArcadeState();
+          }
+      }
+  };
+
+  const reportDodgeState = () => {
+      const d = dodgeRef.current;
+      onGameState?.({ health: d.lives, maxHealth: DODGE_MAX_LIVES, wave: d.level, isGameOver: d.isGameOver });
+  };
+
+  // Every obstacle owns its geometry and material
+  const removeObstacle = (obstacle: THREE.Mesh) => {
+      dodgeObstaclesRef.current?.remove(obstacle);
+      obstacle.geometry.dispose();
+      (obstacle.material as THREE.Material).dispose();
+  };
+
+  const clearObstacles = () => {
+      [...(dodgeObstaclesRef.current?.children || [])].forEach(obstacle => removeObstacle(obstacle as THREE.Mesh));
+  };
+
+  const resetDodge = () => {
+      clearObstacles();
+      dodgeRef.current = {
+          lives: DODGE_MAX_LIVES, level: 1, dodged: 0, nextSpawnTime: performance.now() + DODGE_START_GAP_MS, isGameOver: false,
+          standingY: null, lastJumpTime: 0
+      };
+      reportDodgeState();
+  };
+
+  const spawnDodgeObstacle = () => {
+      if (!dodgeObstaclesRef.current) return;
+      const kinds = Object.keys(DODGE_OBSTACLES) as DodgeKind[];
+      const kind = kinds[Math.floor(Math.random() * kinds.length)];
+      const box = DODGE_OBSTACLES[kind];
+      const geo = new THREE.BoxGeometry(box.maxX - box.minX, box.maxY - box.minY, 0.6);
+      const mat = new THREE.MeshStandardMaterial({ color: box.color, emissive: box.color, emissiveIntensity: 0.5, roughness: 0.4, metalness: 0.5, transparent: true, opacity: 0.85 });
+      const obstacle = new THREE.Mesh(geo, mat);
+      obstacle.position.set((box.minX + box.maxX) / 2, (box.minY + box.maxY) / 2, DODGE_SPAWN_Z);
+      obstacle.userData = { kind, speed: 0.25 + dodgeRef.current.level * 0.04 };
+      dodgeObstaclesRef.current.add(obstacle);
+  };
+
+  // The player is a column from the feet to the head: the shoulders give the height (ducking), the head the side
+  const updateDodge = () => {
+      const d = dodgeRef.current; const body = bodyRef?.current; const group = dodgeObstaclesRef.current; const marker = dodgeMarkerRef.current;
+      if (!isActiveRef.current || d.isGameOver || !group || !marker) return;
+      const now = performance.now();
+      marker.visible = !!body?.isTracking;
+      // Nobody in view: the lane waits for the player
+      if (!body?.isTracking) { d.nextSpawnTime = Math.max(d.nextSpawnTime, now + DODGE_MIN_GAP_MS); return; }
+
+      const { head, shoulders, torso } = body;
+      if (d.standingY === null) d.standingY = shoulders.y;
+      const duck = Math.max(0, Math.min(1, (shoulders.y - d.standingY) / torso / DODGE_DUCK_DROP));
+      if (duck < 0.2 && !body.isJumping) d.standingY += (shoulders.y - d.standingY) * 0.02;
+      if (body.isJumping) d.lastJumpTime = now;
+      const feetY = now - d.lastJumpTime < DODGE_AIR_MS ? DODGE_JUMP_HEIGHT : 0;
+      const headX = ((head.visible ? head.x : shoulders.x) - 0.5) * DODGE_LANE_WIDTH;
+      const headY = DODGE_HEAD_Y - duck * DODGE_DUCK_DEPTH + feetY;
+      marker.position.set(headX, headY, DODGE_PLAYER_Z);
+
+      if (now >= d.nextSpawnTime) {
+          spawnDodgeObstacle();
+          d.nextSpawnTime = now + Math.max(DODGE_MIN_GAP_MS, DODGE_START_GAP_MS - (d.level - 1) * 200);
+      }
+
+      for (let i = group.children.length - 1; i >= 0; i--) {
+          const obstacle = group.children[i] as THREE.Mesh;
+          const wasAhead = obstacle.position.z < DODGE_PLAYER_Z;
+          obstacle.position.z += obstacle.userData.speed;
+          if (wasAhead && obstacle.position.z >= DODGE_PLAYER_Z) {
+              const box = DODGE_OBSTACLES[obstacle.userData.kind as DodgeKind];
+              const isHit = headX + DODGE_HEAD_RADIUS > box.minX && headX - DODGE_HEAD_RADIUS < box.maxX && headY + DODGE_HEAD_RADIUS > box.minY && feetY < box.maxY;
+              if (isHit) {
+                  removeObstacle(obstacle);
+                  d.lives -= 1;
+                  playImpactSound('WALL');
+                  if (sceneRef.current) {
+                      sceneRef.current.background = new THREE.Color(0x7f1d1d);
+                      setTimeout(() => { if (sceneRef.current) sceneRef.current.background = new THREE.Color('#0f172a'); }, 120);
+                  }
+                  if (d.lives <= 0) {
+                      d.isGameOver = true;
+                      clearObstacles();
+                      playResetSound();
+                      reportDodgeState();
+                      return; // The loop's remaining obstacles are gone
+                  }
+              } else {
+                  d.dodged += 1;
+                  onScore?.(10 * d.level);
+                  const level = 1 + Math.floor(d.dodged / DODGE_LEVEL_EVERY);
+                  playImpactSound(level > d.level ? 'TARGET' : 'SOFT');
+                  d.level = level;
+              }
+              reportDodgeState();
+              continue;
+          }
+          if (obstacle.position.z > DODGE_PLAYER_Z + 6) removeObstacle(obstacle);
+      }
+  };
+
+  // Brush textures are generated on first use and shared by every splat of that brush
+  const getBrushTextures = (type: BrushType): BrushTextures | null => {
+    const cache = brushTexturesRef.current;
+    if (!cache[type]) cache[type] = BRUSHES[type].createTextures() || undefined;
+    return cache[type] || null;
+  };
+
+  const spawnBrushSplat = (splat: BrushSplat, material: THREE.Material) => {
+    if (!brushScene.current || !sharedBrushGeoRef.current) return;
+    const mesh = new THREE.Mesh(sharedBrushGeoRef.current, material);
+    mesh.position.set(splat.x, splat.y, PAINT_CANVAS_Z);
+    mesh.rotation.z = splat.rotation;
+    mesh.scale.set(splat.size, splat.size, 1);
+    brushScene.current.add(mesh);
+  };
+
+  // World-space rectangle of the painting plane, as seen by the fixed painter camera
+  const getPaintFrame = (camera: THREE.PerspectiveCamera): PaintFrame => {
+    const dist = camera.position.z - PAINT_CANVAS_Z;
+    const height = 2.0 * Math.tan((camera.fov * Math.PI / 180) / 2) * dist;
+    return { width: height * camera.aspect, height, centerY: camera.position.y };
+  };
+
+  // Renders the queued splats into a layer target, then frees them (the lights stay)
+  const flushBrushSplats = (target: THREE.WebGLRenderTarget) => {
+    const renderer = rendererRef.current; const camera = cameraRef.current; const scene = brushScene.current;
+    if (!renderer || !camera || !scene) return;
+    renderer.setRenderTarget(target);
+    renderer.autoClear = false;
+    renderer.render(scene, camera);
+    renderer.setRenderTarget(null);
+    scene.children.filter(child => child instanceof THREE.Mesh).forEach(mesh => scene.remove(mesh));
+  };
+
+  // All splats of a batch share one material (same stroke = same brush and color)
+  const drawSplats = (splats: BrushSplat[], stroke: PaintStroke, target: THREE.WebGLRenderTarget) => {
+    const brush = BRUSHES[stroke.brush] ? stroke.brush : 'IMPASTO';
+    const textures = getBrushTextures(brush);
+    if (!textures || splats.length === 0) return;
+    const material = BRUSHES[brush].createMaterial(stroke.color, textures);
+    for (let i = 0; i < splats.length; i += PAINT_REBUILD_BATCH) {
+        splats.slice(i, i + PAINT_REBUILD_BATCH).forEach(s => spawnBrushSplat(s, material));
+        flushBrushSplats(target);
     }
-    const imgData = ctx.getImageData(0, 0, size, size);
-    const data = imgData.data;
-    const normalData = new Uint8Array(size * size * 4);
-    for (let y = 0; y < size; y++) {
-        for (let x = 0; x < size; x++) {
-            const i = (y * size + x) * 4;
-            const h = data[i] / 255.0; 
-            const x1 = Math.min(x + 1, size - 1);
-            const y1 = Math.min(y + 1, size - 1);
-            const iX = (y * size + x1) * 4;
-            const iY = (y1 * size + x) * 4;
-            const hX = data[iX] / 255.0;
-            const hY = data[iY] / 255.0;
-            const scale = 15.0; 
-            const dx = (h - hX) * scale;
-            const dy = (h - hY) * scale;
-            const dz = 1.0;
-            const len = Math.sqrt(dx*dx + dy*dy + dz*dz);
-            normalData[i]   = ((dx/len) * 0.5 + 0.5) * 255;
-            normalData[i+1] = ((dy/len) * 0.5 + 0.5) * 255;
-            normalData[i+2] = ((dz/len) * 0.5 + 0.5) * 255;
-            normalData[i+3] = 255;
-        }
+    material.dispose();
+  };
+
+  const clearPaintTarget = (target: THREE.WebGLRenderTarget) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    renderer.setRenderTarget(target);
+    renderer.clear();
+    renderer.setRenderTarget(null);
+  };
+
+  // Replays every recorded stroke of a layer from scratch (undo, resize)
+  const rebuildPaintLayer = (layer: number) => {
+    const target = paintLayersRT.current[layer]; const camera = cameraRef.current;
+    if (!target || !camera) return;
+    clearPaintTarget(target);
+    const frame = getPaintFrame(camera);
+    historyRef.current.strokes.filter(s => s.layer === layer).forEach(s => drawSplats(rasterizeStroke(s, frame), s, target));
+  };
+
+  const startTimelapse = (durationMs: number) => {
+    const steps = buildTimelapse(historyRef.current.strokes, durationMs);
+    if (steps.length === 0) { onTimelapseEnd?.(); return; }
+    paintLayersRT.current.forEach(clearPaintTarget);
+    liveStrokesRef.current.clear();
+    timelapseRef.current = { steps, next: 0, startTime: performance.now(), rasterizers: new Map() };
+  };
+
+  const updateTimelapse = (now: number, frame: PaintFrame) => {
+    const replay = timelapseRef.current;
+    if (!replay) return;
+    const elapsed = now - replay.startTime;
+    while (replay.next < replay.steps.length && replay.steps[replay.next].at <= elapsed) {
+        const { stroke, point } = replay.steps[replay.next++];
+        const target = paintLayersRT.current[stroke.layer];
+        if (!target) continue;
+        let rasterize = replay.rasterizers.get(stroke.id);
+        if (!rasterize) { rasterize = createStrokeRasterizer(stroke); replay.rasterizers.set(stroke.id, rasterize); }
+        drawSplats(rasterize(point, frame), stroke, target);
     }
-    const normalTex = new THREE.DataTexture(normalData, size, size, THREE.RGBAFormat);
-    normalTex.needsUpdate = true;
-    const colorData = imgData.data;
-    for (let i = 0; i < colorData.length; i+=4) {
-        const val = colorData[i]; 
-        colorData[i] = 255; colorData[i+1] = 255; colorData[i+2] = 255; colorData[i+3] = val; 
+    if (replay.next >= replay.steps.length) {
+        timelapseRef.current = null;
+        onTimelapseEnd?.();
     }
-    ctx.putImageData(imgData, 0, 0);
-    const colorTex = new THREE.CanvasTexture(canvas);
-    return { colorTex, normalTex };
-  };
-
-  const spawnBrushSplat = (x: number, y: number, z: number, color: string, size: number, rotation: number) => {
-    if (!brushScene.current || !sharedBrushGeoRef.current || !brushColorMapRef.current || !brushNormalMapRef.current) return;
-    const mat = new THREE.MeshStandardMaterial({ 
-        color: color, 
-        map: brushColorMapRef.current,
-        normalMap: brushNormalMapRef.current,
-        normalScale: new THREE.Vector2(2, 2), 
-        roughness: 0.3, 
-        metalness: 0.1,
-        transparent: true,
-        opacity: 1.0, 
-        depthTest: false,
-        depthWrite: false,
-        side: THREE.DoubleSide
-    });
-    const mesh = new THREE.Mesh(sharedBrushGeoRef.current, mat);
-    mesh.position.set(x, y, z);
-    mesh.rotation.z = rotation;
-    const scaleVar = 0.9 + Math.random() * 0.2;
-    mesh.scale.set(size * scaleVar, size * scaleVar, 1);
-    brushScene.current.add(mesh);
   };
 
+  // Jumps to the end of a running replay (same strokes, same seeds: a rebuild gives the final picture)
+  const finishTimelapse = () => {
+    if (!timelapseRef.current) return;
+    timelapseRef.current = null;
+    paintLayersRT.current.forEach((_, i) => rebuildPaintLayer(i));
+    onTimelapseEnd?.();
+  };
+
+  const handleUndoRedo = (isUndo: boolean) => {
+    finishTimelapse();
+    liveStrokesRef.current.clear(); // The next touch starts a new stroke
+    const history = historyRef.current;
+    const stroke = isUndo ? undoStroke(history) : redoStroke(history);
+    if (!stroke) return;
+    if (isUndo) {
+        rebuildPaintLayer(stroke.layer);
+        sendNet({ kind: 'unstroke', id: stroke.id });
+    } else {
+        if (paintLayersRT.current[stroke.layer] && cameraRef.current) {
+            drawSplats(rasterizeStroke(stroke, getPaintFrame(cameraRef.current)), stroke, paintLayersRT.current[stroke.layer]);
+        }
+        sendStroke(stroke, 0);
+    }
+    onPaintHistoryChange?.();
+  };
+
+  // Only snaps the stroke the shape was recognized from: `from` is its first point
+  const handleShapeSnap = (points: { x: number, y: number }[], from: { x: number, y: number }) => {
+    const history = historyRef.current;
+    const stroke = history.strokes.filter(s => !s.author).pop(); // The other player may have painted since
+    if (!stroke || !cameraRef.current || stroke.points[0]?.x !== from.x || stroke.points[0]?.y !== from.y) return;
+    finishTimelapse();
+    const frame = getPaintFrame(cameraRef.current);
+    stroke.points = snapStrokePoints(stroke.points, points, frame.width / frame.height);
+    rebuildPaintLayer(stroke.layer);
+    sendStroke(stroke, 0);
+    onPaintHistoryChange?.();
+  };
+
+  // --- NETWORKED PLAY ---
+  // Plants and strokes are created by one player and copied to the other. Plants and the Frontón
+  // ball also move: whoever holds them (see utils/sharedObjects.ts) simulates them and streams the result.
+  const toNetVector = (v: THREE.Vector3): NetVector => [v.x, v.y, v.z];
+
+  const sendNet = (message: NetMessage, reliable = true) => netSyncRef.current.session?.send(message, reliable);
+
+  // `from`: first point to send. Long strokes go in chunks to stay under the data channel's message size
+  const sendStroke = (stroke: PaintStroke, from: number) => {
+      const { points, author, ...meta } = stroke;
+      for (let i = from; i === from || i < points.length; i += NET_STROKE_CHUNK) {
+          sendNet({ kind: 'stroke', stroke: meta, from: i, points: points.slice(i, i + NET_STROKE_CHUNK) });
+      }
+  };
+
+  // A peer just connected: send everything this player made, they do the same
+  const sendSharedState = () => {
+      flowersRef.current?.children.forEach(f => { if (!f.userData.isRemote) sendNet({ kind: 'plant', id: f.userData.id, flower: serializeFlower(f) }); });
+      historyRef.current.strokes.forEach(stroke => { if (!stroke.author) sendStroke(stroke, 0); });
+  };
+
+  const findFlower = (id: string) => flowersRef.current?.children.find(f => f.userData.id === id);
+
+  // A plant this player grabbed has landed: hand it back to the shared garden
+  const releaseFlower = (flower: THREE.Object3D) => {
+      const owners = netSyncRef.current.flowers;
+      if (!owners.isMine(flower.userData.id)) return;
+      owners.release(flower.userData.id);
+      sendNet({ kind: 'flower', id: flower.userData.id, claim: null, position: toNetVector(flower.position) });
+  };
+
+  // Frontón: touching the ball makes this player its owner; of two hits at once the later one wins
+  const claimBall = (ball: THREE.Mesh) => {
+      const claim = netSyncRef.current.ball.claim(NET_BALL_ID);
+      if (claim) sendNet({ kind: 'ball', claim, position: toNetVector(ball.position), velocity: toNetVector(ballVelocity.current) });
+  };
+
+  const receiveStroke = ({ stroke: meta, from, points }: Extract<NetMessage, { kind: 'stroke' }>, author: string) => {
+      const camera = cameraRef.current;
+      if (levelId !== DifficultyLevel.PAINTER || !camera) return;
+      finishTimelapse(); // The other player's paint would not be in a replay that already started
+      const history = historyRef.current;
+      const frame = getPaintFrame(camera);
+      let stroke = history.strokes.find(s => s.id === meta.id);
+      if (!stroke) {
+          stroke = { ...meta, author, points: [] };
+          history.strokes.push(stroke);
+          onPaintHistoryChange?.();
+      }
+      if (from < stroke.points.length) {
+          // Redo, shape snap or a reconnect: redraw the layer, then catch a rasterizer up without drawing
+          stroke.points = [...stroke.points.slice(0, from), ...points];
+          rebuildPaintLayer(stroke.layer);
+          const catchUp = createStrokeRasterizer(stroke);
+          stroke.points.forEach(point => catchUp(point, frame));
+          remoteRasterizersRef.current.set(stroke.id, catchUp);
+          return;
+      }
+      let rasterize = remoteRasterizersRef.current.get(stroke.id);
+      if (!rasterize) { rasterize = createStrokeRasterizer(stroke); remoteRasterizersRef.current.set(stroke.id, rasterize); }
+      const target = paintLayersRT.current[stroke.layer];
+      points.forEach(point => {
+          stroke!.points.push(point);
+          if (target) drawSplats(rasterize!(point, frame), stroke!, target);
+      });
+  };
+
+  const receiveNet = (message: NetMessage, from: string) => {
+      const sync = netSyncRef.current;
+      switch (message.kind) {
+          case 'pointer':
+              remotePointerRef.current = { ...message, time: performance.now() };
+              break;
+          case 'plant':
+              if (levelId !== DifficultyLevel.GARDEN || findFlower(message.id)) break;
+              spawnPlant(message.flower.position[0], message.flower.position[2], message.flower.species, message.flower, message.id);
+              break;
+          case 'flower': {
+              const flower = findFlower(message.id);
+              if (!flower) break;
+              const wasMine = sync.flowers.isMine(message.id);
+              sync.flowers.receive(message.id, message.claim, from);
+              if (wasMine && sync.flowers.isMine(message.id)) break; // Both grabbed it: ours came first
+              // Grabbed or landed by the other player (or we lost a grab at the same time)
+              if (heldFlowerRef.current === flower) heldFlowerRef.current = null;
+              flower.position.fromArray(message.position);
+              flower.userData.isHeld = !!message.claim;
+              flower.userData.velocity = undefined;
+              flower.userData.rotVelocity = undefined;
+              if (!message.claim) { flower.rotation.x = 0; flower.rotation.z = 0; }
+              break;
+          }
+          case 'flowerMove': {
+              const flower = findFlower(message.id);
+              const claim = sync.flowers.owner(message.id);
+              // Late moves from before the landing are dropped
+              if (!flower || claim?.owner !== from || claim.clock !== message.clock) break;
+              flower.position.fromArray(message.position);
+              flower.userData.isHeld = message.isHeld;
+              break;
+          }
+          case 'ball': {
+              const ball = ballRef.current;
+              if (!ball || !sync.ball.receive(NET_BALL_ID, message.claim, from)) break;
+              isBallHeldRef.current = false; // Hit by the other player after our own touch
+              ball.position.fromArray(message.position);
+              ballVelocity.current.fromArray(message.velocity);
+              break;
+          }
+          case 'stroke':
+              receiveStroke(message, from);
+              break;
+          case 'unstroke': {
+              const history = historyRef.current;
+              const index = history.strokes.findIndex(stroke => stroke.id === message.id && stroke.author === from);
+              if (index < 0) break;
+              const [stroke] = history.strokes.splice(index, 1);
+              remoteRasterizersRef.current.delete(stroke.id);
+              finishTimelapse();
+              rebuildPaintLayer(stroke.layer);
+              onPaintHistoryChange?.();
+              break;
+          }
+      }
+  };
+
+  // Once per frame: picks up a new session or peer, applies what arrived and streams what this player owns
+  const syncNet = (now: number) => {
+      const sync = netSyncRef.current;
+      const session = netRef?.current || null;
+      if (session !== sync.session) {
+          sync.session = session;
+          sync.remotePeer = null;
+          sync.flowers = createOwnershipTable(session?.peerId || '', 'LOCK');
+          sync.ball = createOwnershipTable(session?.peerId || '', 'HANDOFF');
+          remotePointerRef.current = null;
+      }
+      if (!session) return;
+      if (session.remotePeer !== sync.remotePeer) {
+          // A peer that left drops whatever it held where it was
+          flowersRef.current?.children.forEach(f => { if (sync.flowers.isRemote(f.userData.id)) f.userData.isHeld = false; });
+          sync.flowers.clear(); sync.ball.clear();
+          sync.remotePeer = session.remotePeer;
+          if (sync.remotePeer) sendSharedState();
+      }
+      session.inbox.splice(0).forEach(({ message, from }) => receiveNet(message, from));
+
+      if (!sync.remotePeer || now - sync.lastSent < NET_STATE_INTERVAL_MS) return;
+      sync.lastSent = now;
+      const hand = interactionRef?.current;
+      if (hand && cursorMeshRef.current) {
+          sendNet({
+              kind: 'pointer', x: hand.x, y: hand.y, position: toNetVector(cursorMeshRef.current.position),
+              hovering: hand.isHovering, grabbing: hand.isGrabbing, color: hand.activeColor
+          }, false);
+      }
+      flowersRef.current?.children.forEach(f => {
+          const claim = sync.flowers.owner(f.userData.id);
+          if (claim?.owner === session.peerId) {
+              sendNet({ kind: 'flowerMove', id: f.userData.id, clock: claim.clock, position: toNetVector(f.position), isHeld: !!f.userData.isHeld }, false);
+          }
+      });
+      const ballClaim = sync.ball.owner(NET_BALL_ID);
+      if (ballRef.current && ballClaim?.owner === session.peerId) {
+          sendNet({ kind: 'ball', claim: ballClaim, position: toNetVector(ballRef.current.position), velocity: toNetVector(ballVelocity.current) }, false);
+      }
+  };
+
+  // The other player's cursor: their 3D cursor in the shared world, or their brush position on the canvas
+  const updateRemoteCursor = (camera: THREE.PerspectiveCamera) => {
+      const cursor = remoteCursorRef.current; const pointer = remotePointerRef.current;
+      if (!cursor) return;
+      cursor.visible = !!pointer && pointer.hovering && !!netSyncRef.current.remotePeer && performance.now() - pointer.time < NET_POINTER_TIMEOUT_MS;
+      if (!cursor.visible || !pointer) return;
+      cursor.scale.setScalar(pointer.grabbing ? 1.8 : 1.2);
+      if (levelId === DifficultyLevel.PAINTER) {
+          const frame = getPaintFrame(camera);
+          cursor.position.set((pointer.x - 0.5) * frame.width, -(pointer.y - 0.5) * frame.height + frame.centerY, PAINT_CANVAS_Z);
+          (cursor.material as THREE.MeshBasicMaterial).color.set(pointer.color || '#ffffff');
+      } else {
+          cursor.position.fromArray(pointer.position);
+      }
+  };
+
+  useEffect(() => {
+    isActiveRef.current = isActive;
+    if (isActive && levelId === DifficultyLevel.ARCADE) resetArcade();
+    if (isActive && levelId === DifficultyLevel.DODGE) resetDodge();
+  }, [isActive]);
+
   useEffect(() => {
     if (activeEvent === 'RESET') {
-        if (paintRT.current && rendererRef.current) {
-            const oldTarget = rendererRef.current.getRenderTarget();
-            rendererRef.current.setRenderTarget(paintRT.current);
-            rendererRef.current.clear();
-            rendererRef.current.setRenderTarget(oldTarget);
+        if (levelId === DifficultyLevel.PAINTER) {
+            if (timelapseRef.current) { timelapseRef.current = null; onTimelapseEnd?.(); }
+            paintLayersRT.current.forEach(clearPaintTarget);
+            liveStrokesRef.current.clear();
+            remoteRasterizersRef.current.clear();
+            clearPaintHistory(historyRef.current);
+            onPaintHistoryChange?.();
         }
         if (flowersRef.current) flowersRef.current.clear();
+        netSyncRef.current.flowers.clear();
+        guitarSynthRef.current?.muteAll();
+        setEnvironment('DAY');
+        environmentRef.current.windUntil = 0;
         playResetSound();
         cameraAngle.current = 0;
         cameraHeight.current = 5;
@@ -404,7 +1406,10 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
             sceneRef.current.background = new THREE.Color(0xffffff);
             setTimeout(() => { if (sceneRef.current) sceneRef.current.background = new THREE.Color('#0f172a'); }, 100);
         }
+        if (levelId === DifficultyLevel.ARCADE) resetArcade();
+        if (levelId === DifficultyLevel.DODGE) resetDodge();
         if (levelId === DifficultyLevel.WALLBALL && ballRef.current && targetsRef.current) {
+            resetRally();
             ballRef.current.position.set(0, 2, 0);
             ballVelocity.current.set(0, 0, 0);
             isBallHeldRef.current = false;
@@ -426,14 +1431,23 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
                  if (vec.y < -0.001) {
                     const t = -cameraRef.current.position.y / vec.y;
                     pos.copy(cameraRef.current.position).add(vec.multiplyScalar(t));
-                    spawnFlower(pos.x, pos.z); playPlantSound();
+                    spawnPlant(pos.x, pos.z); playPlantSound();
                  } else {
                     pos.copy(cameraRef.current.position).add(vec.multiplyScalar(5));
                     pos.y = Math.max(0, pos.y); 
-                    spawnFlower(pos.x, pos.z); playPlantSound();
+                    spawnPlant(pos.x, pos.z); playPlantSound();
                  }
             }
         }
+    } else if ((activeEvent === 'UNDO' || activeEvent === 'REDO') && levelId === DifficultyLevel.PAINTER) {
+        handleUndoRedo(activeEvent === 'UNDO');
+    } else if (activeEvent === 'SHAPE_SNAP' && levelId === DifficultyLevel.PAINTER && eventPayload) {
+        handleShapeSnap(eventPayload.points, eventPayload.from);
+    } else if (activeEvent === 'TIMELAPSE' && levelId === DifficultyLevel.PAINTER) {
+        finishTimelapse();
+        startTimelapse(eventPayload?.durationMs || 10000);
+    } else if (activeEvent === 'LOAD_GARDEN' && levelId === DifficultyLevel.GARDEN && eventPayload) {
+        restoreGarden(eventPayload as GardenDocument);
     } else if (activeEvent === 'GESTURE_LIFT') {
         cameraHeight.current = Math.min(cameraHeight.current + 3, 15);
     } else if (activeEvent === 'GESTURE_GROUND') {
@@ -441,6 +1455,24 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
     } else if (activeEvent === 'GESTURE_SWIPE') {
         const direction = eventPayload?.direction;
         if (direction === 'RIGHT') { cameraAngle.current -= Math.PI / 4; } else { cameraAngle.current += Math.PI / 4; }
+    } else if (levelId === DifficultyLevel.GARDEN && (activeEvent === 'SUN' || activeEvent === 'NIGHT')) {
+        setEnvironment(activeEvent);
+    } else if (levelId === DifficultyLevel.GARDEN && activeEvent === 'WIND') {
+        triggerWind();
+    } else if (levelId === DifficultyLevel.GARDEN && activeEvent === 'BLOOM') {
+        triggerMassBloom();
+    } else if (activeEvent === 'GESTURE_SHOOT' && levelId === DifficultyLevel.ARCADE) {
+        fireLaser();
+    } else if (levelId === DifficultyLevel.GUITAR) {
+        if (activeEvent === 'GESTURE_PLAY_NOTE' && eventPayload) {
+            getGuitarSynth().pluck(eventPayload.string, eventPayload.fret, getPluckVelocity());
+        } else if (activeEvent === 'GESTURE_STRUM') {
+            // In chord mode the payload carries the whole voicing; otherwise strum the held frets
+            getGuitarSynth().strum(eventPayload?.direction || 'DOWN', getPluckVelocity(), eventPayload?.frets);
+        } else if (activeEvent === 'GESTURE_RELEASE' && eventPayload?.string) {
+            // Pinch released: damp the string like lifting the fretting finger
+            getGuitarSynth().mute(eventPayload.string);
+        }
     }
   }, [activeEvent, eventPayload]);
 
@@ -467,29 +1499,20 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
     mountRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
     sharedBrushGeoRef.current = new THREE.PlaneGeometry(1, 1);
-    if (!brushColorMapRef.current) {
-        const textures = createImpastoBrush();
-        if (textures) { brushColorMapRef.current = textures.colorTex; brushNormalMapRef.current = textures.normalTex; }
-    }
 
     if (levelId === DifficultyLevel.PAINTER) {
-        paintRT.current = new THREE.WebGLRenderTarget(window.innerWidth, window.innerHeight, {
-            minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, format: THREE.RGBAFormat, type: THREE.HalfFloatType, depthBuffer: false, stencilBuffer: false,
-        });
+        paintLayersRT.current = Array.from({ length: PAINT_LAYER_COUNT }, createPaintTarget);
         brushScene.current = new THREE.Scene();
         const brushAmbient = new THREE.AmbientLight(0xffffff, 0.6);
         brushScene.current.add(brushAmbient);
         const brushDirLight = new THREE.DirectionalLight(0xffffff, 1.5);
         brushDirLight.position.set(-1, 2, 5); 
         brushScene.current.add(brushDirLight);
-        const canvasZ = -5;
-        const dist = camera.position.z - canvasZ; 
-        const height = 2 * Math.tan(THREE.MathUtils.degToRad(camera.fov)/2) * dist;
-        const width = height * camera.aspect;
-        const planeGeo = new THREE.PlaneGeometry(width, height);
-        const planeMat = new THREE.MeshBasicMaterial({ map: paintRT.current.texture, transparent: true, opacity: 1, side: THREE.DoubleSide });
+        const frame = getPaintFrame(camera);
+        const planeGeo = new THREE.PlaneGeometry(frame.width, frame.height);
+        const planeMat = createLayerCompositeMaterial(paintLayersRT.current.map(rt => rt.texture));
         paintQuad.current = new THREE.Mesh(planeGeo, planeMat);
-        paintQuad.current.position.set(0, camera.position.y, canvasZ);
+        paintQuad.current.position.set(0, camera.position.y, PAINT_CANVAS_Z);
         camera.lookAt(0, 5, 0); 
         scene.add(paintQuad.current);
     } else {
@@ -498,12 +1521,20 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
 
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
     scene.add(ambientLight);
+    ambientLightRef.current = ambientLight;
     const dirLight = new THREE.DirectionalLight(0xffffff, 1.2);
     dirLight.position.set(5, 10, 5);
     dirLight.castShadow = true;
     dirLight.shadow.mapSize.width = 1024;
     dirLight.shadow.mapSize.height = 1024;
     scene.add(dirLight);
+    sunLightRef.current = dirLight;
+
+    if (levelId === DifficultyLevel.GARDEN) {
+        environmentRef.current = { preset: 'DAY', night: 0, wind: 0, windUntil: 0 };
+        firefliesRef.current = createFireflies();
+        scene.add(firefliesRef.current);
+    }
 
     const flowersGroup = new THREE.Group();
     flowersRef.current = flowersGroup;
@@ -578,11 +1609,69 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
         ball.add(glow);
     }
     
+    if (levelId === DifficultyLevel.ARCADE) {
+        camera.position.set(0, 3, 10);
+        camera.lookAt(0, 2, -10);
+        const arenaGrid = new THREE.GridHelper(100, 50, 0xec4899, 0x1e293b);
+        arenaGrid.position.y = 0.02;
+        scene.add(arenaGrid);
+        const enemies = new THREE.Group();
+        enemiesRef.current = enemies;
+        scene.add(enemies);
+        resetArcade();
+    }
+
+    if (levelId === DifficultyLevel.DODGE) {
+        camera.position.set(0, 2.2, 10);
+        camera.lookAt(0, 1.5, -20);
+        const laneGrid = new THREE.GridHelper(100, 50, 0x84cc16, 0x1e293b);
+        laneGrid.position.y = 0.02;
+        scene.add(laneGrid);
+        // Side rails mark the lane the obstacles come down
+        [-4.2, 4.2].forEach(x => {
+            const rail = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, 60), new THREE.MeshBasicMaterial({ color: 0x84cc16 }));
+            rail.position.set(x, 0.05, -15);
+            scene.add(rail);
+        });
+        const obstacles = new THREE.Group();
+        dodgeObstaclesRef.current = obstacles;
+        scene.add(obstacles);
+        // Where the player's head is on the obstacles' plane
+        const marker = new THREE.Mesh(
+            new THREE.SphereGeometry(DODGE_HEAD_RADIUS, 24, 24),
+            new THREE.MeshStandardMaterial({ color: 0xa3e635, emissive: 0xa3e635, emissiveIntensity: 0.8, transparent: true, opacity: 0.7 })
+        );
+        marker.visible = false;
+        scene.add(marker);
+        dodgeMarkerRef.current = marker;
+        resetDodge();
+    }
+
     const cursorGeo = new THREE.SphereGeometry(0.15, 16, 16);
     const cursorMat = new THREE.MeshBasicMaterial({ color: 0x4ade80, transparent: true, opacity: 0.8 });
     const cursor = new THREE.Mesh(cursorGeo, cursorMat);
     scene.add(cursor);
     cursorMeshRef.current = cursor;
+
+    playerCursorsRef.current = [];
+    if (levelId === DifficultyLevel.WALLBALL || levelId === DifficultyLevel.ARCADE) {
+        playerCursorsRef.current = PLAYER_COLORS.map(color => {
+            const playerCursor = new THREE.Mesh(cursorGeo, new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.9 }));
+            playerCursor.scale.setScalar(1.5);
+            playerCursor.visible = false;
+            scene.add(playerCursor);
+            return playerCursor;
+        });
+    }
+
+    remoteCursorRef.current = null;
+    if (levelId && NET_LEVELS.includes(levelId)) {
+        const remoteCursor = new THREE.Mesh(cursorGeo, new THREE.MeshBasicMaterial({ color: PLAYER_COLORS[1], transparent: true, opacity: 0.8, depthTest: levelId !== DifficultyLevel.PAINTER }));
+        remoteCursor.renderOrder = 999999;
+        remoteCursor.visible = false;
+        scene.add(remoteCursor);
+        remoteCursorRef.current = remoteCursor;
+    }
     
     const animate = () => {
       animationIdRef.current = requestAnimationFrame(animate);
@@ -598,62 +1687,56 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
           cameraRef.current.lookAt(0, 0, 0);
       }
 
-      if (interactionRef?.current) {
+      const splitPlayers = playerRefsRef.current;
+      if (!splitPlayers) playerCursorsRef.current.forEach(playerCursor => { playerCursor.visible = false; });
+
+      if (splitPlayers && playerCursorsRef.current.length > 0) {
+          cursor.visible = false;
+          updateSplitPlayers(camera, splitPlayers);
+      } else if (interactionRef?.current) {
           const { x, y, isGrabbing, isPointing, isPainting, cursors, velocityX, velocityY, velocityZ } = interactionRef.current;
           
           if (levelId === DifficultyLevel.PAINTER) {
-             const aspect = window.innerWidth / window.innerHeight;
-             const canvasZ = -5; 
-             const dist = camera.position.z - canvasZ; 
-             const frustumHeight = 2.0 * Math.tan((camera.fov * Math.PI / 180) / 2) * dist;
-             const frustumWidth = frustumHeight * aspect;
-             const worldX = (x - 0.5) * frustumWidth; 
-             const worldY = -(y - 0.5) * frustumHeight + camera.position.y;
-             const worldZ = canvasZ;
-             cursor.position.set(worldX, worldY, worldZ);
+             const frame = getPaintFrame(camera);
+             const worldX = (x - 0.5) * frame.width; 
+             const worldY = -(y - 0.5) * frame.height + frame.centerY;
+             cursor.position.set(worldX, worldY, PAINT_CANVAS_Z);
              cursor.visible = true; 
              cursor.material.color.set(interactionRef.current.activeColor || '#ffffff');
              cursor.renderOrder = 999999;
              cursor.material.depthTest = false;
-             
-             if (cursors.length > 0 && paintRT.current && brushScene.current) {
-                 cursors.forEach(c => {
-                     const strokeX = (c.x - 0.5) * frustumWidth;
-                     const strokeY = -(c.y - 0.5) * frustumHeight + camera.position.y;
-                     if (lastPaintPos.current && c.color !== '#000000') {
-                        const distMove = Math.hypot(strokeX - lastPaintPos.current.x, strokeY - lastPaintPos.current.y);
-                        let angle = Math.atan2(strokeY - lastPaintPos.current.y, strokeX - lastPaintPos.current.x);
-                        angle += (Math.random() - 0.5) * 0.2;
-                        const STEP = 0.003; 
-                        if (distMove > STEP) {
-                            const steps = Math.min(200, Math.floor(distMove / STEP));
-                            for (let i = 1; i <= steps; i++) {
-                                const t = i / steps;
-                                const lx = lastPaintPos.current.x + (strokeX - lastPaintPos.current.x) * t;
-                                const ly = lastPaintPos.current.y + (strokeY - lastPaintPos.current.y) * t;
-                                spawnBrushSplat(lx, ly, canvasZ, c.color, c.size, angle);
-                            }
-                        }
-                        spawnBrushSplat(strokeX, strokeY, canvasZ, c.color, c.size, angle);
-                        lastPaintPos.current = { x: strokeX, y: strokeY };
-                     } else {
-                         if (c.color !== '#000000') {
-                            spawnBrushSplat(strokeX, strokeY, canvasZ, c.color, c.size, Math.random() * Math.PI * 2);
-                            lastPaintPos.current = { x: strokeX, y: strokeY };
-                         }
-                     }
-                 });
-                 renderer.setRenderTarget(paintRT.current);
-                 renderer.autoClear = false; 
-                 renderer.render(brushScene.current, camera); 
-                 renderer.setRenderTarget(null); 
-                 brushScene.current.clear();
-                 if (brushScene.current.children.length === 0) {
-                     const ambient = new THREE.AmbientLight(0xffffff, 0.6); brushScene.current.add(ambient);
-                     const dir = new THREE.DirectionalLight(0xffffff, 1.5); dir.position.set(-1, 2, 5); brushScene.current.add(dir);
+
+             // Record each painting cursor as a stroke and rasterize only its newest point
+             const history = historyRef.current;
+             const liveStrokes = liveStrokesRef.current;
+             const seen = new Set<string>();
+             let historyChanged = false;
+             updateTimelapse(performance.now(), frame);
+             (timelapseRef.current ? [] : cursors).forEach(c => {
+                 // Both hands report an 'index' cursor: keep their strokes apart
+                 let key = c.id; let n = 1;
+                 while (seen.has(key)) key = `${c.id}#${n++}`;
+                 seen.add(key);
+                 let live = liveStrokes.get(key);
+                 if (!live) {
+                     const stroke = beginStroke(history, c.color, c.brush, interactionRef.current!.symmetry);
+                     live = { stroke, rasterize: createStrokeRasterizer(stroke) };
+                     liveStrokes.set(key, live);
+                     historyChanged = true;
                  }
-             } else {
-                 lastPaintPos.current = null;
+                 const target = paintLayersRT.current[live.stroke.layer];
+                 if (!target) return;
+                 const point = { x: c.x, y: c.y, size: c.size / frame.height, pressure: c.pressure, t: Date.now() - history.startedAt };
+                 live.stroke.points.push(point);
+                 drawSplats(live.rasterize(point, frame), live.stroke, target);
+                 sendStroke(live.stroke, live.stroke.points.length - 1);
+             });
+             liveStrokes.forEach((_, key) => { if (!seen.has(key)) liveStrokes.delete(key); });
+             if (historyChanged) onPaintHistoryChange?.();
+
+             if (paintQuad.current) {
+                 const uniforms = (paintQuad.current.material as THREE.ShaderMaterial).uniforms;
+                 history.layers.forEach((layer, i) => { if (uniforms[`opacity${i}`]) uniforms[`opacity${i}`].value = layer.visible ? layer.opacity : 0; });
              }
 
           } else {
@@ -666,6 +1749,12 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
                  const GRAB_PLANE_Z = 0; // Grab plane at user
                  const distZ = (GRAB_PLANE_Z - camera.position.z) / vec.z;
                  pos.copy(camera.position).add(vec.multiplyScalar(distZ));
+             } else if (levelId === DifficultyLevel.ARCADE) {
+                 // Crosshair floats along the aim ray
+                 pos.copy(camera.position).add(vec.multiplyScalar(15));
+                 cursor.material.color.set(isPointing ? 0xff3366 : 0x4ade80);
+                 // Holding the finger gun keeps firing
+                 if (isPointing) fireLaser();
              } else {
                  if (Math.abs(vec.y) > 0.001) {
                     const distY = (0 - camera.position.y) / vec.y; 
@@ -674,7 +1763,7 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
              }
              
              cursor.position.copy(pos);
-             cursor.visible = interactionRef.current.isHovering;
+             cursor.visible = interactionRef.current.isHovering && levelId !== DifficultyLevel.DODGE; // Dodge is played with the body
              cursor.material.depthTest = true;
 
              if (levelId === DifficultyLevel.GARDEN) {
@@ -718,15 +1807,17 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
                  }
                  if (isGrabbing && !heldFlowerRef.current && flowersRef.current) {
                      let nearest = null; let minDesc = 1.5;
+                     const owners = netSyncRef.current.flowers;
                      flowersRef.current.children.forEach(f => {
                          const d = f.position.distanceTo(cursor.position);
-                         if (d < minDesc) { minDesc = d; nearest = f; }
+                         if (d < minDesc && !owners.isRemote(f.userData.id)) { minDesc = d; nearest = f; }
                      });
-                     if (nearest) {
+                     const claim = nearest && owners.claim(nearest.userData.id);
+                     if (nearest && claim) {
                          heldFlowerRef.current = nearest;
                          nearest.userData.isHeld = true;
                          nearest.userData.velocity = new THREE.Vector3(0,0,0);
-                         nearest.scale.set(1.2, 1.2, 1.2); 
+                         sendNet({ kind: 'flower', id: nearest.userData.id, claim, position: toNetVector(nearest.position) });
                      }
                  }
                  if (heldFlowerRef.current) {
@@ -754,17 +1845,17 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
                                  f.position.y = 0;
                                  const impactSpeed = f.userData.velocity.length();
                                  if (impactSpeed > 0.3) { 
-                                     spawnImpactBloom(f.position); 
+                                     spawnImpactBloom(f.position, f.userData.species); 
                                      f.userData.velocity.multiplyScalar(0.5); // Dampen bounce
                                      f.userData.velocity.y *= -0.5;
                                      if (f.userData.rotVelocity) f.userData.rotVelocity.multiplyScalar(0.5); // Dampen spin on impact
                                  } else { 
                                      f.userData.velocity = undefined; 
                                      f.userData.rotVelocity = undefined;
-                                     f.scale.set(1, 1, 1); 
                                      // Align to ground roughly
                                      f.rotation.x = 0; f.rotation.z = 0;
                                      playImpactSound('SOFT'); 
+                                     releaseFlower(f);
                                  }
                              }
                          }
@@ -775,15 +1866,14 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
              if (levelId === DifficultyLevel.WALLBALL && ballRef.current && targetsRef.current) {
                   const ball = ballRef.current;
                   const vel = ballVelocity.current;
-                  const GRAB_RANGE = 2.5;
-                  
                   // STICKY GRAB
                   const distToBall = cursor.position.distanceTo(ball.position);
                   
-                  if (interactionRef.current.isGrabbing && !isBallHeldRef.current && distToBall < GRAB_RANGE) {
+                  if (interactionRef.current.isGrabbing && !isBallHeldRef.current && distToBall < BALL_GRAB_RANGE) {
                       isBallHeldRef.current = true;
                       playImpactSound('SOFT');
                       vel.set(0, 0, 0);
+                      claimBall(ball);
                   }
                   
                   if (isBallHeldRef.current) {
@@ -794,73 +1884,33 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
                       } else {
                           // THROW
                           isBallHeldRef.current = false;
-                          const THROW_FORCE = 30.0; 
-                          // Use averaged velocity from HandScanner for smoothness
-                          vel.set(velocityX * THROW_FORCE, -velocityY * THROW_FORCE, velocityZ * THROW_FORCE);
-                          // Aim assist: If throwing generally forward, make sure it goes forward
-                          if (vel.z > -2.0) vel.z -= 10.0; 
-                          
-                          (ball.material as THREE.MeshStandardMaterial).emissive.setHex(0xfacc15); 
-                          playImpactSound('SOFT');
+                          throwBall(ball, vel, interactionRef.current, 0xfacc15);
+                          claimBall(ball);
                       }
                   } else {
-                      vel.y -= 0.02; // Gravity
-                      vel.multiplyScalar(0.995); // Drag
-                      
-                      // Speed Limit
-                      if (vel.length() > 1.5) vel.setLength(1.5);
-                      
-                      ball.position.add(vel);
-                      
-                      if (ball.position.y < 0.25) { ball.position.y = 0.25; vel.y *= -0.8; }
-                      // Wall Bounce at Z = -11.5 (Wall is -12, Ball radius 0.5)
-                      if (ball.position.z < -11.5) { 
-                          ball.position.z = -11.5; 
-                          vel.z *= -0.8; 
-                          playImpactSound('WALL'); 
-                          spawnDust(ball.position.x, ball.position.z); 
-                      }
-                      if (ball.position.z > 8.0) { 
-                          // Reset if goes too far behind
-                          ball.position.set(0, 5, 0); vel.set(0,0,0); 
+                      hitBallWithBody(ball, vel, camera);
+                      if (netSyncRef.current.ball.isRemote(NET_BALL_ID)) {
+                          // The other player's hit: they bounce it and score it, we only coast it between their updates
+                          ball.position.add(vel);
+                          ball.position.y = Math.max(0.25, ball.position.y);
+                      } else {
+                          stepBall(ball, vel, points => onScore?.(points));
                       }
-                      if (ball.position.x > 9) { ball.position.x = 9; vel.x *= -0.9; }
-                      if (ball.position.x < -9) { ball.position.x = -9; vel.x *= -0.9; }
-                      if (ball.position.y > 15) { ball.position.y = 15; vel.y *= -0.9; }
-                      
-                      targetsRef.current.children.forEach((targetGroup) => {
-                          const tPos = targetGroup.position;
-                          const tRadius = targetGroup.userData.radius || 1.4;
-                          
-                          // Cylinder collision logic (Flat circle check essentially)
-                          const dx = ball.position.x - tPos.x;
-                          const dy = ball.position.y - tPos.y;
-                          const dz = ball.position.z - tPos.z;
-                          const dist = Math.sqrt(dx*dx + dy*dy);
-                          const depthDist = Math.abs(dz);
-
-                          if (dist < tRadius && depthDist < 1.0) {
-                              spawnTargetBurst(tPos.x, tPos.y, tPos.z, new THREE.Color(targetGroup.userData.color).getHex());
-                              playImpactSound('TARGET');
-                              onScore?.(targetGroup.userData.score || 10);
-                              targetsRef.current?.remove(targetGroup);
-                              spawnRandomTarget();
-                          }
-                      });
                   }
              }
           }
       }
       
-      if (flowersRef.current) {
-          flowersRef.current.children.forEach(flower => {
-              if (flower.userData.currentScale < flower.userData.targetScale) {
-                  flower.userData.currentScale += flower.userData.scaleSpeed;
-                  const s = flower.userData.currentScale;
-                  const scale = s > flower.userData.targetScale ? flower.userData.targetScale : s;
-                  if (!flower.userData.isHeld) flower.scale.set(scale, scale, scale);
-              }
-          });
+      if (remoteCursorRef.current) {
+          syncNet(performance.now());
+          updateRemoteCursor(camera);
+      }
+      if (levelId === DifficultyLevel.ARCADE) updateArcade();
+      if (levelId === DifficultyLevel.DODGE) updateDodge();
+      if (levelId === DifficultyLevel.GARDEN) {
+          updateEnvironment(performance.now());
+          updatePlants(performance.now());
+          checkAutosave(performance.now());
       }
 
       if (particlesRef.current) {
@@ -888,13 +1938,18 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
     animate();
     const handleResize = () => {
         camera.aspect = window.innerWidth / window.innerHeight; camera.updateProjectionMatrix(); renderer.setSize(window.innerWidth, window.innerHeight);
-        if (paintRT.current) {
-            paintRT.current.dispose();
-            paintRT.current = new THREE.WebGLRenderTarget(window.innerWidth, window.innerHeight, { minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, format: THREE.RGBAFormat, type: THREE.HalfFloatType, depthBuffer: false, stencilBuffer: false });
+        if (paintLayersRT.current.length > 0) {
+            // Targets are screen-sized: recreate them and replay the strokes at the new resolution
+            paintLayersRT.current.forEach(rt => rt.dispose());
+            paintLayersRT.current = Array.from({ length: PAINT_LAYER_COUNT }, createPaintTarget);
             if (paintQuad.current) {
-                const aspect = window.innerWidth / window.innerHeight; const canvasZ = -5; const dist = camera.position.z - canvasZ; const height = 2 * Math.tan(THREE.MathUtils.degToRad(camera.fov)/2) * dist; const width = height * aspect;
-                paintQuad.current.geometry.dispose(); paintQuad.current.geometry = new THREE.PlaneGeometry(width, height); (paintQuad.current.material as THREE.MeshBasicMaterial).map = paintRT.current.texture; (paintQuad.current.material as THREE.MeshBasicMaterial).needsUpdate = true;
+                const frame = getPaintFrame(camera);
+                paintQuad.current.geometry.dispose(); paintQuad.current.geometry = new THREE.PlaneGeometry(frame.width, frame.height);
+                const uniforms = (paintQuad.current.material as THREE.ShaderMaterial).uniforms;
+                paintLayersRT.current.forEach((rt, i) => { uniforms[`layer${i}`].value = rt.texture; });
             }
+            if (timelapseRef.current) { timelapseRef.current = null; onTimelapseEnd?.(); } // The rebuild already shows the final picture
+            paintLayersRT.current.forEach((_, i) => rebuildPaintLayer(i));
         }
     };
     window.addEventListener('resize', handleResize);
@@ -902,9 +1957,11 @@ export const GardenScene: React.FC<GardenSceneProps> = ({ activeEvent, eventPayl
         window.removeEventListener('resize', handleResize);
         if (animationIdRef.current) cancelAnimationFrame(animationIdRef.current);
         if (mountRef.current && rendererRef.current) { mountRef.current.removeChild(rendererRef.current.domElement); rendererRef.current.dispose(); }
-        if (paintRT.current) paintRT.current.dispose();
-        if (brushColorMapRef.current) brushColorMapRef.current.dispose();
-        if (brushNormalMapRef.current) brushNormalMapRef.current.dispose();
+        paintLayersRT.current.forEach(rt => rt.dispose());
+        paintLayersRT.current = [];
+        if (guitarSynthRef.current) { guitarSynthRef.current.dispose(); guitarSynthRef.current = null; }
+        (Object.values(brushTexturesRef.current) as BrushTextures[]).forEach(t => { t.colorTex.dispose(); t.normalTex?.dispose(); });
+        brushTexturesRef.current = {};
     };
   }, [levelId]); 
 
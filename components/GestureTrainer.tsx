@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { CustomGesture, CustomGestureKind } from '../types';
+import { Landmark } from '../utils/gestures';
+import { MAX_GESTURE_SAMPLES, MIN_GESTURE_SAMPLES, MOTION_DURATION_MS, TimedHand, createMotionSample, normalizeHandPose } from '../utils/customGestures';
+import { createCustomGesture } from '../utils/customGestureStorage';
+import { GESTURE_ACTIONS, getGestureAction } from '../data/gestureActions';
+
+interface GestureTrainerProps {
+  gestures: CustomGesture[];
+  onChange: (gestures: CustomGesture[]) => void;
+  handLandmarksRef: React.MutableRefObject<Landmark[] | null>; // Primary hand, filled by HandScanner every frame
+  onClose: () => void;
+}
+
+const COUNTDOWN_MS = 3000;
+const POSE_CAPTURE_MS = 400; // A pose example is the average of this much of the held hand
+const MIN_CAPTURED_FRAMES = 3;
+
+export const GestureTrainer: React.FC<GestureTrainerProps> = ({ gestures, onChange, handLandmarksRef, onClose }) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CustomGestureKind>('POSE');
+  const [actionIndex, setActionIndex] = useState(0);
+  const [samples, setSamples] = useState<number[][][]>([]);
+  const [phase, setPhase] = useState<'IDLE' | 'COUNTDOWN' | 'RECORDING'>('IDLE');
+  const [countdown, setCountdown] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const finishSample = (frames: TimedHand[]) => {
+    if (frames.length < MIN_CAPTURED_FRAMES) {
+      setMessage('No vi tu mano. Ponla frente a la cámara y prueba otra vez.');
+      return;
+    }
+    if (kind === 'POSE') {
+      const poses = frames.map(f => normalizeHandPose(f.landmarks));
+      setSamples(prev => [...prev, [poses[0].map((_, i) => poses.reduce((sum, p) => sum + p[i], 0) / poses.length)]]);
+    } else {
+      setSamples(prev => [...prev, createMotionSample(frames)]);
+    }
+    setMessage(null);
+  };
+
+  // Countdown, then capture the hand from HandScanner's landmarks for one example
+  useEffect(() => {
+    if (phase === 'IDLE') return;
+    const startedAt = performance.now();
+    const frames: TimedHand[] = [];
+    let raf = 0;
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      if (phase === 'COUNTDOWN') {
+        const left = Math.ceil((COUNTDOWN_MS - elapsed) / 1000);
+        if (left <= 0) { setPhase('RECORDING'); return; }
+        setCountdown(left);
+      } else {
+        const hand = handLandmarksRef.current;
+        if (hand && hand !== frames[frames.length - 1]?.landmarks) frames.push({ t: elapsed, landmarks: hand });
+        if (elapsed >= (kind === 'POSE' ? POSE_CAPTURE_MS : MOTION_DURATION_MS)) { finishSample(frames); setPhase('IDLE'); return; }
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [phase]);
+
+  const changeKind = (next: CustomGestureKind) => {
+    setKind(next);
+    setSamples([]);
+  };
+
+  const handleSave = () => {
+    const action = GESTURE_ACTIONS[actionIndex];
+    onChange([...gestures, createCustomGesture({ name: name.trim(), kind, event: action.event, payload: action.payload, samples })]);
+    setName(''); setSamples([]); setMessage(`¡"${name.trim()}" guardado!`);
+  };
+
+  const isBusy = phase !== 'IDLE';
+  const canSave = name.trim().length > 0 && samples.length >= MIN_GESTURE_SAMPLES && !isBusy;
+
+  return (
+    <div className="bg-black/70 backdrop-blur rounded-lg p-3 text-xs text-white/80 space-y-2 border-l-2 border-violet-400">
+      <div className="flex items-center justify-between">
+        <p className="font-bold text-violet-300 uppercase tracking-wider">Enseñar un gesto</p>
+        <button onClick={onClose} title="Cerrar" className="px-2 rounded hover:bg-white/10">✕</button>
+      </div>
+
+      {gestures.length > 0 && (
+        <div className="space-y-1">
+          {gestures.map(g => (
+            <div key={g.id} className="flex items-center gap-2 px-2 py-1 rounded bg-white/5">
+              <span>{g.kind === 'POSE' ? '✋' : '👋'}</span>
+              <span className="flex-1 truncate" title={g.name}>{g.name}</span>
+              <span className="text-white/40 truncate">{getGestureAction(g)?.label || g.event}</span>
+              <button onClick={() => onChange(gestures.filter(other => other.id !== g.id))} title="Eliminar" className="hover:scale-110">🗑️</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input value={name} onChange={e => setName(e.target.value)} placeholder="Nombre del gesto" maxLength={24}
+        className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 text-white placeholder-white/30 outline-none focus:border-violet-400" />
+      <div className="grid grid-cols-2 gap-1">
+        {([['POSE', '✋ Postura'], ['MOTION', '👋 Movimiento']] as [CustomGestureKind, string][]).map(([value, label]) => (
+          <button key={value} onClick={() => changeKind(value)} disabled={isBusy}
+            className={`px-2 py-1 rounded transition-all ${kind === value ? 'bg-violet-600/70' : 'bg-white/10 hover:bg-white/20'}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+      <select value={actionIndex} onChange={e => setActionIndex(Number(e.target.value))}
+        className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 text-white outline-none">
+        {GESTURE_ACTIONS.map((action, i) => <option key={i} value={i} className="bg-slate-900">{action.label}</option>)}
+      </select>
+
+      <p className="text-white/50">
+        {kind === 'POSE' ? 'Mantén la postura quieta mientras se graba.' : `Haz el movimiento completo en ${MOTION_DURATION_MS / 1000} segundos.`}
+        {' '}Repítelo al menos {MIN_GESTURE_SAMPLES} veces.
+      </p>
+      <div className="flex items-center gap-1">
+        {Array.from({ length: MAX_GESTURE_SAMPLES }, (_, i) => (
+          <span key={i} className={`w-3 h-3 rounded-full ${i < samples.length ? 'bg-violet-400' : 'bg-white/10'}`} />
+        ))}
+      </div>
+      <button onClick={() => { setMessage(null); setPhase('COUNTDOWN'); }} disabled={isBusy || samples.length >= MAX_GESTURE_SAMPLES}
+        className="block w-full px-2 py-2 rounded bg-violet-600/60 hover:bg-violet-500/70 disabled:opacity-50 font-bold">
+        {phase === 'COUNTDOWN' ? `Prepárate... ${countdown}` : phase === 'RECORDING' ? '● Grabando' : `⏺ Grabar ejemplo ${samples.length + 1}`}
+      </button>
+      {message && <p className="text-violet-200">{message}</p>}
+      <div className="flex gap-1">
+        <button onClick={() => setSamples(samples.slice(0, -1))} disabled={isBusy || samples.length === 0}
+          className="flex-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30">↩️ Quitar último</button>
+        <button onClick={handleSave} disabled={!canSave}
+          className="flex-1 px-2 py-1 rounded bg-emerald-600/60 hover:bg-emerald-500/70 disabled:opacity-30">💾 Guardar</button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,20 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { GardenEvent, GardenInteractionState, DifficultyLevel, PainterCursor } from '../types';
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { GardenEvent, GardenInteractionState, DifficultyLevel, CustomGesture, CalibrationProfile, PainterCursor, PainterFinger, ShapeType, ChordShape, SongChart, ChartNote, ChartStats, HitGrade } from '../types';
+import { CHORDS } from '../data/chords';
+import { ChartInput, ChartRun, HitResult, createChartRun, getChartStats, judgeInput, sweepMisses } from '../utils/rhythmGame';
+import { BRUSHES, BRUSH_TYPES } from '../utils/brushes';
+import { hexToHsv, hsvToHex, sampleVideoColor } from '../utils/color';
+import { BUILT_IN_PALETTES } from '../utils/paletteStorage';
+import { RecognizedShape, recognizeShape } from '../utils/shapeRecognizer';
+import { GestureFiring, GestureFrame, Landmark, buildGestureFrame, createGestureEngine } from '../utils/gestures';
+import { GESTURES, applyHeldGestures } from '../data/gestures';
+import { createCustomGestureDefinitions } from '../utils/customGestures';
+import { HAND_CONNECTIONS, loadHandLandmarker } from '../utils/vision';
+import { TraceReplay } from '../utils/handTrace';
+import { HandMotionState, createHandMotionState, releaseHandMotion, updateHandMotion } from '../utils/handMotion';
+import { DEFAULT_THRESHOLDS, HandThresholds, getHandThresholds, remapToReach } from '../utils/calibration';
+import { PLAYER_COLORS, PLAYER_COUNT, assignHandsToPlayers } from '../utils/players';
 
 interface HandScannerProps {
   isActive: boolean;
@@ -8,11 +22,19 @@ interface HandScannerProps {
   onGesture?: (gesture: GardenEvent, data?: any) => void;
   interactionRef?: React.MutableRefObject<GardenInteractionState>;
   levelId: DifficultyLevel;
+  paletteColors?: string[]; // Painter: swatches of the active palette
+  // Guitar rhythm mode
+  songChart?: SongChart | null;
+  onScore?: (points: number) => void;
+  onChartStats?: (stats: ChartStats) => void;
+  customGestures?: CustomGesture[]; // Taught by the user, recognized alongside the built-in gestures
+  handLandmarksRef?: React.MutableRefObject<Landmark[] | null>; // Receives the primary hand every frame (gesture trainer)
+  calibration?: CalibrationProfile | null; // Active player's measurements; null = default thresholds
+  replay?: TraceReplay | null; // Recorded hand trace played instead of the camera
+  onLandmarks?: (now: number, landmarks: Landmark[][]) => void; // Raw results of every frame (trace recorder)
+  playerRefs?: React.MutableRefObject<GardenInteractionState>[] | null; // Split mode: one pointer per player instead of interactionRef
 }
 
-// Global promise to prevent double-loading in StrictMode
-let visionPromise: Promise<any> | null = null;
-
 // Fretboard Configuration
 const FRETBOARD_Y_START = 0.65;
 const FRETBOARD_Y_END = 0.95;
@@ -21,28 +43,70 @@ const FRETBOARD_X_END = 0.95;
 const NUM_STRINGS = 6;
 const NUM_FRETS = 8;
 
+// Chord Selector Configuration (row of buttons above the fretboard, first slot = single notes)
+const CHORD_SELECTOR_Y = 0.55;
+const CHORD_BUTTON_RADIUS = 0.035;
+const CHORD_HOLD_MS = 500; // Second-hand finger count must be stable this long
+
+// Rhythm Mode Configuration
+const CHART_LOOKAHEAD_MS = 2500; // How long a note takes to scroll down to its fret cell
+const CHART_SPAWN_Y = 0.05;
+const STRING_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#38bdf8', '#c084fc'];
+const GRADE_LABELS: Record<HitGrade, { text: string, color: string }> = {
+    PERFECT: { text: "¡PERFECTO!", color: "#facc15" },
+    GOOD: { text: "BIEN", color: "#4ade80" },
+    MISS: { text: "FALLO", color: "#f87171" }
+};
+
+const CHORD_BUTTONS: { chord: ChordShape | null, x: number, y: number }[] = [null, ...CHORDS].map((chord, i, all) => ({
+    chord,
+    x: FRETBOARD_X_END - (i + 0.5) * ((FRETBOARD_X_END - FRETBOARD_X_START) / all.length),
+    y: CHORD_SELECTOR_Y
+}));
+
 // Palette Configuration 
 const PALETTE_RADIUS = 0.05;
 const PALETTE_X = 0.08;
 
-const PALETTE_COLORS = [
-    { color: '#ffffff', x: PALETTE_X, y: 0.15, label: 'save' },
-    { color: '#ef4444', x: PALETTE_X, y: 0.25 },
-    { color: '#f97316', x: PALETTE_X, y: 0.32 },
-    { color: '#eab308', x: PALETTE_X, y: 0.39 },
-    { color: '#84cc16', x: PALETTE_X, y: 0.46 },
-    { color: '#22c55e', x: PALETTE_X, y: 0.53 },
-    { color: '#14b8a6', x: PALETTE_X, y: 0.60 },
-    { color: '#3b82f6', x: PALETTE_X, y: 0.67 },
-    { color: '#8b5cf6', x: PALETTE_X, y: 0.74 },
-    { color: '#d946ef', x: PALETTE_X, y: 0.81 },
-    { color: '#000000', x: PALETTE_X, y: 0.90, label: 'eraser' } 
+type PaletteSwatch = { color: string, x: number, y: number, label?: 'save' };
+
+// Save button on top, then the palette colors spread over the rest of the column
+const buildPaletteLayout = (colors: string[]): PaletteSwatch[] => {
+    const step = colors.length > 1 ? Math.min(0.07, 0.63 / (colors.length - 1)) : 0;
+    return [
+        { color: '#ffffff', x: PALETTE_X, y: 0.15, label: 'save' },
+        ...colors.map((color, i) => ({ color, x: PALETTE_X, y: 0.25 + i * step }))
+    ];
+};
+
+// Brush-type column, next to the colors (further from the edge)
+const BRUSH_BUTTON_RADIUS = 0.035;
+const BRUSH_COLUMN_X = 0.19;
+const PALETTE_EDGE_X = 0.235; // Divider: pinching left of it (raw coords) never paints
+const BRUSH_BUTTONS = BRUSH_TYPES.map((type, i) => ({ type, x: BRUSH_COLUMN_X, y: 0.25 + i * 0.1 }));
+const EYEDROPPER_BUTTON = { x: BRUSH_COLUMN_X, y: 0.15 };
+
+// HSV color wheel, opened by holding an open palm still
+const COLOR_WHEEL_RADIUS = 0.22; // Fraction of the canvas height
+const OPEN_PALM_HOLD_MS = 1000;
+
+// Shape snapping offer: ✓ / ✕ chips under the recognized shape
+const SHAPE_LABELS: Record<ShapeType, string> = { CIRCLE: 'CÍRCULO', LINE: 'LÍNEA', RECTANGLE: 'RECTÁNGULO', TRIANGLE: 'TRIÁNGULO', STAR: 'ESTRELLA' };
+const SHAPE_CHIP_RADIUS = 0.035;
+const SHAPE_OFFER_MS = 5000;
+
+// Multi-finger painting: tucking the thumb into the palm puts every extended finger "on the canvas"
+const PAINTER_FINGERS: { finger: PainterFinger, tip: number, pip: number, label: string }[] = [
+    { finger: 'index', tip: 8, pip: 6, label: '1' },
+    { finger: 'middle', tip: 12, pip: 10, label: '2' },
+    { finger: 'ring', tip: 16, pip: 14, label: '3' }
 ];
+const THUMB_TUCK_RATIO = 0.6; // Thumb tip to middle knuckle, relative to the palm size
+const MULTI_FINGER_PRESSURE = 0.6; // No pinch to read pressure from: medium, slightly thinner strokes
 
-type FingerData = { x: number, y: number, z: number, vx: number, vy: number };
 type Point3D = { x: number, y: number, z: number };
 
-export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement, onGesture, interactionRef, levelId }) => {
+export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement, onGesture, interactionRef, levelId, songChart, paletteColors, onScore, onChartStats, customGestures, handLandmarksRef, calibration, replay, onLandmarks, playerRefs }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const landmarkerRef = useRef<HandLandmarker | null>(null);
   const requestRef = useRef<number>(0);
@@ -50,15 +114,28 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
   const [error, setError] = useState<string | null>(null);
   
   // State tracking
-  const lastGestureTime = useRef<number>(Date.now());
-  const lastPlantTime = useRef<number>(Date.now());
   const lastNoteTime = useRef<number>(Date.now());
   const lastStrumTime = useRef<number>(Date.now());
   const lastColorPickTime = useRef<number>(Date.now());
   const lastClapTime = useRef<number>(Date.now());
+  const gestureEngineRef = useRef(createGestureEngine(GESTURES));
+  const thresholdsRef = useRef<HandThresholds>(DEFAULT_THRESHOLDS);
+
+  // Split mode: pointer smoothing and held gestures per player
+  const playerMotionRef = useRef<HandMotionState[]>(Array.from({ length: PLAYER_COUNT }, createHandMotionState));
+  const playerEnginesRef = useRef(Array.from({ length: PLAYER_COUNT }, () => createGestureEngine(GESTURES)));
+
+  // Guitar: fret cell currently held down by each hand (sustains until released)
+  const pressedCellsRef = useRef<({ string: number, fret: number } | null)[]>([null, null]);
+  const activeChordRef = useRef<ChordShape | null>(null);
+  const lastChordPickTime = useRef<number>(Date.now());
+  const chordHandRef = useRef<{ count: number, since: number }[]>([{ count: 0, since: 0 }, { count: 0, since: 0 }]);
+
+  // Guitar rhythm mode
+  const chartRunRef = useRef<ChartRun | null>(null);
+  const lastGradeRef = useRef<{ grade: HitGrade, x: number, y: number, time: number } | null>(null);
 
   const lastHandDistanceRef = useRef<number>(-1);
-  const wasTwoHandsRef = useRef<boolean>(false);
   
   // Pinch Hysteresis
   const isPinchingRef = useRef<boolean>(false);
@@ -69,19 +146,22 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
   const brushPhysicsRef = useRef<{x: number, y: number}>({ x: 0.5, y: 0.5 });
   const strokeStartTimeRef = useRef<number>(0);
   const wasPaintingRef = useRef<boolean>(false);
+  // Painter palette layout, color wheel and eyedropper
+  const paletteRef = useRef<PaletteSwatch[]>(buildPaletteLayout(BUILT_IN_PALETTES[0].colors));
+  const colorWheelRef = useRef<{ hue: number, saturation: number, value: number, dragging: 'wheel' | 'value' | null, wasPinching: boolean } | null>(null);
+  const openPalmSinceRef = useRef<number>(0);
+  const lastWheelToggleTime = useRef<number>(0);
+  const eyedropperRef = useRef<{ color: string | null, wasPinching: boolean } | null>(null);
+  const samplerCtxRef = useRef<CanvasRenderingContext2D | null>(null);
+  // Shape snapping: the single-cursor stroke being drawn, then the pending offer
+  const shapeStrokeRef = useRef<{ points: { x: number, y: number }[], isValid: boolean } | null>(null);
+  const shapeOfferRef = useRef<{ shape: RecognizedShape, from: { x: number, y: number }, at: number } | null>(null);
+  const ignorePinchRef = useRef<boolean>(false); // Pinch that answered the offer must not start a stroke
+  // Multi-finger mode: independent brush lag, velocity and start taper per cursor id ('<hand>-<finger>')
+  const fingerBrushesRef = useRef<Map<string, { x: number, y: number, lastX: number, lastY: number, vx: number, vy: number, time: number, startedAt: number }>>(new Map());
 
   // Smoothing & Velocity
-  const smoothedLandmarksRef = useRef<{
-      index: Point3D, middle: Point3D, ring: Point3D, thumb: Point3D, palm: Point3D
-  }>({
-      index: {x:0, y:0, z:0}, middle: {x:0, y:0, z:0}, ring: {x:0, y:0, z:0}, thumb: {x:0, y:0, z:0}, palm: {x:0, y:0, z:0}
-  });
-
-  const lastFingerStateRef = useRef<{ [key: string]: FingerData }>({
-      index: { x:0, y:0, z:0, vx:0, vy:0 },
-      middle: { x:0, y:0, z:0, vx:0, vy:0 },
-      ring: { x:0, y:0, z:0, vx:0, vy:0 }
-  });
+  const handMotionRef = useRef<HandMotionState>(createHandMotionState());
 
   const lastTimeRef = useRef<number>(0);
   const isPlantingRef = useRef<boolean>(false);
@@ -92,30 +172,42 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
     }
   };
 
+  useEffect(() => {
+    paletteRef.current = buildPaletteLayout(paletteColors || BUILT_IN_PALETTES[0].colors);
+  }, [paletteColors]);
+
+  useEffect(() => {
+    thresholdsRef.current = getHandThresholds(calibration);
+  }, [calibration]);
+
+  // Custom gestures join the built-in ones; a new list starts the engine over
+  useEffect(() => {
+    gestureEngineRef.current = createGestureEngine([...GESTURES, ...createCustomGestureDefinitions(customGestures || [])]);
+  }, [customGestures]);
+
+  // Two players need up to four hands
+  const isSplit = !!playerRefs;
+  useEffect(() => {
+    landmarkerRef.current?.setOptions({ numHands: isSplit ? PLAYER_COUNT * 2 : 2 }).catch(() => {});
+  }, [modelLoaded, isSplit]);
+
+  // A new chart object (re)starts the run; null goes back to free play
+  useEffect(() => {
+    chartRunRef.current = songChart ? createChartRun(songChart, performance.now()) : null;
+    lastGradeRef.current = null;
+  }, [songChart]);
+
   useEffect(() => {
     let isMounted = true;
     const loadModel = async () => {
       if (landmarkerRef.current) { setModelLoaded(true); return; }
       try {
-        if (!visionPromise) {
-          visionPromise = FilesetResolver.forVisionTasks("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm");
-        }
-        const vision = await visionPromise;
-        if (!isMounted) return;
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2 
-        });
+        const landmarker = await loadHandLandmarker();
         if (isMounted) {
           landmarkerRef.current = landmarker;
           setModelLoaded(true);
         }
       } catch (error: any) {
-        visionPromise = null;
         if (isMounted) setError("Error cargando IA de visión. Refresca la página.");
       }
     };
@@ -123,158 +215,112 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
     return () => { isMounted = false; };
   }, []);
 
-  // --- REFINED SMOOTHING ---
-  const smoothPoint = (current: Point3D, target: Point3D, dt: number): Point3D => {
-      const dx = target.x - current.x;
-      const dy = target.y - current.y;
-      const dz = target.z - current.z;
-      
-      const dist = Math.sqrt(dx*dx + dy*dy);
-      
-      if (dist > 0.3) return target; // Snap
-      
-      const speed = dist / dt; // units per second
-      
-      let alpha = 0.15 + Math.min(0.65, speed * 0.2); 
-      
-      return {
-          x: current.x + (dx * alpha),
-          y: current.y + (dy * alpha),
-          z: current.z + (dz * alpha)
-      };
+  const lerp = (start: number, end: number, factor: number) => start + (end - start) * factor;
+
+  // The brush trails the finger (more lag when slow, for smooth curves); returns the speed-based size factor
+  const followBrush = (brush: { x: number, y: number }, targetX: number, targetY: number, speed: number) => {
+      const minLerp = 0.08; const maxLerp = 0.25;
+      const speedFactor = Math.min(speed, 4.0) / 4.0;
+      const easedSpeed = 1 - Math.pow(1 - speedFactor, 2); 
+      const currentLerp = minLerp + (maxLerp - minLerp) * easedSpeed;
+      brush.x = lerp(brush.x, targetX, currentLerp);
+      brush.y = lerp(brush.y, targetY, currentLerp);
+      return Math.max(0.2, Math.min(1.3, 1.3 - (speed * 0.25)));
   };
 
-  const lerp = (start: number, end: number, factor: number) => start + (end - start) * factor;
+  const strokeStartTaper = (startedAt: number) => Math.sin(Math.min(1, (performance.now() - startedAt) / 150) * Math.PI / 2);
 
   useEffect(() => {
-    if (!isActive || !modelLoaded || !canvasRef.current || !landmarkerRef.current) return;
+    // A replay needs neither the camera nor the model
+    if (!isActive || !canvasRef.current || (!replay && (!modelLoaded || !landmarkerRef.current))) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     const detect = () => {
-      if (!videoElement || !videoElement.videoWidth || videoElement.readyState < 2) {
+      const hasVideo = !!videoElement && !!videoElement.videoWidth && videoElement.readyState >= 2;
+      if (!hasVideo && !replay) {
         requestRef.current = requestAnimationFrame(detect);
         return;
       }
 
-      if (canvas.width !== videoElement.videoWidth || canvas.height !== videoElement.videoHeight) {
-        canvas.width = videoElement.videoWidth;
-        canvas.height = videoElement.videoHeight;
+      const width = hasVideo ? videoElement!.videoWidth : replay!.trace.width;
+      const height = hasVideo ? videoElement!.videoHeight : replay!.trace.height;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
       }
 
       const now = performance.now();
       const dt = Math.max(0.001, (now - lastTimeRef.current) / 1000);
       lastTimeRef.current = now;
 
-      let results;
-      try { results = landmarkerRef.current?.detectForVideo(videoElement, now); } catch (e) {}
+      let results: { landmarks: Landmark[][], handedness?: { categoryName: string, score: number }[][] } | undefined;
+      if (replay) {
+          results = { landmarks: replay.landmarksAt(now) };
+      } else {
+          try { results = landmarkerRef.current?.detectForVideo(videoElement!, now); } catch (e) {}
+      }
+      if (results) onLandmarks?.(now, results.landmarks);
+      // The player's comfortable reach area covers the whole canvas (one player only)
+      if (results && calibration && !playerRefs) results = { ...results, landmarks: results.landmarks.map(l => remapToReach(l, calibration.reach)) };
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       
-      if (levelId === DifficultyLevel.GUITAR) drawFretboard(ctx);
+      if (levelId === DifficultyLevel.GUITAR) {
+          drawFretboard(ctx);
+          drawChordSelector(ctx);
+          if (chartRunRef.current) updateChart(ctx);
+      }
       if (levelId === DifficultyLevel.PAINTER) {
+          drawSymmetryGuides(ctx);
           drawPalette(ctx);
           if (interactionRef?.current) drawCurrentColorHUD(ctx, interactionRef.current.activeColor);
+          drawShapeOffer(ctx);
+          drawColorWheel(ctx);
       }
 
       let frameCursors: PainterCursor[] = [];
 
-      if (interactionRef?.current) {
+      if (playerRefs) {
+          detectPlayers(results?.landmarks || [], results?.handedness, ctx, dt, now);
+      } else if (interactionRef?.current) {
           if (results?.landmarks && results.landmarks.length > 0) {
-              const lm = results.landmarks[0];
-              const rawIndex = lm[8];
-              const rawMiddle = lm[12];
-              const rawRing = lm[16];
-              const rawThumb = lm[4];
-              const wrist = lm[0];
-              const indexMCP = lm[5];
-              const pinkyMCP = lm[17];
-              
-              const rawPalm = {
-                  x: (wrist.x + indexMCP.x + pinkyMCP.x) / 3,
-                  y: (wrist.y + indexMCP.y + pinkyMCP.y) / 3,
-                  z: (wrist.z + indexMCP.z + pinkyMCP.z) / 3
-              };
-
-              const s = smoothedLandmarksRef.current;
-
-              // Initialization
-              if (s.index.x === 0 && s.index.y === 0) {
-                  s.index = { ...rawIndex };
-                  s.middle = { ...rawMiddle };
-                  s.ring = { ...rawRing };
-                  s.thumb = { ...rawThumb };
-                  s.palm = { ...rawPalm };
-                  lastFingerStateRef.current.index = { x: rawIndex.x, y: rawIndex.y, z: rawIndex.z, vx: 0, vy: 0 };
-              } else {
-                  s.index = smoothPoint(s.index, rawIndex, dt);
-                  s.middle = smoothPoint(s.middle, rawMiddle, dt);
-                  s.ring = smoothPoint(s.ring, rawRing, dt);
-                  s.thumb = smoothPoint(s.thumb, rawThumb, dt);
-                  s.palm = smoothPoint(s.palm, rawPalm, dt);
-              }
-
-              // Calculate Instant Velocity
-              const ivx = (s.index.x - lastFingerStateRef.current.index.x) / dt;
-              const ivy = (s.index.y - lastFingerStateRef.current.index.y) / dt;
-              const ivz = (s.index.z - lastFingerStateRef.current.index.z) / dt;
-
-              // Smooth Velocity
-              const vAlpha = 0.3;
-              interactionRef.current.velocityX = (interactionRef.current.velocityX * (1 - vAlpha)) + (ivx * vAlpha);
-              interactionRef.current.velocityY = (interactionRef.current.velocityY * (1 - vAlpha)) + (ivy * vAlpha);
-              interactionRef.current.velocityZ = (interactionRef.current.velocityZ * (1 - vAlpha)) + (ivz * vAlpha);
-
-              lastFingerStateRef.current.index = { ...s.index, vx: ivx, vy: ivy };
-              
-              interactionRef.current.isHovering = true;
-              if (!isPlantingRef.current) {
-                interactionRef.current.x = 1 - s.index.x; 
-                interactionRef.current.y = s.index.y;
-                interactionRef.current.z = s.index.z; 
-                interactionRef.current.palmX = 1 - s.palm.x;
-                interactionRef.current.palmY = s.palm.y;
-                interactionRef.current.palmZ = s.palm.z;
-              }
-              
-              if (levelId === DifficultyLevel.GARDEN) detectCameraControls();
+              updateHandMotion(handMotionRef.current, results.landmarks[0], dt, interactionRef.current, isPlantingRef.current);
           } else {
-              interactionRef.current.isHovering = false;
-              interactionRef.current.isGrabbing = false;
-              interactionRef.current.isPainting = false;
-              interactionRef.current.velocityX *= 0.9;
-              interactionRef.current.velocityY *= 0.9;
+              releaseHandMotion(interactionRef.current);
               isPinchingRef.current = false;
               pinchGaugeRef.current = 0;
+              fingerBrushesRef.current.clear();
           }
 
           if (results?.landmarks) {
-            const isTwoHands = results.landmarks.length === 2;
-            if (isTwoHands) {
-               detectClaspedHands(results.landmarks[0], results.landmarks[1], ctx);
-            } else {
-               isPlantingRef.current = false;
-               lastHandDistanceRef.current = -1; // Sentinel value to prevent false velocity on re-entry
-            }
-            wasTwoHandsRef.current = isTwoHands;
-
+            detectGestures(results.landmarks, ctx);
             if (isPlantingRef.current) drawPlantingFeedback(ctx, 1 - interactionRef.current.x, interactionRef.current.y);
 
             results.landmarks.forEach((landmarks, index) => {
               const isPrimary = index === 0;
-              const tipsOverride = isPrimary ? smoothedLandmarksRef.current : null;
-              detectOneHandGestures(landmarks, isPrimary, tipsOverride, frameCursors);
-              if (levelId === DifficultyLevel.GUITAR) detectFretboardInteraction(landmarks, ctx, interactionRef?.current?.velocityX || 0, interactionRef?.current?.velocityY || 0);
+              const tipsOverride = isPrimary ? handMotionRef.current.tips : null;
+              detectOneHandGestures(landmarks, index, tipsOverride, frameCursors);
+              if (levelId === DifficultyLevel.GUITAR) {
+                  detectChordSelector(landmarks, ctx);
+                  if (results.landmarks.length === 2) detectChordHand(landmarks, index);
+                  detectFretboardInteraction(landmarks, ctx, interactionRef?.current?.velocityX || 0, interactionRef?.current?.velocityY || 0, index);
+              }
               if (levelId === DifficultyLevel.PAINTER && isPrimary) detectPaletteInteraction(landmarks, ctx, tipsOverride || null);
               if (levelId !== DifficultyLevel.PAINTER) {
-                  drawSkeleton(ctx, landmarks, isPrimary ? smoothedLandmarksRef.current : undefined);
+                  drawSkeleton(ctx, landmarks, isPrimary ? handMotionRef.current.tips : undefined);
               } else {
-                  drawPainterCursor(ctx, landmarks, isPrimary ? smoothedLandmarksRef.current : undefined);
+                  drawPainterCursor(ctx, landmarks, index, isPrimary ? handMotionRef.current.tips : undefined);
               }
             });
             interactionRef.current.cursors = frameCursors;
+            if (levelId === DifficultyLevel.PAINTER) trackShapeStroke(frameCursors, canvas.clientWidth / (canvas.clientHeight || 1));
+            // Fingers of a hand that left the frame lift their strokes
+            fingerBrushesRef.current.forEach((_, id) => { if (Number(id.split('-')[0]) >= results.landmarks.length) fingerBrushesRef.current.delete(id); });
+            // Hands that left the frame lift their fretting finger
+            for (let i = results.landmarks.length; i < pressedCellsRef.current.length; i++) releaseFret(i);
           }
       }
       requestRef.current = requestAnimationFrame(detect);
@@ -282,35 +328,69 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
 
     detect();
     return () => { if (requestRef.current) cancelAnimationFrame(requestRef.current); };
-  }, [isActive, modelLoaded, videoElement, interactionRef, levelId]);
+  }, [isActive, modelLoaded, videoElement, interactionRef, levelId, calibration, replay, playerRefs]);
+
+  // Split mode: each player's hands move their own pointer and hold their own grab / finger gun.
+  // The games read the pointers directly, so no discrete events are emitted and two-hand gestures are off.
+  const detectPlayers = (hands: Landmark[][], handedness: { categoryName: string, score: number }[][] | undefined, ctx: CanvasRenderingContext2D, dt: number, now: number) => {
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.25)"; ctx.lineWidth = 2; ctx.setLineDash([12, 12]);
+      ctx.beginPath(); ctx.moveTo(w / 2, 0); ctx.lineTo(w / 2, h); ctx.stroke();
+      ctx.setLineDash([]);
+      assignHandsToPlayers(hands, handedness).forEach((landmarks, player) => {
+          const interaction = playerRefs?.[player]?.current;
+          if (!interaction) return;
+          const motion = playerMotionRef.current[player]; const engine = playerEnginesRef.current[player];
+          if (landmarks.length === 0) {
+              releaseHandMotion(interaction);
+              interaction.isPointing = false;
+              engine.reset();
+              return;
+          }
+          updateHandMotion(motion, landmarks[0], dt, interaction);
+          const frame = buildGestureFrame(landmarks, motion.tips, interaction, -1, now, thresholdsRef.current);
+          engine.update(frame, levelId, def => (def.hands || 1) === 1);
+          applyHeldGestures(engine, frame);
+          landmarks.forEach((hand, index) => drawSkeleton(ctx, hand, index === 0 ? motion.tips : undefined, interaction, PLAYER_COLORS[player]));
+      });
+  };
   
-  const detectCameraControls = () => {
-     if (!interactionRef?.current) return;
-     const { x, y, velocityX, velocityY } = interactionRef.current;
-     const now = Date.now();
-     if (Math.abs(velocityX) > 1.0 && Math.abs(velocityY) < 1.0) {
-         if (now - lastGestureTime.current > 600) {
-             const direction = velocityX > 0 ? 'RIGHT' : 'LEFT'; 
-             onGesture?.('GESTURE_SWIPE', { direction });
-             triggerHaptic(20);
-             lastGestureTime.current = now;
-             const label = direction === 'RIGHT' ? "ROTATE >>" : "<< ROTATE";
-             drawGestureIndicator(label, 1 - x, y, "#38bdf8");
-         }
-     }
-     if (now - lastGestureTime.current > 800) {
-         if (y < 0.25) { 
-             onGesture?.('GESTURE_LIFT');
-             triggerHaptic(10);
-             lastGestureTime.current = now;
-             drawGestureIndicator("CAMERA UP", 1 - x, y, "#38bdf8");
-         } else if (y > 0.75) { 
-             onGesture?.('GESTURE_GROUND');
-             triggerHaptic(10);
-             lastGestureTime.current = now;
-             drawGestureIndicator("CAMERA DOWN", 1 - x, y, "#38bdf8");
-         }
-     }
+  // Discrete gestures come from the declarative registry (data/gestures.ts); this builds its per-frame input
+  const detectGestures = (handsLandmarks: Landmark[][], ctx: CanvasRenderingContext2D) => {
+      if (!interactionRef?.current) return;
+      const frame = buildGestureFrame(handsLandmarks, handMotionRef.current.tips, interactionRef.current, lastHandDistanceRef.current, Date.now(), thresholdsRef.current);
+      lastHandDistanceRef.current = frame.handDistance;
+      if (handLandmarksRef) handLandmarksRef.current = frame.hands[0]?.landmarks || null;
+
+      // The color wheel and eyedropper own the hand while open: only two-handed gestures stay live
+      const isOverlayOpen = !!(colorWheelRef.current || eyedropperRef.current);
+      const engine = gestureEngineRef.current;
+      engine.update(frame, levelId, def => !isOverlayOpen || def.hands === 2).forEach(firing => handleGestureFired(firing, frame, ctx));
+
+      isPlantingRef.current = applyHeldGestures(engine, frame);
+  };
+
+  const handleGestureFired = ({ definition, event, payload }: GestureFiring, frame: GestureFrame, ctx: CanvasRenderingContext2D) => {
+      if (!interactionRef?.current) return;
+      onGesture?.(event, payload);
+      const { label, color, haptic } = definition.feedback || {};
+      if (haptic && event === definition.event) triggerHaptic(haptic);
+      // Two-handed gestures are labelled between the wrists, the rest at the pointer
+      const [a, b] = frame.hands.map(hand => hand.landmarks[0]);
+      const at = definition.hands === 2 && b ? { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } : frame.hands[0]?.landmarks[8];
+      if (label && at && event === definition.event) drawGestureIndicator(typeof label === 'function' ? label(frame) : label, at.x, at.y, color);
+
+      if (event === 'RESET') {
+          interactionRef.current.isPainting = false;
+          isPinchingRef.current = false;
+          lastClapTime.current = frame.now;
+          const w = ctx.canvas.width; const h = ctx.canvas.height; const x = (at?.x ?? 0.5) * w; const y = (at?.y ?? 0.5) * h;
+          ctx.save();
+          ctx.beginPath(); ctx.arc(x, y, 60, 0, Math.PI * 2); ctx.strokeStyle = "#ef4444"; ctx.lineWidth = 8; ctx.stroke();
+          ctx.beginPath(); ctx.arc(x, y, 120, 0, Math.PI * 2); ctx.strokeStyle = "rgba(239, 68, 68, 0.5)"; ctx.lineWidth = 4; ctx.stroke();
+          ctx.restore();
+      }
+      if (event === 'UNDO' || event === 'REDO') shapeOfferRef.current = null;
   };
 
   const detectPaletteInteraction = (landmarks: any[], ctx: CanvasRenderingContext2D, smoothedTips: { index: Point3D, thumb: Point3D } | null) => {
@@ -319,12 +399,16 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
       const h = ctx.canvas.height;
       const now = Date.now();
       const indexTip = smoothedTips ? smoothedTips.index : landmarks[8];
+      const thumb = smoothedTips ? smoothedTips.thumb : landmarks[4];
+      const isMultiFinger = interactionRef.current.isMultiFinger;
+      const palette = paletteRef.current;
+      // Long palettes pack the swatches closer than their radius: only the nearest one reacts
+      const distTo = (p: { x: number, y: number }) => Math.hypot(indexTip.x - p.x, indexTip.y - p.y);
+      const nearest = palette.reduce((best, p) => distTo(p) < distTo(best) ? p : best, palette[0]);
       
-      PALETTE_COLORS.forEach(p => {
-        const dx = indexTip.x - p.x;
-        const dy = indexTip.y - p.y;
-        const dist = Math.hypot(dx, dy);
-        if (dist < PALETTE_RADIUS * 2.0) {
+      palette.forEach(p => {
+        const dist = distTo(p);
+        if (p === nearest && dist < PALETTE_RADIUS * 2.0) {
             ctx.save();
             ctx.shadowColor = p.color === '#000000' ? 'white' : p.color;
             ctx.shadowBlur = 20;
@@ -335,24 +419,60 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
             ctx.stroke();
             ctx.restore();
 
-            const thumb = smoothedTips ? smoothedTips.thumb : landmarks[4];
             const pinchDist = Math.hypot(indexTip.x - thumb.x, indexTip.y - thumb.y);
             // Palette selection is easy pinch
-            if (pinchDist < 0.08 && now - lastColorPickTime.current > 600) {
+            if (pinchDist < thresholdsRef.current.pinchStart && now - lastColorPickTime.current > 600) {
                 lastColorPickTime.current = now;
                 triggerHaptic(30);
                 if (p.label === 'save') {
                     onGesture?.('SAVE_SNAPSHOT');
                     drawGestureIndicator("¡GUARDANDO!", indexTip.x, indexTip.y, "#ffffff");
+                } else if (isMultiFinger) {
+                    interactionRef.current!.painterColors.index = p.color;
+                    drawGestureIndicator("DEDO 1", indexTip.x, indexTip.y, p.color);
                 } else {
                     interactionRef.current!.activeColor = p.color;
-                    const label = p.label === 'eraser' ? "BORRADOR" : "¡COLOR!";
-                    drawGestureIndicator(label, indexTip.x, indexTip.y, p.color);
+                    drawGestureIndicator("¡COLOR!", indexTip.x, indexTip.y, p.color);
                     onGesture?.('COLOR_CHANGE', { color: p.color });
                 }
             }
         }
+        // Multi-finger: middle / ring pick their own color by touching the thumb over a swatch
+        if (isMultiFinger && p.label !== 'save') {
+            PAINTER_FINGERS.slice(1).forEach(({ finger, tip, label }) => {
+                const fingerTip = landmarks[tip];
+                if (Math.hypot(fingerTip.x - p.x, fingerTip.y - p.y) > PALETTE_RADIUS * 1.5) return;
+                if (Math.hypot(fingerTip.x - thumb.x, fingerTip.y - thumb.y) < thresholdsRef.current.pinchStart && now - lastColorPickTime.current > 600) {
+                    lastColorPickTime.current = now;
+                    triggerHaptic(30);
+                    interactionRef.current!.painterColors[finger] = p.color;
+                    drawGestureIndicator(`DEDO ${label}`, fingerTip.x, fingerTip.y, p.color);
+                }
+            });
+        }
+      });
+
+      BRUSH_BUTTONS.forEach(b => {
+        if (Math.hypot(indexTip.x - b.x, indexTip.y - b.y) > BRUSH_BUTTON_RADIUS * 1.8) return;
+        ctx.save();
+        ctx.strokeStyle = "rgba(255, 255, 255, 0.8)"; ctx.lineWidth = 3;
+        ctx.beginPath(); ctx.arc(b.x * w, b.y * h, BRUSH_BUTTON_RADIUS * w * 1.5, 0, Math.PI * 2); ctx.stroke();
+        ctx.restore();
+        if (Math.hypot(indexTip.x - thumb.x, indexTip.y - thumb.y) < thresholdsRef.current.pinchStart && now - lastColorPickTime.current > 600) {
+            lastColorPickTime.current = now;
+            triggerHaptic(30);
+            interactionRef.current!.brushType = b.type;
+            drawGestureIndicator(BRUSHES[b.type].label.toUpperCase(), indexTip.x, indexTip.y, "#ffffff");
+        }
       });
+
+      if (Math.hypot(indexTip.x - EYEDROPPER_BUTTON.x, indexTip.y - EYEDROPPER_BUTTON.y) < BRUSH_BUTTON_RADIUS * 1.8
+          && Math.hypot(indexTip.x - thumb.x, indexTip.y - thumb.y) < thresholdsRef.current.pinchStart && now - lastColorPickTime.current > 600) {
+          lastColorPickTime.current = now;
+          triggerHaptic(30);
+          eyedropperRef.current = eyedropperRef.current ? null : { color: null, wasPinching: true };
+          drawGestureIndicator(eyedropperRef.current ? "CUENTAGOTAS" : "CANCELADO", indexTip.x, indexTip.y, "#ffffff");
+      }
   };
 
   const drawPalette = (ctx: CanvasRenderingContext2D) => {
@@ -363,11 +483,11 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
       ctx.setLineDash([10, 10]);
       ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
       ctx.lineWidth = 2;
-      ctx.moveTo(0.12 * w, 0);
-      ctx.lineTo(0.12 * w, h);
+      ctx.moveTo(PALETTE_EDGE_X * w, 0);
+      ctx.lineTo(PALETTE_EDGE_X * w, h);
       ctx.stroke();
       ctx.restore();
-      PALETTE_COLORS.forEach(p => {
+      paletteRef.current.forEach(p => {
           ctx.save();
           ctx.shadowColor = "rgba(0,0,0,0.5)";
           ctx.shadowBlur = 4;
@@ -378,20 +498,217 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
               ctx.fillStyle = "white"; const s = PALETTE_RADIUS * w * 0.5;
               ctx.fillRect((p.x * w) - s, (p.y * h) - s*0.5, s*2, s*1.3);
               ctx.beginPath(); ctx.arc(p.x * w, p.y * h + (s*0.1), s*0.6, 0, Math.PI*2); ctx.fillStyle = "#333"; ctx.fill();
-          } else if (p.label === 'eraser') {
-              ctx.fillStyle = "#333"; ctx.fill(); ctx.strokeStyle = "white"; ctx.lineWidth = 2; ctx.stroke();
-              ctx.beginPath(); ctx.strokeStyle = "white"; ctx.lineWidth = 3; const r = PALETTE_RADIUS * w * 0.3;
-              ctx.moveTo((p.x * w) - r, (p.y * h) - r); ctx.lineTo((p.x * w) + r, (p.y * h) + r);
-              ctx.moveTo((p.x * w) + r, (p.y * h) - r); ctx.lineTo((p.x * w) - r, (p.y * h) + r); ctx.stroke();
           } else {
               ctx.fillStyle = p.color; ctx.fill(); ctx.strokeStyle = "white"; ctx.lineWidth = 2; ctx.stroke();
           }
-          if (interactionRef?.current?.activeColor === p.color && p.label !== 'save') {
+          if (!interactionRef?.current?.isMultiFinger && interactionRef?.current?.activeColor === p.color && p.label !== 'save') {
               ctx.beginPath(); ctx.arc(p.x * w, p.y * h, PALETTE_RADIUS * w * 1.3, 0, Math.PI * 2);
               ctx.strokeStyle = "#fff"; ctx.lineWidth = 3; ctx.stroke();
           }
           ctx.restore();
       });
+      // Multi-finger: numbered badges show which swatch each finger paints with
+      if (interactionRef?.current?.isMultiFinger) {
+          const colors = interactionRef.current.painterColors;
+          PAINTER_FINGERS.forEach(({ finger, label }, i) => {
+              const swatch = paletteRef.current.find(p => p.color === colors[finger] && p.label !== 'save');
+              if (!swatch) return;
+              const x = (swatch.x + PALETTE_RADIUS * 0.9) * w; const y = (swatch.y + (i - 1) * 0.025) * h;
+              ctx.save();
+              ctx.beginPath(); ctx.arc(x, y, 9, 0, Math.PI * 2); ctx.fillStyle = "rgba(15, 23, 42, 0.9)"; ctx.fill();
+              ctx.strokeStyle = colors[finger]; ctx.lineWidth = 2; ctx.stroke();
+              ctx.translate(x, y); ctx.scale(-1, 1); ctx.fillStyle = "white"; ctx.font = "bold 11px Inter"; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+              ctx.fillText(label, 0, 0);
+              ctx.restore();
+          });
+      }
+      const activeBrush = interactionRef?.current?.brushType;
+      BRUSH_BUTTONS.forEach(b => {
+          const x = b.x * w; const y = b.y * h; const r = BRUSH_BUTTON_RADIUS * w;
+          ctx.save();
+          ctx.beginPath(); ctx.arc(x, y, r, 0, Math.PI * 2);
+          ctx.fillStyle = b.type === activeBrush ? "rgba(16, 185, 129, 0.85)" : "rgba(15, 23, 42, 0.75)"; ctx.fill();
+          ctx.strokeStyle = b.type === activeBrush ? "#fff" : "rgba(255,255,255,0.4)"; ctx.lineWidth = 2; ctx.stroke();
+          ctx.translate(x, y); ctx.scale(-1, 1); ctx.font = `${Math.round(r * 1.1)}px sans-serif`; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+          ctx.fillText(BRUSHES[b.type].icon, 0, 0);
+          ctx.restore();
+      });
+      const ex = EYEDROPPER_BUTTON.x * w; const ey = EYEDROPPER_BUTTON.y * h; const er = BRUSH_BUTTON_RADIUS * w;
+      ctx.save();
+      ctx.beginPath(); ctx.arc(ex, ey, er, 0, Math.PI * 2);
+      ctx.fillStyle = eyedropperRef.current ? "rgba(16, 185, 129, 0.85)" : "rgba(15, 23, 42, 0.75)"; ctx.fill();
+      ctx.strokeStyle = eyedropperRef.current ? "#fff" : "rgba(255,255,255,0.4)"; ctx.lineWidth = 2; ctx.stroke();
+      ctx.translate(ex, ey); ctx.scale(-1, 1); ctx.font = `${Math.round(er * 1.1)}px sans-serif`; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+      ctx.fillText("💉", 0, 0);
+      ctx.restore();
+  };
+
+  const drawColorWheel = (ctx: CanvasRenderingContext2D) => {
+      const wheel = colorWheelRef.current; if (!wheel) return;
+      const { cx, cy, r, sliderX } = getColorWheelGeometry(ctx.canvas);
+      ctx.save();
+      ctx.fillStyle = "rgba(15, 23, 42, 0.6)"; ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      // Hue around, saturation outwards, value as a dark overlay
+      const hues = ctx.createConicGradient(0, cx, cy);
+      for (let i = 0; i <= 6; i++) hues.addColorStop(i / 6, hsvToHex(i * 60, 1, 1));
+      ctx.beginPath(); ctx.arc(cx, cy, r, 0, Math.PI * 2); ctx.fillStyle = hues; ctx.fill();
+      const whites = ctx.createRadialGradient(cx, cy, 0, cx, cy, r);
+      whites.addColorStop(0, "rgba(255,255,255,1)"); whites.addColorStop(1, "rgba(255,255,255,0)");
+      ctx.fillStyle = whites; ctx.fill();
+      ctx.fillStyle = `rgba(0,0,0,${1 - wheel.value})`; ctx.fill();
+      ctx.strokeStyle = "white"; ctx.lineWidth = 3; ctx.stroke();
+      const angle = wheel.hue * Math.PI / 180;
+      ctx.beginPath(); ctx.arc(cx + Math.cos(angle) * wheel.saturation * r, cy + Math.sin(angle) * wheel.saturation * r, 10, 0, Math.PI * 2);
+      ctx.strokeStyle = "white"; ctx.lineWidth = 3; ctx.stroke();
+      // Value slider: bright at the top
+      const shades = ctx.createLinearGradient(0, cy - r, 0, cy + r);
+      shades.addColorStop(0, hsvToHex(wheel.hue, wheel.saturation, 1)); shades.addColorStop(1, "#000000");
+      ctx.fillStyle = shades; ctx.fillRect(sliderX - 14, cy - r, 28, r * 2);
+      ctx.strokeRect(sliderX - 14, cy - r, 28, r * 2);
+      const vy = cy + r - wheel.value * r * 2;
+      ctx.fillStyle = "white"; ctx.fillRect(sliderX - 20, vy - 3, 40, 6);
+      // Preview + hint
+      const color = hsvToHex(wheel.hue, wheel.saturation, wheel.value);
+      ctx.beginPath(); ctx.arc(cx, cy + r + 40, 22, 0, Math.PI * 2); ctx.fillStyle = color; ctx.fill(); ctx.stroke();
+      ctx.translate(cx, cy + r + 85); ctx.scale(-1, 1); ctx.fillStyle = "white"; ctx.font = "bold 14px Inter"; ctx.textAlign = "center";
+      ctx.fillText("PELLIZCA Y ARRASTRA · PELLIZCA FUERA PARA CERRAR", 0, 0);
+      ctx.restore();
+  };
+
+  // Wheel centered on screen, value slider on the wheel's screen-right (raw left) side
+  const getColorWheelGeometry = (canvas: HTMLCanvasElement) => {
+      const r = COLOR_WHEEL_RADIUS * canvas.height;
+      return { cx: canvas.width / 2, cy: canvas.height / 2, r, sliderX: canvas.width / 2 - r - 50 };
+  };
+
+  const applyPickedColor = (color: string, x: number, y: number) => {
+      if (!interactionRef?.current) return;
+      if (interactionRef.current.isMultiFinger) {
+          interactionRef.current.painterColors.index = color;
+          drawGestureIndicator("DEDO 1", x, y, color);
+      } else {
+          interactionRef.current.activeColor = color;
+          drawGestureIndicator("¡COLOR!", x, y, color);
+          onGesture?.('COLOR_CHANGE', { color });
+      }
+      triggerHaptic(30);
+  };
+
+  const updateColorWheel = (indexTip: Point3D, isPinching: boolean) => {
+      const wheel = colorWheelRef.current; const canvas = canvasRef.current;
+      if (!wheel || !canvas) return;
+      const { cx, cy, r, sliderX } = getColorWheelGeometry(canvas);
+      const px = indexTip.x * canvas.width; const py = indexTip.y * canvas.height;
+      if (isPinching && !wheel.wasPinching) {
+          if (Math.hypot(px - cx, py - cy) < r * 1.1) wheel.dragging = 'wheel';
+          else if (Math.abs(px - sliderX) < 40 && Math.abs(py - cy) < r * 1.1) wheel.dragging = 'value';
+          else {
+              colorWheelRef.current = null; lastWheelToggleTime.current = Date.now();
+              return;
+          }
+      }
+      if (isPinching && wheel.dragging === 'wheel') {
+          wheel.hue = (Math.atan2(py - cy, px - cx) * 180 / Math.PI + 360) % 360;
+          wheel.saturation = Math.min(1, Math.hypot(px - cx, py - cy) / r);
+      } else if (isPinching && wheel.dragging === 'value') {
+          wheel.value = Math.min(1, Math.max(0, (cy + r - py) / (r * 2)));
+      } else if (!isPinching && wheel.dragging) {
+          wheel.dragging = null;
+          applyPickedColor(hsvToHex(wheel.hue, wheel.saturation, wheel.value), indexTip.x, indexTip.y);
+      }
+      wheel.wasPinching = isPinching;
+  };
+
+  const updateEyedropper = (indexTip: Point3D, isPinching: boolean, isOverPalette: boolean) => {
+      const eyedropper = eyedropperRef.current;
+      if (!eyedropper || !videoElement) return;
+      if (!samplerCtxRef.current) {
+          const sampler = document.createElement('canvas'); sampler.width = 7; sampler.height = 7;
+          samplerCtxRef.current = sampler.getContext('2d', { willReadFrequently: true });
+      }
+      if (samplerCtxRef.current) eyedropper.color = sampleVideoColor(videoElement, indexTip.x, indexTip.y, samplerCtxRef.current);
+      if (isPinching && !eyedropper.wasPinching && !isOverPalette && eyedropper.color) {
+          applyPickedColor(eyedropper.color, indexTip.x, indexTip.y);
+          eyedropperRef.current = null;
+          return;
+      }
+      eyedropper.wasPinching = isPinching;
+  };
+
+  // Dashed axes of the active symmetry, through the canvas center
+  const drawSymmetryGuides = (ctx: CanvasRenderingContext2D) => {
+      const symmetry = interactionRef?.current?.symmetry;
+      if (!symmetry || symmetry.mode === 'NONE') return;
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      const cx = w / 2; const cy = h / 2; const reach = Math.hypot(w, h);
+      ctx.save();
+      ctx.setLineDash([12, 10]); ctx.strokeStyle = "rgba(255, 255, 255, 0.35)"; ctx.lineWidth = 2;
+      ctx.beginPath();
+      if (symmetry.mode === 'HORIZONTAL' || symmetry.mode === 'BOTH') { ctx.moveTo(cx, 0); ctx.lineTo(cx, h); }
+      if (symmetry.mode === 'VERTICAL' || symmetry.mode === 'BOTH') { ctx.moveTo(0, cy); ctx.lineTo(w, cy); }
+      if (symmetry.mode === 'RADIAL' || symmetry.mode === 'KALEIDOSCOPE') {
+          // Kaleidoscope wedges are twice as many, each one a mirror of its neighbour
+          const rays = symmetry.mode === 'KALEIDOSCOPE' ? symmetry.folds * 2 : symmetry.folds;
+          for (let i = 0; i < rays; i++) {
+              const angle = -Math.PI / 2 + (i * Math.PI * 2) / rays;
+              ctx.moveTo(cx, cy); ctx.lineTo(cx + Math.cos(angle) * reach, cy + Math.sin(angle) * reach);
+          }
+      }
+      ctx.stroke();
+      ctx.beginPath(); ctx.arc(cx, cy, 5, 0, Math.PI * 2); ctx.fillStyle = "rgba(255, 255, 255, 0.5)"; ctx.fill();
+      ctx.restore();
+  };
+
+  // Records the single 'index' cursor; when it lifts, the stroke is checked for a shape
+  const trackShapeStroke = (cursors: PainterCursor[], aspect: number) => {
+      if (cursors.length > 0) {
+          if (!shapeStrokeRef.current) shapeStrokeRef.current = { points: [], isValid: true };
+          // Several brushes at once (two hands, multi-finger) are never snapped
+          if (cursors.length > 1 || cursors[0].id !== 'index') shapeStrokeRef.current.isValid = false;
+          else shapeStrokeRef.current.points.push({ x: cursors[0].x, y: cursors[0].y });
+          return;
+      }
+      const stroke = shapeStrokeRef.current;
+      shapeStrokeRef.current = null;
+      if (!stroke?.isValid || stroke.points.length === 0) return;
+      const shape = recognizeShape(stroke.points, aspect);
+      if (shape) shapeOfferRef.current = { shape, from: stroke.points[0], at: Date.now() };
+  };
+
+  // Chips in raw (unmirrored) coords, centered under the shape
+  const getShapeOfferChips = (shape: RecognizedShape) => {
+      const xs = shape.points.map(p => 1 - p.x); const ys = shape.points.map(p => p.y);
+      const cx = Math.min(0.94, Math.max(PALETTE_EDGE_X + 0.06, (Math.min(...xs) + Math.max(...xs)) / 2));
+      const y = Math.min(0.92, Math.max(...ys) + 0.08);
+      // Raw x grows to the screen's left: ✓ shows on the left, ✕ on the right
+      return [{ accept: true, x: cx + 0.05, y }, { accept: false, x: cx - 0.05, y }];
+  };
+
+  const drawShapeOffer = (ctx: CanvasRenderingContext2D) => {
+      const offer = shapeOfferRef.current; if (!offer) return;
+      if (Date.now() - offer.at > SHAPE_OFFER_MS) { shapeOfferRef.current = null; return; }
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      ctx.save();
+      ctx.setLineDash([10, 8]); ctx.strokeStyle = "rgba(103, 232, 249, 0.9)"; ctx.lineWidth = 4;
+      ctx.beginPath();
+      offer.shape.points.forEach((p, i) => i === 0 ? ctx.moveTo((1 - p.x) * w, p.y * h) : ctx.lineTo((1 - p.x) * w, p.y * h));
+      ctx.stroke();
+      ctx.setLineDash([]);
+      const chips = getShapeOfferChips(offer.shape);
+      chips.forEach(chip => {
+          ctx.save();
+          ctx.beginPath(); ctx.arc(chip.x * w, chip.y * h, SHAPE_CHIP_RADIUS * w, 0, Math.PI * 2);
+          ctx.fillStyle = chip.accept ? "rgba(8, 145, 178, 0.9)" : "rgba(15, 23, 42, 0.85)"; ctx.fill();
+          ctx.strokeStyle = "white"; ctx.lineWidth = 2; ctx.stroke();
+          ctx.translate(chip.x * w, chip.y * h); ctx.scale(-1, 1); ctx.fillStyle = "white"; ctx.font = "bold 22px Inter"; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+          ctx.fillText(chip.accept ? "✓" : "✕", 0, 0);
+          ctx.restore();
+      });
+      const labelX = ((chips[0].x + chips[1].x) / 2) * w; const labelY = (chips[0].y - SHAPE_CHIP_RADIUS * 2) * h;
+      ctx.translate(labelX, labelY); ctx.scale(-1, 1); ctx.fillStyle = "white"; ctx.font = "bold 14px Inter"; ctx.textAlign = "center";
+      ctx.shadowColor = "rgba(0,0,0,0.8)"; ctx.shadowBlur = 4;
+      ctx.fillText(`¿${SHAPE_LABELS[offer.shape.type]}?`, 0, 0);
+      ctx.restore();
   };
 
   const drawCurrentColorHUD = (ctx: CanvasRenderingContext2D, color: string) => {
@@ -400,8 +717,19 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
       const x = w / 2; const y = 0.08 * h; 
       ctx.save();
       ctx.beginPath(); ctx.arc(x, y, 20, 0, Math.PI * 2); ctx.fillStyle = "rgba(15, 23, 42, 0.8)"; ctx.fill(); ctx.strokeStyle = "rgba(255,255,255,0.2)"; ctx.lineWidth = 1; ctx.stroke();
-      ctx.beginPath(); ctx.arc(x, y, 14, 0, Math.PI * 2); ctx.fillStyle = color; ctx.fill(); ctx.strokeStyle = "white"; ctx.lineWidth = 2; ctx.stroke();
-      ctx.translate(x, y + 32); ctx.scale(-1, 1); ctx.fillStyle = "rgba(255,255,255,0.9)"; ctx.font = "bold 12px Inter"; ctx.textAlign = "center"; ctx.fillText(color === '#000000' ? "BORRAR" : "PINTAR", 0, 0);
+      if (interactionRef?.current?.isMultiFinger) {
+          // One wedge per finger color
+          PAINTER_FINGERS.forEach(({ finger }, i) => {
+              const start = -Math.PI / 2 + (i * Math.PI * 2) / 3;
+              ctx.beginPath(); ctx.moveTo(x, y); ctx.arc(x, y, 14, start, start + (Math.PI * 2) / 3); ctx.closePath();
+              ctx.fillStyle = interactionRef.current!.painterColors[finger]; ctx.fill();
+          });
+          ctx.beginPath(); ctx.arc(x, y, 14, 0, Math.PI * 2); ctx.strokeStyle = "white"; ctx.lineWidth = 2; ctx.stroke();
+      } else {
+          ctx.beginPath(); ctx.arc(x, y, 14, 0, Math.PI * 2); ctx.fillStyle = color; ctx.fill(); ctx.strokeStyle = "white"; ctx.lineWidth = 2; ctx.stroke();
+      }
+      ctx.translate(x, y + 32); ctx.scale(-1, 1); ctx.fillStyle = "rgba(255,255,255,0.9)"; ctx.font = "bold 12px Inter"; ctx.textAlign = "center"; const brush = interactionRef?.current?.brushType;
+      ctx.fillText(brush ? BRUSHES[brush].label.toUpperCase() : "PINTAR", 0, 0);
       ctx.restore();
   };
 
@@ -421,18 +749,181 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
           ctx.beginPath(); ctx.moveTo(x, FRETBOARD_Y_START * h); ctx.lineTo(x, FRETBOARD_Y_END * h); ctx.stroke();
       }
       ctx.restore();
+      if (activeChordRef.current) drawChordShape(ctx, activeChordRef.current);
+  };
+
+  const drawChordShape = (ctx: CanvasRenderingContext2D, chord: ChordShape) => {
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      const fretWidth = (FRETBOARD_X_END - FRETBOARD_X_START) / NUM_FRETS; const stringHeight = (FRETBOARD_Y_END - FRETBOARD_Y_START) / NUM_STRINGS;
+      // Open/muted markers sit just outside the nut (raw X_END, the player's left once mirrored)
+      const nutX = (FRETBOARD_X_END + 0.025) * w;
+      ctx.save();
+      chord.frets.forEach((fret, i) => {
+          const y = (FRETBOARD_Y_START + (i + 0.5) * stringHeight) * h;
+          if (fret === null) {
+              ctx.strokeStyle = "#f87171"; ctx.lineWidth = 3; const r = 7;
+              ctx.beginPath(); ctx.moveTo(nutX - r, y - r); ctx.lineTo(nutX + r, y + r); ctx.moveTo(nutX + r, y - r); ctx.lineTo(nutX - r, y + r); ctx.stroke();
+          } else if (fret === 0) {
+              ctx.strokeStyle = "#4ade80"; ctx.lineWidth = 3; ctx.beginPath(); ctx.arc(nutX, y, 7, 0, Math.PI * 2); ctx.stroke();
+          } else if (fret <= NUM_FRETS) {
+              const x = (FRETBOARD_X_END - (fret - 0.5) * fretWidth) * w;
+              ctx.fillStyle = "#facc15"; ctx.shadowColor = "#facc15"; ctx.shadowBlur = 15;
+              ctx.beginPath(); ctx.arc(x, y, Math.min(fretWidth * w, stringHeight * h) * 0.35, 0, Math.PI * 2); ctx.fill();
+              ctx.shadowBlur = 0;
+          }
+      });
+      ctx.restore();
+  };
+
+  const drawChordSelector = (ctx: CanvasRenderingContext2D) => {
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      CHORD_BUTTONS.forEach(b => {
+          const isActive = activeChordRef.current === b.chord;
+          ctx.save();
+          ctx.shadowColor = "rgba(0,0,0,0.5)"; ctx.shadowBlur = 4;
+          ctx.beginPath(); ctx.arc(b.x * w, b.y * h, CHORD_BUTTON_RADIUS * w, 0, Math.PI * 2);
+          ctx.fillStyle = isActive ? "#4f46e5" : "rgba(15, 23, 42, 0.75)"; ctx.fill();
+          ctx.strokeStyle = isActive ? "#fff" : "rgba(255,255,255,0.4)"; ctx.lineWidth = isActive ? 3 : 2; ctx.stroke();
+          // Labels are drawn mirrored so they read correctly on the flipped canvas
+          ctx.translate(b.x * w, b.y * h); ctx.scale(-1, 1);
+          ctx.fillStyle = "white"; ctx.font = "bold 14px Inter"; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+          ctx.fillText(b.chord ? b.chord.name : "♪", 0, 0);
+          ctx.restore();
+      });
+  };
+
+  const selectChord = (chord: ChordShape | null, x: number, y: number) => {
+      if (activeChordRef.current === chord) return;
+      activeChordRef.current = chord;
+      triggerHaptic(30);
+      onGesture?.('CHORD_CHANGE', { chord: chord ? chord.name : null });
+      drawGestureIndicator(chord ? `ACORDE ${chord.name}` : "NOTAS", x, y, "#a5b4fc");
+  };
+
+  const detectChordSelector = (landmarks: any[], ctx: CanvasRenderingContext2D) => {
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      const indexTip = landmarks[8]; const thumbTip = landmarks[4];
+      CHORD_BUTTONS.forEach(b => {
+          if (Math.hypot(indexTip.x - b.x, indexTip.y - b.y) > CHORD_BUTTON_RADIUS * 1.5) return;
+          ctx.save(); ctx.strokeStyle = "rgba(255, 255, 255, 0.8)"; ctx.lineWidth = 4; ctx.shadowColor = "#a5b4fc"; ctx.shadowBlur = 20;
+          ctx.beginPath(); ctx.arc(b.x * w, b.y * h, CHORD_BUTTON_RADIUS * w * 1.4, 0, Math.PI * 2); ctx.stroke(); ctx.restore();
+          const pinchDist = Math.hypot(indexTip.x - thumbTip.x, indexTip.y - thumbTip.y);
+          const now = Date.now();
+          if (pinchDist < thresholdsRef.current.pinchStart && now - lastChordPickTime.current > 600) {
+              lastChordPickTime.current = now;
+              selectChord(b.chord, indexTip.x, indexTip.y - 0.08);
+          }
+      });
+  };
+
+  // Second hand held above the selector: showing 1-5 fingers picks one of the first five chords
+  const detectChordHand = (landmarks: any[], handIndex: number) => {
+      const state = chordHandRef.current[handIndex];
+      const wrist = landmarks[0]; const indexTip = landmarks[8];
+      if (wrist.y > FRETBOARD_Y_START || indexTip.y > CHORD_SELECTOR_Y - CHORD_BUTTON_RADIUS * 2) { state.count = 0; return; }
+      const dist = (p1: any, p2: any) => Math.hypot(p1.x - p2.x, p1.y - p2.y);
+      const handScale = dist(wrist, landmarks[5]) || 0.1;
+      const isExtended = (tip: number, pip: number) => dist(landmarks[tip], wrist) > dist(landmarks[pip], wrist);
+      const thumbOut = dist(landmarks[4], landmarks[5]) > 0.6 * handScale;
+      const count = [isExtended(8, 6), isExtended(12, 10), isExtended(16, 14), isExtended(20, 18), thumbOut].filter(Boolean).length;
+      const now = Date.now();
+      if (count !== state.count) { state.count = count; state.since = now; return; }
+      if (count > 0 && now - state.since > CHORD_HOLD_MS) {
+          const chord = CHORDS[count - 1];
+          if (chord) selectChord(chord, indexTip.x, indexTip.y - 0.1);
+      }
+  };
+
+  const getChartNoteTarget = (note: ChartNote) => {
+      if (note.strum || !note.string || !note.fret) return { x: (FRETBOARD_X_START + FRETBOARD_X_END) / 2, y: FRETBOARD_Y_START };
+      const fretWidth = (FRETBOARD_X_END - FRETBOARD_X_START) / NUM_FRETS; const stringHeight = (FRETBOARD_Y_END - FRETBOARD_Y_START) / NUM_STRINGS;
+      return { x: FRETBOARD_X_END - (note.fret - 0.5) * fretWidth, y: FRETBOARD_Y_START + (note.string - 0.5) * stringHeight };
+  };
+
+  const reportChartResults = (results: HitResult[]) => {
+      const run = chartRunRef.current;
+      if (!run || results.length === 0) return;
+      results.forEach(result => {
+          const target = getChartNoteTarget(result.note.note);
+          lastGradeRef.current = { grade: result.grade, x: target.x, y: target.y, time: performance.now() };
+          if (result.points > 0) onScore?.(result.points);
+      });
+      onChartStats?.(getChartStats(run, lastGradeRef.current?.grade || null));
+  };
+
+  const judgeChartInput = (input: ChartInput) => {
+      const run = chartRunRef.current;
+      if (!run) return;
+      const result = judgeInput(run, performance.now(), input);
+      if (result) {
+          triggerHaptic(result.grade === 'PERFECT' ? [20, 20, 20] : 15);
+          reportChartResults([result]);
+      }
+  };
+
+  const updateChart = (ctx: CanvasRenderingContext2D) => {
+      const run = chartRunRef.current;
+      if (!run) return;
+      const now = performance.now();
+      reportChartResults(sweepMisses(run, now));
+
+      const w = ctx.canvas.width; const h = ctx.canvas.height;
+      const t = now - run.startTime;
+      const fretWidth = (FRETBOARD_X_END - FRETBOARD_X_START) / NUM_FRETS;
+      ctx.save();
+      run.notes.forEach(({ note, timeMs, grade }) => {
+          const until = timeMs - t;
+          if (grade || until > CHART_LOOKAHEAD_MS) return;
+          const target = getChartNoteTarget(note);
+          const progress = Math.min(1, 1 - until / CHART_LOOKAHEAD_MS);
+          const y = (CHART_SPAWN_Y + (target.y - CHART_SPAWN_Y) * progress) * h;
+          if (note.strum) {
+              ctx.fillStyle = "rgba(250, 204, 21, 0.85)"; ctx.shadowColor = "#facc15"; ctx.shadowBlur = 12;
+              ctx.fillRect(FRETBOARD_X_START * w, y - 5, (FRETBOARD_X_END - FRETBOARD_X_START) * w, 10);
+          } else {
+              const color = STRING_COLORS[(note.string || 1) - 1];
+              const r = fretWidth * w * 0.3;
+              ctx.fillStyle = color; ctx.shadowColor = color; ctx.shadowBlur = 12;
+              ctx.beginPath(); ctx.arc(target.x * w, y, r, 0, Math.PI * 2); ctx.fill();
+              // Landing marker on the fret cell once the note is close
+              if (until < 600) {
+                  ctx.shadowBlur = 0; ctx.strokeStyle = color; ctx.lineWidth = 3;
+                  ctx.beginPath(); ctx.arc(target.x * w, target.y * h, r * (1 + Math.max(0, until) / 600), 0, Math.PI * 2); ctx.stroke();
+              }
+              ctx.save(); ctx.translate(target.x * w, y); ctx.scale(-1, 1);
+              ctx.shadowBlur = 0; ctx.fillStyle = "#0f172a"; ctx.font = "bold 14px Inter"; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+              ctx.fillText(String(note.fret), 0, 0); ctx.restore();
+          }
+      });
+      ctx.restore();
+
+      const last = lastGradeRef.current;
+      if (last && now - last.time < 600) {
+          const label = GRADE_LABELS[last.grade];
+          drawGestureIndicator(label.text, last.x, last.y - 0.1 - (now - last.time) / 6000, label.color);
+      }
+  };
+
+  const releaseFret = (handIndex: number) => {
+      const cell = pressedCellsRef.current[handIndex];
+      if (!cell) return;
+      pressedCellsRef.current[handIndex] = null;
+      onGesture?.('GESTURE_RELEASE', { string: cell.string });
   };
 
-  const detectFretboardInteraction = (landmarks: any[], ctx: CanvasRenderingContext2D, vx: number, vy: number) => {
+  const detectFretboardInteraction = (landmarks: any[], ctx: CanvasRenderingContext2D, vx: number, vy: number, handIndex: number) => {
       const indexTip = landmarks[8]; const thumbTip = landmarks[4]; const w = ctx.canvas.width; const h = ctx.canvas.height;
       const wrist = landmarks[0]; const indexMCP = landmarks[5];
       const handScale = Math.hypot(wrist.x - indexMCP.x, wrist.y - indexMCP.y) || 0.1;
-      if (indexTip.x < FRETBOARD_X_START || indexTip.x > FRETBOARD_X_END || indexTip.y < FRETBOARD_Y_START || indexTip.y > FRETBOARD_Y_END) return;
+      if (indexTip.x < FRETBOARD_X_START || indexTip.x > FRETBOARD_X_END || indexTip.y < FRETBOARD_Y_START || indexTip.y > FRETBOARD_Y_END) { releaseFret(handIndex); return; }
       const velocity = Math.hypot(vx, vy); const STRUM_THRESHOLD = 0.5;
       if (velocity > STRUM_THRESHOLD) {
           const now = Date.now();
           if (now - lastStrumTime.current > 150) { 
-              onGesture?.('GESTURE_STRUM'); triggerHaptic([10, 30, 10]); lastStrumTime.current = now;
+              // Image Y grows downwards: moving down the screen is a down-strum (low E first)
+              const chord = activeChordRef.current;
+              onGesture?.('GESTURE_STRUM', { direction: vy > 0 ? 'DOWN' : 'UP', chord: chord?.name, frets: chord?.frets }); triggerHaptic([10, 30, 10]); lastStrumTime.current = now;
+              judgeChartInput('STRUM');
               drawGestureIndicator("STRUM!", indexTip.x, indexTip.y - 0.2, "#facc15");
               ctx.save(); ctx.strokeStyle = "rgba(255, 215, 0, 0.8)"; ctx.lineWidth = 12; ctx.lineCap = "round"; ctx.shadowColor = "#facc15"; ctx.shadowBlur = 25;
               ctx.beginPath(); ctx.moveTo(indexTip.x * w, FRETBOARD_Y_START * h); ctx.lineTo(indexTip.x * w, FRETBOARD_Y_END * h); ctx.stroke(); ctx.restore(); return; 
@@ -442,137 +933,54 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
       const fretWidth = totalWidth / NUM_FRETS; const stringHeight = totalHeight / NUM_STRINGS;
       const relativeX = (FRETBOARD_X_END - indexTip.x); const fretIndex = Math.floor(relativeX / fretWidth);
       const relativeY = (indexTip.y - FRETBOARD_Y_START); const stringIndex = Math.floor(relativeY / stringHeight);
-      if (fretIndex < 0 || fretIndex >= NUM_FRETS || stringIndex < 0 || stringIndex >= NUM_STRINGS) return;
+      if (fretIndex < 0 || fretIndex >= NUM_FRETS || stringIndex < 0 || stringIndex >= NUM_STRINGS) { releaseFret(handIndex); return; }
       const fretNum = fretIndex + 1; const stringNum = stringIndex + 1; 
       const pinchDist = Math.hypot(indexTip.x - thumbTip.x, indexTip.y - thumbTip.y);
-      const PRESS_THRESHOLD = 0.5 * handScale; 
+      const PRESS_THRESHOLD = thresholdsRef.current.press * handScale;
       const isPressed = pinchDist < PRESS_THRESHOLD;
       const cellX = FRETBOARD_X_END - ((fretIndex + 1) * fretWidth); const cellY = FRETBOARD_Y_START + (stringIndex * stringHeight);
       if (isPressed) {
           ctx.save(); ctx.fillStyle = "rgba(74, 222, 128, 0.5)"; ctx.shadowColor = "#4ade80"; ctx.shadowBlur = 20; ctx.fillRect(cellX * w, cellY * h, fretWidth * w, stringHeight * h);
           const stringY = cellY * h + (stringHeight * h / 2); ctx.strokeStyle = "#ffffff"; ctx.lineWidth = 4; ctx.beginPath(); ctx.moveTo(FRETBOARD_X_START * w, stringY); ctx.lineTo(FRETBOARD_X_END * w, stringY); ctx.stroke(); ctx.restore();
+          // Notes sustain while held: only pluck again when the finger lands on a new cell
+          const held = pressedCellsRef.current[handIndex];
+          const isNewCell = !held || held.string !== stringNum || held.fret !== fretNum;
           const now = Date.now();
-          if (now - lastNoteTime.current > 150) {
+          if (isNewCell && now - lastNoteTime.current > 80) {
               onGesture?.('GESTURE_PLAY_NOTE', { fret: fretNum, string: stringNum }); triggerHaptic(10); lastNoteTime.current = now;
+              pressedCellsRef.current[handIndex] = { string: stringNum, fret: fretNum };
+              judgeChartInput({ string: stringNum, fret: fretNum });
               drawGestureIndicator(`FRET ${fretNum}`, indexTip.x, indexTip.y - 0.15, "#4ade80");
           }
       } else {
+          releaseFret(handIndex);
           ctx.fillStyle = "rgba(255, 255, 255, 0.15)"; ctx.fillRect(cellX * w, cellY * h, fretWidth * w, stringHeight * h);
       }
   };
 
-  const detectClaspedHands = (hand1: any[], hand2: any[], ctx: CanvasRenderingContext2D) => {
-      if (!interactionRef?.current) return;
-      const wrist1 = hand1[0]; const wrist2 = hand2[0];
-      const dist = Math.hypot(wrist1.x - wrist2.x, wrist1.y - wrist2.y);
-      const centerX = (wrist1.x + wrist2.x) / 2; const centerY = (wrist1.y + wrist2.y) / 2;
-      
-      let approachSpeed = 0;
-      if (lastHandDistanceRef.current !== -1) {
-          approachSpeed = lastHandDistanceRef.current - dist;
-      }
-      lastHandDistanceRef.current = dist;
-      
-      if (levelId === DifficultyLevel.PAINTER) {
-          // STRICTER THRESHOLDS for explicit clap
-          const EDGE_MARGIN = 0.2; // 20% margin from edges
-          const isAtEdge = wrist1.y > (1.0 - EDGE_MARGIN) || wrist2.y > (1.0 - EDGE_MARGIN) || 
-                           wrist1.x < EDGE_MARGIN || wrist1.x > (1.0 - EDGE_MARGIN) || 
-                           wrist2.x < EDGE_MARGIN || wrist2.x > (1.0 - EDGE_MARGIN);
-          
-          const isAligned = Math.abs(wrist1.y - wrist2.y) < 0.1; // Vertical alignment
-          
-          // Must be moving towards each other fast and get very close
-          const IMPACT_VELOCITY = 0.04;
-          const IMPACT_DIST = 0.1;
-
-          if (dist < IMPACT_DIST && approachSpeed > IMPACT_VELOCITY && !isAtEdge && isAligned) {
-             const now = Date.now();
-             if (now - lastClapTime.current > 1500) {
-                 onGesture?.('RESET'); 
-                 interactionRef.current.isPainting = false; 
-                 isPinchingRef.current = false;
-                 
-                 triggerHaptic([80, 50, 80]); 
-                 lastClapTime.current = now;
-                 drawGestureIndicator("✨ ¡BORRADO!", centerX, centerY, "#ef4444");
-                 
-                 const w = ctx.canvas.width; const h = ctx.canvas.height; const x = centerX * w; const y = centerY * h;
-                 ctx.save(); 
-                 ctx.beginPath(); ctx.arc(x, y, 60, 0, Math.PI * 2); ctx.strokeStyle = "#ef4444"; ctx.lineWidth = 8; ctx.stroke();
-                 ctx.beginPath(); ctx.arc(x, y, 120, 0, Math.PI * 2); ctx.strokeStyle = "rgba(239, 68, 68, 0.5)"; ctx.lineWidth = 4; ctx.stroke(); 
-                 ctx.restore();
-             }
-          }
-          return;
-      }
-
-      if (dist < 0.25) {
-          if (levelId === DifficultyLevel.GARDEN) {
-              interactionRef.current.x = 1 - centerX; interactionRef.current.y = centerY;
-              isPlantingRef.current = true;
-              const now = Date.now();
-              if (now - lastPlantTime.current > 1500) {
-                 onGesture?.('GESTURE_PLANT'); triggerHaptic([50, 50, 200]); lastPlantTime.current = now;
-              }
-          }
-      } else {
-          isPlantingRef.current = false;
-      }
-  };
-
-  const detectOneHandGestures = (landmarks: any[], isPrimary: boolean, smoothedTips: { index: Point3D, middle: Point3D, ring: Point3D, thumb: Point3D, palm: Point3D } | null, frameCursors: PainterCursor[]) => {
+  const detectOneHandGestures = (landmarks: any[], handIndex: number, smoothedTips: { index: Point3D, middle: Point3D, ring: Point3D, thumb: Point3D, palm: Point3D } | null, frameCursors: PainterCursor[]) => {
     if (!interactionRef?.current) return;
+    const isPrimary = handIndex === 0;
     const wrist = landmarks[0];
     const indexTip = smoothedTips?.index || landmarks[8];
     const middleTip = smoothedTips?.middle || landmarks[12];
     const ringTip = smoothedTips?.ring || landmarks[16];
     const thumbTip = smoothedTips?.thumb || landmarks[4];
     const pinkyTip = landmarks[20];
-    const indexMCP = landmarks[5]; const middleMCP = landmarks[9]; const ringMCP = landmarks[13]; const pinkyMCP = landmarks[17];
+    const indexMCP = landmarks[5]; const middleMCP = landmarks[9];
     const dist = (p1: any, p2: any) => Math.hypot(p1.x - p2.x, p1.y - p2.y);
     const handScale = dist(wrist, indexMCP) || 0.1; 
     const isExtended = (tip: any, pip: any) => dist(tip, wrist) > dist(pip, wrist);
-    const isCurled = (tip: any, mcp: any) => dist(tip, wrist) < dist(mcp, wrist);
     const indexOut = isExtended(indexTip, landmarks[6]); 
 
-    if (levelId === DifficultyLevel.ARCADE) {
-        const thumbDistToIndexMCP = dist(thumbTip, indexMCP);
-        // Robust Finger Gun: Thumb must be away from index base
-        const isThumbExtended = thumbDistToIndexMCP > (0.5 * handScale);
-        
-        // Strict closure check using palm center if available
-        const palmCenter = smoothedTips?.palm || landmarks[0];
-        const isStrictlyClosed = (tip: any, pip: any) => {
-             const geometryFold = dist(tip, wrist) < dist(pip, wrist);
-             const tightCurl = dist(tip, palmCenter) < (1.2 * handScale);
-             return geometryFold && tightCurl;
-        };
-        
-        const middleClosed = isStrictlyClosed(middleTip, landmarks[10]);
-        const ringClosed = isStrictlyClosed(ringTip, landmarks[14]);
-        const pinkyClosed = isStrictlyClosed(pinkyTip, landmarks[18]);
-
-        const isFingerGun = indexOut && isThumbExtended && middleClosed && ringClosed && pinkyClosed;
-        
-        if (isFingerGun) {
-            if (!interactionRef.current.isPointing) { onGesture?.('GESTURE_SHOOT'); triggerHaptic([30, 50, 30]); }
-            interactionRef.current.isPointing = true; interactionRef.current.isGrabbing = false; 
-        } else {
-            interactionRef.current.isPointing = false;
-        }
-    } else {
-        interactionRef.current.isPointing = false;
-    }
-
     if (levelId === DifficultyLevel.PAINTER) {
         if (Date.now() - lastClapTime.current < 500) {
-            interactionRef.current.isPainting = false; isPinchingRef.current = false; return;
+            interactionRef.current.isPainting = false; isPinchingRef.current = false; fingerBrushesRef.current.clear(); return;
         }
         const pinchDist = dist(thumbTip, indexTip);
         
-        const PINCH_THRESHOLD_START = 0.08; 
-        const PINCH_THRESHOLD_END = 0.12;   
+        const PINCH_THRESHOLD_START = thresholdsRef.current.pinchStart;
+        const PINCH_THRESHOLD_END = thresholdsRef.current.pinchEnd;
         
         const minPinch = 0.01;
         const rawPressure = 1.0 - Math.min(1.0, Math.max(0, (pinchDist - minPinch) / (PINCH_THRESHOLD_START - minPinch)));
@@ -584,10 +992,67 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
             if (pinchDist < PINCH_THRESHOLD_START) isPinchingRef.current = true;
         }
 
-        const isOverPalette = indexTip.x < 0.11; 
+        const isOverPalette = indexTip.x < PALETTE_EDGE_X - 0.01; 
         isOverPaletteRef.current = isOverPalette;
+        const isMultiFinger = interactionRef.current.isMultiFinger;
+        const isThumbTucked = dist(thumbTip, middleMCP) < THUMB_TUCK_RATIO * handScale;
+
+        // Color wheel / eyedropper take over the primary hand until they are closed
+        if (colorWheelRef.current || eyedropperRef.current) {
+            if (isPrimary) {
+                if (colorWheelRef.current) updateColorWheel(indexTip, isPinchingRef.current);
+                else updateEyedropper(indexTip, isPinchingRef.current, isOverPalette);
+            }
+            interactionRef.current.isPainting = false; wasPaintingRef.current = false; fingerBrushesRef.current.clear();
+            return;
+        }
+
+        // Pending shape snap: pinch ✓ / ✕, or start another stroke to dismiss it
+        if (isPrimary && shapeOfferRef.current && isPinchingRef.current && !ignorePinchRef.current) {
+            const chip = getShapeOfferChips(shapeOfferRef.current.shape).find(c => Math.hypot(indexTip.x - c.x, indexTip.y - c.y) < SHAPE_CHIP_RADIUS * 1.5);
+            if (chip) {
+                if (chip.accept) {
+                    onGesture?.('SHAPE_SNAP', { points: shapeOfferRef.current.shape.points, from: shapeOfferRef.current.from });
+                    drawGestureIndicator("¡LISTO!", indexTip.x, indexTip.y, "#67e8f9");
+                    triggerHaptic([20, 30, 20]);
+                }
+                ignorePinchRef.current = true;
+                shapeOfferRef.current = null;
+            } else if (!isOverPalette) {
+                shapeOfferRef.current = null;
+            }
+        }
+        if (isPrimary && ignorePinchRef.current) {
+            if (isPinchingRef.current) { interactionRef.current.isPainting = false; wasPaintingRef.current = false; return; }
+            ignorePinchRef.current = false;
+        }
+
+        // Holding an open palm still opens the color wheel
+        if (isPrimary) {
+            const isOpenPalm = indexOut && isExtended(middleTip, landmarks[10]) && isExtended(ringTip, landmarks[14]) && isExtended(pinkyTip, landmarks[18]) && dist(thumbTip, indexMCP) > 0.5 * handScale;
+            const isStill = Math.hypot(interactionRef.current.velocityX, interactionRef.current.velocityY) < 0.6;
+            const now = Date.now();
+            if (isOpenPalm && isStill && !isPinchingRef.current && !isOverPalette && now - lastWheelToggleTime.current > 1000) {
+                if (!openPalmSinceRef.current) openPalmSinceRef.current = now;
+                const progress = (now - openPalmSinceRef.current) / OPEN_PALM_HOLD_MS;
+                if (progress >= 1) {
+                    openPalmSinceRef.current = 0; lastWheelToggleTime.current = now;
+                    const current = interactionRef.current.isMultiFinger ? interactionRef.current.painterColors.index : interactionRef.current.activeColor;
+                    colorWheelRef.current = { ...hexToHsv(current), dragging: null, wasPinching: false };
+                    triggerHaptic([20, 40, 20]);
+                } else {
+                    const palm = smoothedTips?.palm || landmarks[9];
+                    drawDwellRing(palm.x, palm.y, progress);
+                }
+            } else {
+                openPalmSinceRef.current = 0;
+            }
+        }
 
-        if (isPinchingRef.current && !isOverPalette) {
+        if (isMultiFinger) {
+            paintWithFingers(landmarks, handIndex, smoothedTips, isThumbTucked, frameCursors);
+            interactionRef.current.isPainting = frameCursors.length > 0; wasPaintingRef.current = false;
+        } else if (isPinchingRef.current && !isOverPalette) {
             interactionRef.current.isPainting = true;
             const vx = interactionRef.current.velocityX; const vy = interactionRef.current.velocityY;
             const speed = Math.hypot(vx, vy);
@@ -595,22 +1060,13 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
                 strokeStartTimeRef.current = performance.now();
                 brushPhysicsRef.current = { x: 1 - indexTip.x, y: indexTip.y };
             }
-            const minLerp = 0.08; const maxLerp = 0.25;
-            const speedFactor = Math.min(speed, 4.0) / 4.0;
-            const easedSpeed = 1 - Math.pow(1 - speedFactor, 2); 
-            const currentLerp = minLerp + (maxLerp - minLerp) * easedSpeed;
-            const targetX = 1 - indexTip.x; const targetY = indexTip.y;
-            brushPhysicsRef.current.x = lerp(brushPhysicsRef.current.x, targetX, currentLerp);
-            brushPhysicsRef.current.y = lerp(brushPhysicsRef.current.y, targetY, currentLerp);
-            const sizeMod = Math.max(0.2, Math.min(1.3, 1.3 - (speed * 0.25)));
-            const duration = performance.now() - strokeStartTimeRef.current;
-            const taperProgress = Math.min(1, duration / 150);
-            const startTaper = Math.sin(taperProgress * Math.PI / 2);
+            const sizeMod = followBrush(brushPhysicsRef.current, 1 - indexTip.x, indexTip.y, speed);
+            const startTaper = strokeStartTaper(strokeStartTimeRef.current);
             const pressureTaper = Math.pow(Math.max(0.1, rawPressure), 2);
             const finalSize = 1.0 * sizeMod * startTaper * pressureTaper;
             frameCursors.push({
                 id: 'index', x: brushPhysicsRef.current.x, y: brushPhysicsRef.current.y, z: indexTip.z,
-                vx: 0, vy: 0, color: interactionRef.current.activeColor, size: finalSize
+                vx: 0, vy: 0, color: interactionRef.current.activeColor, size: finalSize, pressure: pressureTaper, brush: interactionRef.current.brushType
             });
             wasPaintingRef.current = true;
         } else {
@@ -619,39 +1075,37 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
         }
     }
 
-    if (levelId === DifficultyLevel.GARDEN || levelId === DifficultyLevel.WALLBALL) {
-        const pinchDist = dist(thumbTip, indexTip);
-        
-        // --- GRAB TUNING ---
-        // Forgiving thresholds relative to hand scale for better hold
-        let grabT = 0.8 * handScale; 
-        let releaseT = 1.4 * handScale;
-        
-        if (levelId === DifficultyLevel.WALLBALL) {
-            grabT = 1.2 * handScale; 
-            releaseT = 2.0 * handScale;
-        }
-
-        if (interactionRef.current.isGrabbing) {
-            if (pinchDist > releaseT) {
-                interactionRef.current.isGrabbing = false;
-                onGesture?.('GESTURE_RELEASE');
-            }
-        } else {
-            if (pinchDist < grabT) {
-                interactionRef.current.isGrabbing = true;
-                onGesture?.('GESTURE_GRAB');
-                triggerHaptic(15); 
-            }
-        }
-    }
-
-    if (levelId === DifficultyLevel.WALLBALL) {
-        const speed = Math.hypot(interactionRef.current.velocityX, interactionRef.current.velocityY);
-        if (speed > 2.5) { 
-            if (Date.now() - lastGestureTime.current > 300) lastGestureTime.current = Date.now();
-        }
-    }
+  };
+  
+  // Each extended finger of a hand with the thumb tucked paints its own stroke, in its own color
+  const paintWithFingers = (landmarks: any[], handIndex: number, smoothedTips: { index: Point3D, middle: Point3D, ring: Point3D } | null, isPenDown: boolean, frameCursors: PainterCursor[]) => {
+      if (!interactionRef?.current) return;
+      const wrist = landmarks[0];
+      const brushes = fingerBrushesRef.current;
+      const now = performance.now();
+      PAINTER_FINGERS.forEach(({ finger, tip, pip }) => {
+          const id = `${handIndex}-${finger}`;
+          const fingerTip = smoothedTips?.[finger] || landmarks[tip];
+          const isExtended = Math.hypot(fingerTip.x - wrist.x, fingerTip.y - wrist.y) > Math.hypot(landmarks[pip].x - wrist.x, landmarks[pip].y - wrist.y);
+          if (!isPenDown || !isExtended || fingerTip.x < PALETTE_EDGE_X - 0.01) { brushes.delete(id); return; }
+          const targetX = 1 - fingerTip.x; const targetY = fingerTip.y;
+          let brush = brushes.get(id);
+          if (!brush) {
+              brush = { x: targetX, y: targetY, lastX: targetX, lastY: targetY, vx: 0, vy: 0, time: now, startedAt: now };
+              brushes.set(id, brush);
+          }
+          const dt = Math.max(0.001, (now - brush.time) / 1000);
+          const vAlpha = 0.3;
+          brush.vx = brush.vx * (1 - vAlpha) + ((targetX - brush.lastX) / dt) * vAlpha;
+          brush.vy = brush.vy * (1 - vAlpha) + ((targetY - brush.lastY) / dt) * vAlpha;
+          brush.lastX = targetX; brush.lastY = targetY; brush.time = now;
+          const sizeMod = followBrush(brush, targetX, targetY, Math.hypot(brush.vx, brush.vy));
+          frameCursors.push({
+              id, x: brush.x, y: brush.y, z: fingerTip.z, vx: brush.vx, vy: brush.vy,
+              color: interactionRef.current!.painterColors[finger], size: sizeMod * strokeStartTaper(brush.startedAt) * MULTI_FINGER_PRESSURE,
+              pressure: MULTI_FINGER_PRESSURE, brush: interactionRef.current!.brushType
+          });
+      });
   };
   
   const drawGestureIndicator = (text: string, x: number, y: number, color: string = "#00ffcc") => {
@@ -659,6 +1113,11 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
     ctx.save(); ctx.font = "bold 24px Inter, sans-serif"; ctx.fillStyle = color; ctx.shadowColor = "rgba(0,0,0,0.8)"; ctx.shadowBlur = 4;
     ctx.textAlign = "center"; ctx.textBaseline = "middle"; ctx.translate(x * canvas.width, y * canvas.height); ctx.scale(-1, 1); ctx.fillText(text, 0, 0); ctx.restore();
   }
+  const drawDwellRing = (x: number, y: number, progress: number) => {
+    const canvas = canvasRef.current; const ctx = canvas?.getContext('2d'); if (!ctx || !canvas) return;
+    ctx.save(); ctx.beginPath(); ctx.arc(x * canvas.width, y * canvas.height, 40, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.9)"; ctx.lineWidth = 6; ctx.lineCap = "round"; ctx.stroke(); ctx.restore();
+  };
   const drawPlantingFeedback = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
     const w = ctx.canvas.width; const h = ctx.canvas.height;
     ctx.save(); ctx.translate(x * w, y * h); const pulse = (Math.sin(Date.now() / 150) * 0.1) + 1.0;
@@ -668,8 +1127,28 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
     ctx.strokeStyle = "rgba(255, 255, 255, 0.9)"; ctx.lineWidth = 4; ctx.beginPath(); ctx.arc(0, 0, 30 * pulse, 0, Math.PI * 2); ctx.stroke(); ctx.restore();
     drawGestureIndicator("PLANTING", x, y - 0.15, "#e9d5ff");
   };
-  const drawPainterCursor = (ctx: CanvasRenderingContext2D, landmarks: any[], smoothedTips?: { index: Point3D }) => {
+  const drawPainterCursor = (ctx: CanvasRenderingContext2D, landmarks: any[], handIndex: number, smoothedTips?: { index: Point3D, middle: Point3D, ring: Point3D }) => {
       const w = ctx.canvas.width; const h = ctx.canvas.height;
+      if (eyedropperRef.current && handIndex === 0) {
+          // Loupe filled with the camera color under the fingertip
+          const tip = smoothedTips?.index || landmarks[8];
+          ctx.save(); ctx.beginPath(); ctx.arc(tip.x * w, tip.y * h - 40, 22, 0, 2 * Math.PI);
+          ctx.fillStyle = eyedropperRef.current.color || "transparent"; ctx.fill(); ctx.strokeStyle = "white"; ctx.lineWidth = 3; ctx.stroke();
+          ctx.beginPath(); ctx.arc(tip.x * w, tip.y * h, 4, 0, 2 * Math.PI); ctx.fillStyle = "white"; ctx.fill(); ctx.restore();
+          return;
+      }
+      if (interactionRef?.current?.isMultiFinger) {
+          // One ring per finger, filled while that finger is painting
+          PAINTER_FINGERS.forEach(({ finger, tip }) => {
+              const p = smoothedTips?.[finger] || landmarks[tip];
+              const color = interactionRef.current!.painterColors[finger];
+              ctx.save(); ctx.beginPath(); ctx.arc(p.x * w, p.y * h, 9, 0, 2 * Math.PI);
+              if (fingerBrushesRef.current.has(`${handIndex}-${finger}`)) { ctx.fillStyle = color; ctx.fill(); ctx.strokeStyle = "white"; }
+              else { ctx.strokeStyle = color; }
+              ctx.lineWidth = 3; ctx.stroke(); ctx.restore();
+          });
+          return;
+      }
       const indexTip = smoothedTips?.index || landmarks[8];
       ctx.save();
       const color = interactionRef?.current?.activeColor || "#fff"; const isPainting = interactionRef?.current?.isPainting;
@@ -691,8 +1170,38 @@ export const HandScanner: React.FC<HandScannerProps> = ({ isActive, videoElement
       }
       ctx.restore();
   };
-  const drawSkeleton = (ctx: CanvasRenderingContext2D, landmarks: any[], smoothedTips?: { index: Point3D, middle: Point3D, ring: Point3D }) => {
+  const drawSkeleton = (ctx: CanvasRenderingContext2D, landmarks: any[], smoothedTips?: { index: Point3D, middle: Point3D, ring: Point3D }, interaction = interactionRef?.current, boneColor = "rgba(255, 255, 255, 0.4)") => {
     const w = ctx.canvas.width; const h = ctx.canvas.height;
-    const isGrabbing = interactionRef?.current?.isGrabbing; const isPointing = interactionRef?.current?.isPointing; const isPlanting = isPlantingRef.current;
-    ctx.lineWidth = isPointing ? 4 : 3; ctx.strokeStyle = isPointing ? "rgba(255, 50, 50, 0.6)" : "rgba(255, 255, 255, 0.4)"; ctx.lineCap = "round";
-    const connect = (idx1: number, idx2: number) => { ctx.beginPath(); ctx.moveTo(landmarks[idx1].x * w, landmarks[idx1].y * h); ctx.lineTo(landmarks[idx2].x * w, landmarks[idx2].y * h
\ No newline at end of file
+    const isGrabbing = interaction?.isGrabbing; const isPointing = interaction?.isPointing; const isPlanting = isPlantingRef.current && interaction === interactionRef?.current;
+    ctx.lineWidth = isPointing ? 4 : 3; ctx.strokeStyle = isPointing ? "rgba(255, 50, 50, 0.6)" : boneColor; ctx.lineCap = "round";
+    const connect = (idx1: number, idx2: number) => { ctx.beginPath(); ctx.moveTo(landmarks[idx1].x * w, landmarks[idx1].y * h); ctx.lineTo(landmarks[idx2].x * w, landmarks[idx2].y * h); ctx.stroke(); };
+    HAND_CONNECTIONS.forEach(([a, b]) => connect(a, b));
+    ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+    landmarks.forEach(p => { ctx.beginPath(); ctx.arc(p.x * w, p.y * h, 3, 0, 2 * Math.PI); ctx.fill(); });
+    if (smoothedTips) {
+        const tipColor = isPlanting ? "#c084fc" : isGrabbing ? "#4ade80" : isPointing ? "#ef4444" : "#38bdf8";
+        ctx.beginPath(); ctx.arc(smoothedTips.index.x * w, smoothedTips.index.y * h, isGrabbing ? 14 : 10, 0, 2 * Math.PI);
+        ctx.strokeStyle = tipColor; ctx.lineWidth = 3; ctx.stroke();
+    }
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none object-cover"
+        style={{ transform: 'scaleX(-1)' }}
+      />
+      {isActive && !modelLoaded && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/40 text-xs text-white/80 font-mono uppercase tracking-wider pointer-events-none">
+          Cargando IA de visión...
+        </div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 p-3 text-center text-xs text-rose-300 pointer-events-none">
+          {error}
+        </div>
+      )}
+    </>
+  );
+};
@@ -41,6 +41,13 @@ export const LEVELS: LevelConfig[] = [
     description: 'Toca Música. Pellizca el diapasón virtual para crear melodías.',
     systemInstruction: `You are a Music Teacher interacting in Spanish. Guide the user's rhythm.`,
     color: 'bg-indigo-600'
+  },
+  {
+    id: DifficultyLevel.DODGE,
+    title: 'Esquiva',
+    description: '¡Muévete! Agáchate, inclínate o salta para esquivar los obstáculos. Usa todo el cuerpo.',
+    systemInstruction: `You are a PE Teacher interacting in Spanish. Cheer the user on to duck, lean and jump, and keep them moving.`,
+    color: 'bg-lime-600'
   }
 ];
 
@@ -62,6 +69,7 @@ export const LevelSelector: React.FC<LevelSelectorProps> = ({ onSelect }) => {
             </span>
             {level.id === DifficultyLevel.GUITAR ? 'Instrumento Musical' : 
              level.id === DifficultyLevel.WALLBALL ? 'Deporte Físico' :
+             level.id === DifficultyLevel.DODGE ? 'Cuerpo Entero' :
              level.id === DifficultyLevel.PAINTER ? 'Creatividad' :
              level.id === DifficultyLevel.ARCADE ? 'Disparos' : 'Relajación'}
           </div>
@@ -1,15 +1,65 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { LevelConfig, GardenEvent, GardenInteractionState, DifficultyLevel } from '../types';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { LevelConfig, GardenEvent, GardenInteractionState, DifficultyLevel, SongChart, ChartStats, GameStatus, GardenDocument, SavedFlower, PlantSpecies, PaintHistory, ColorPalette, PaintSymmetry, SymmetryMode, CustomGesture, CalibrationProfile, BodyInteractionState, NetStatus } from '../types';
 import { useLocalSensors } from '../hooks/useLocalSensors';
+import { useGeminiLive } from '../hooks/useGeminiLive';
 import { GardenScene } from './GardenScene';
 import { HandScanner } from './HandScanner';
+import { AudioVisualizer } from './AudioVisualizer';
+import { GardenLibrary } from './GardenLibrary';
+import { PaletteEditor } from './PaletteEditor';
+import { GestureTrainer } from './GestureTrainer';
+import { PlayerProfiles } from './PlayerProfiles';
+import { CalibrationWizard } from './CalibrationWizard';
+import { BUILT_IN_CHARTS } from '../data/charts';
+import { parseSongChart } from '../utils/rhythmGame';
+import { createGardenDocument, deleteGarden, saveGarden } from '../utils/gardenStorage';
+import { PLANT_SPECIES, PLANT_SPECIES_IDS } from '../utils/plants';
+import { createPaintHistory, MAX_SYMMETRY_FOLDS, MIN_SYMMETRY_FOLDS } from '../utils/paintHistory';
+import { createStrokeDocument, strokesToSvg } from '../utils/strokeExport';
+import { downloadBlob } from '../utils/download';
+import { createPalette, loadActivePaletteId, loadPalettes, saveActivePaletteId, savePalettes } from '../utils/paletteStorage';
+import { loadCustomGestures, saveCustomGestures } from '../utils/customGestureStorage';
+import { Landmark } from '../utils/gestures';
+import { createInteractionState } from '../utils/handMotion';
+import { createBodyState } from '../utils/bodyMotion';
+import { BodyScanner } from './BodyScanner';
+import { FaceScanner } from './FaceScanner';
+import { hasFaceGestures } from '../data/faceGestures';
+import { PLAYER_COLORS, PLAYER_NAMES, SPLIT_LEVELS } from '../utils/players';
+import { NET_LEVELS, NetSession, createNetSession, isSharedEvent } from '../utils/netSession';
+import { NetPanel } from './NetPanel';
+import { TraceRecorder, TraceReplay, createTraceRecorder, createTraceReplay, parseHandTrace } from '../utils/handTrace';
+import { createCalibrationProfile, loadActivePlayerId, loadCalibrationProfiles, saveActivePlayerId, saveCalibrationProfiles } from '../utils/calibrationStorage';
+import { CanvasRecorder, createCompositeCanvas, drawComposite, isRecordingSupported, startCompositeRecording } from '../utils/canvasRecorder';
 
 interface LiveSessionProps {
   level: LevelConfig;
   onExit: () => void;
 }
 
+interface TranscriptEntry {
+  text: string;
+  isUser: boolean;
+}
+
+const SYMMETRY_MODES: [SymmetryMode, string, string][] = [
+  ['NONE', '✖️', 'Sin simetría'],
+  ['HORIZONTAL', '↔️', 'Espejo izquierda-derecha'],
+  ['VERTICAL', '↕️', 'Espejo arriba-abajo'],
+  ['BOTH', '✳️', 'Cuatro cuadrantes'],
+  ['RADIAL', '🌀', 'Radial'],
+  ['KALEIDOSCOPE', '❄️', 'Caleidoscopio']
+];
+
+// Max transcript bubbles kept on screen for the AI companion
+const MAX_TRANSCRIPT_ENTRIES = 6;
+// Painter time-lapse length, and how long the final picture stays in an exported video
+const TIMELAPSE_DURATION_MS = 10000;
+const TIMELAPSE_TAIL_MS = 1500;
+// Custom gestures stay off while a new one is being taught (stable reference for HandScanner)
+const NO_CUSTOM_GESTURES: CustomGesture[] = [];
+
 export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
   // Use a callback ref to ensure we capture the video element when it mounts
   const [videoNode, setVideoNode] = useState<HTMLVideoElement | null>(null);
@@ -19,31 +69,187 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
   
   // Game State
   const [score, setScore] = useState(0);
+  const [gameStatus, setGameStatus] = useState<GameStatus | null>(null);
+
+  // Guitar rhythm mode
+  const [songChart, setSongChart] = useState<SongChart | null>(null);
+  const [chartStats, setChartStats] = useState<ChartStats | null>(null);
+  const [chartError, setChartError] = useState<string | null>(null);
   
   // State to hold both the event type and its data payload
   const [activeEventData, setActiveEventData] = useState<{type: GardenEvent, payload?: any} | null>(null);
 
   // Shared Mutable State for high-frequency updates (Shared between HandScanner and GardenScene)
-  const interactionRef = useRef<GardenInteractionState>({
-    x: 0.5,
-    y: 0.5,
-    z: 0,
-    palmX: 0.5,
-    palmY: 0.5,
-    palmZ: 0,
-    isGrabbing: false,
-    isPointing: false,
-    isHovering: false,
-    isPainting: false,
-    brushSize: 1,
-    activeColor: '#ef4444', 
-    painterColors: { index: '#ef4444', middle: '#3b82f6', ring: '#eab308' }, // Default colors
-    cursors: [],
-    velocityX: 0,
-    velocityY: 0,
-    velocityZ: 0
-  });
+  const interactionRef = useRef<GardenInteractionState>(createInteractionState());
+  // Full-body tracking is opt-in: a second model on every frame
+  const bodyRef = useRef<BodyInteractionState>(createBodyState());
+  const [isBodyTracking, setIsBodyTracking] = useState(false);
+  // Face expressions as input (opt-in, for players with limited hand mobility)
+  const [isFaceTracking, setIsFaceTracking] = useState(false);
+  // Local two-player split mode (Frontón / Arcade): each half of the screen drives its own pointer
+  const [isSplitMode, setIsSplitMode] = useState(false);
+  const player1Ref = useRef<GardenInteractionState>(createInteractionState());
+  const player2Ref = useRef<GardenInteractionState>(createInteractionState());
+  const playerRefs = useMemo(() => [player1Ref, player2Ref], []);
+  const [playerScores, setPlayerScores] = useState([0, 0]);
+  // Networked play with another browser (Garden / Painter / Frontón). GardenScene drains the session every frame
+  const netRef = useRef<NetSession | null>(null);
+  const [netStatus, setNetStatus] = useState<NetStatus>('offline');
+  const [netError, setNetError] = useState<string | null>(null);
+  const [isNetPanelOpen, setIsNetPanelOpen] = useState(false);
   
+  // Painter stroke history + layers. GardenScene records into it; the HUD re-renders on change.
+  const paintHistoryRef = useRef<PaintHistory>(createPaintHistory());
+  const [, setPaintHistoryVersion] = useState(0);
+  const handlePaintHistoryChange = useCallback(() => setPaintHistoryVersion(v => v + 1), []);
+
+  const updatePaintLayer = (index: number, changes: Partial<PaintHistory['layers'][number]>) => {
+      const history = paintHistoryRef.current;
+      history.layers[index] = { ...history.layers[index], ...changes };
+      handlePaintHistoryChange();
+  };
+
+  // Multi-finger painting: mirrored in state only so the toggle re-renders
+  const [isMultiFinger, setIsMultiFinger] = useState(false);
+  const toggleMultiFinger = () => {
+      const next = !interactionRef.current.isMultiFinger;
+      interactionRef.current.isMultiFinger = next;
+      setIsMultiFinger(next);
+  };
+
+  // Symmetry: also mirrored in state for the panel; new strokes copy it from the ref
+  const [symmetry, setSymmetry] = useState<PaintSymmetry>({ mode: 'NONE', folds: 6 });
+  const updateSymmetry = (changes: Partial<PaintSymmetry>) => {
+      const next = { ...interactionRef.current.symmetry, ...changes };
+      next.folds = Math.min(MAX_SYMMETRY_FOLDS, Math.max(MIN_SYMMETRY_FOLDS, next.folds));
+      interactionRef.current.symmetry = next;
+      setSymmetry(next);
+  };
+
+  // Painter palettes: presets + the teacher's own, persisted in localStorage
+  const [palettes, setPalettes] = useState<ColorPalette[]>(loadPalettes);
+  const [activePaletteId, setActivePaletteId] = useState<string>(loadActivePaletteId);
+  const activePalette = palettes.find(p => p.id === activePaletteId) || palettes[0];
+
+  const updatePalettes = (next: ColorPalette[]) => {
+      setPalettes(next);
+      savePalettes(next);
+  };
+
+  const selectPalette = (id: string) => {
+      setActivePaletteId(id);
+      saveActivePaletteId(id);
+  };
+
+  const handleCreatePalette = () => {
+      const palette = createPalette(`${activePalette.name} (copia)`, activePalette.colors);
+      updatePalettes([...palettes, palette]);
+      selectPalette(palette.id);
+  };
+
+  const handleDeletePalette = (id: string) => {
+      updatePalettes(palettes.filter(p => p.id !== id));
+      if (id === activePaletteId) selectPalette(palettes[0].id);
+  };
+
+  // Custom gestures taught by the user, persisted in localStorage
+  const [customGestures, setCustomGestures] = useState<CustomGesture[]>(loadCustomGestures);
+  const [isTrainerOpen, setIsTrainerOpen] = useState(false);
+  const handLandmarksRef = useRef<Landmark[] | null>(null);
+
+  const updateCustomGestures = (next: CustomGesture[]) => {
+      setCustomGestures(next);
+      saveCustomGestures(next);
+  };
+
+  // Hand-tracking traces: record the raw landmarks to JSON, or play a recorded one instead of the camera
+  const traceRecorderRef = useRef<TraceRecorder | null>(null);
+  const [isTraceRecording, setIsTraceRecording] = useState(false);
+  const [traceReplay, setTraceReplay] = useState<TraceReplay | null>(null);
+  const [traceError, setTraceError] = useState<string | null>(null);
+
+  const handleTraceLandmarks = useCallback((now: number, landmarks: Landmark[][]) => traceRecorderRef.current?.record(now, landmarks), []);
+
+  const toggleTraceRecording = () => {
+      const recorder = traceRecorderRef.current;
+      if (recorder) {
+          traceRecorderRef.current = null;
+          setIsTraceRecording(false);
+          downloadBlob(new Blob([JSON.stringify(recorder.finish())], { type: 'application/json' }), `divervisiones-${level.id.toLowerCase()}-${Date.now()}.trace.json`);
+      } else {
+          traceRecorderRef.current = createTraceRecorder(level.id, videoNode?.videoWidth || 640, videoNode?.videoHeight || 480);
+          setIsTraceRecording(true);
+      }
+  };
+
+  const handleTraceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setTraceReplay(createTraceReplay(parseHandTrace(JSON.parse(await file.text()))));
+          setTraceError(null);
+      } catch (err: any) {
+          setTraceError("Archivo de traza inválido.");
+      }
+  };
+
+  // The camera takes over again once the replay is over
+  useEffect(() => {
+      if (!traceReplay) return;
+      const timer = setTimeout(() => setTraceReplay(null), traceReplay.durationMs + 500);
+      return () => clearTimeout(timer);
+  }, [traceReplay]);
+
+  // Player calibration profiles: measured before the game, persisted in localStorage
+  const [players, setPlayers] = useState<CalibrationProfile[]>(loadCalibrationProfiles);
+  const [activePlayerId, setActivePlayerId] = useState<string>(loadActivePlayerId);
+  const [calibrationTarget, setCalibrationTarget] = useState<{ name: string, profileId?: string } | null>(null);
+  const activePlayer = players.find(p => p.id === activePlayerId) || null;
+
+  const updatePlayers = (next: CalibrationProfile[]) => {
+      setPlayers(next);
+      saveCalibrationProfiles(next);
+  };
+
+  const selectPlayer = (id: string) => {
+      setActivePlayerId(id);
+      saveActivePlayerId(id);
+  };
+
+  const handleCalibrationComplete = (measurements: Omit<CalibrationProfile, 'id' | 'name' | 'updatedAt'>) => {
+      if (!calibrationTarget) return;
+      const existing = players.find(p => p.id === calibrationTarget.profileId);
+      const profile = existing
+          ? { ...existing, ...measurements, updatedAt: Date.now() }
+          : createCalibrationProfile(calibrationTarget.name, measurements);
+      updatePlayers(existing ? players.map(p => p.id === profile.id ? profile : p) : [...players, profile]);
+      selectPlayer(profile.id);
+      setCalibrationTarget(null);
+  };
+
+  const handleDeletePlayer = (id: string) => {
+      updatePlayers(players.filter(p => p.id !== id));
+      if (id === activePlayerId) selectPlayer('');
+  };
+
+  const selectPaintLayer = (index: number) => {
+      paintHistoryRef.current.activeLayer = index;
+      handlePaintHistoryChange();
+  };
+
+  // Vector export: only the recorded strokes, without the camera background
+  const handleExportStrokes = useCallback((format: 'svg' | 'json') => {
+      const doc = createStrokeDocument(paintHistoryRef.current, window.innerWidth / window.innerHeight);
+      if (doc.strokes.length === 0) return;
+      const name = `divervisiones-art-${Date.now()}`;
+      if (format === 'svg') {
+          downloadBlob(new Blob([strokesToSvg(doc)], { type: 'image/svg+xml' }), `${name}.svg`);
+      } else {
+          downloadBlob(new Blob([JSON.stringify(doc)], { type: 'application/json' }), `${name}.strokes.json`);
+      }
+  }, []);
+
   // Snapshot functionality
   const handleSaveSnapshot = useCallback(async () => {
       if (!videoNode) return;
@@ -51,50 +257,246 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
       const glCanvas = document.querySelector('.garden-canvas') as HTMLCanvasElement;
       if (!glCanvas) return;
 
-      const canvas = document.createElement('canvas');
-      canvas.width = videoNode.videoWidth || 640;
-      canvas.height = videoNode.videoHeight || 480;
+      const canvas = createCompositeCanvas(videoNode);
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
-      // 1. Draw Video (Mirrored to match user view)
-      ctx.save();
-      ctx.scale(-1, 1);
-      ctx.drawImage(videoNode, -canvas.width, 0, canvas.width, canvas.height);
-      ctx.restore();
-
-      // 2. Draw Paint/3D
-      // The 3D canvas corresponds to the screen view, so we draw it directly.
-      ctx.drawImage(glCanvas, 0, 0, canvas.width, canvas.height);
+      // Video (mirrored to match user view) + Paint/3D
+      drawComposite(ctx, videoNode, glCanvas);
 
-      // 3. Download
       const link = document.createElement('a');
       link.download = `divervisiones-art-${Date.now()}.png`;
       link.href = canvas.toDataURL('image/png');
       link.click();
   }, [videoNode]);
-  
+
+  // --- Painter video recording (live session or time-lapse) ---
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const recordingModeRef = useRef<'SESSION' | 'TIMELAPSE' | null>(null);
+  const [recordingMode, setRecordingMode] = useState<'SESSION' | 'TIMELAPSE' | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const startRecording = useCallback((mode: 'SESSION' | 'TIMELAPSE') => {
+      const glCanvas = document.querySelector('.garden-canvas') as HTMLCanvasElement;
+      if (!glCanvas || recorderRef.current || !isRecordingSupported()) return false;
+      recorderRef.current = startCompositeRecording(videoNode, glCanvas);
+      recordingModeRef.current = mode;
+      setRecordingMode(mode);
+      return true;
+  }, [videoNode]);
+
+  const stopRecording = useCallback(async (filename: string | null) => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorderRef.current = null;
+      recordingModeRef.current = null;
+      setRecordingMode(null);
+      const blob = await recorder.stop();
+      if (filename && blob.size > 0) downloadBlob(blob, filename);
+  }, []);
+
+  // Stop without saving if the player leaves mid-recording
+  useEffect(() => () => { recorderRef.current?.stop(); }, []);
+
+  const handleToggleSessionRecording = useCallback(() => {
+      if (recordingModeRef.current === 'SESSION') stopRecording(`divervisiones-sesion-${Date.now()}.webm`);
+      else startRecording('SESSION');
+  }, [startRecording, stopRecording]);
+
+  // GardenScene keeps this callback from mount: everything it needs lives in refs
+  const handleTimelapseEnd = useCallback(() => {
+      setIsReplaying(false);
+      if (recordingModeRef.current === 'TIMELAPSE') {
+          setTimeout(() => stopRecording(`divervisiones-timelapse-${Date.now()}.webm`), TIMELAPSE_TAIL_MS);
+      }
+  }, [stopRecording]);
+
   const handleClearCanvas = useCallback(() => {
+      if (isSharedEvent(level.id, 'RESET')) netRef.current?.send({ kind: 'event', event: 'RESET' });
       setActiveEventData({ type: 'RESET' });
       setTimeout(() => setActiveEventData(null), 500);
+  }, [level.id]);
+
+  // --- Garden persistence ---
+  // The active document lives in a ref: GardenScene's render loop keeps the autosave callback from mount.
+  const activeGardenRef = useRef<GardenDocument | null>(null);
+  const gardenNameRef = useRef('');
+  const [activeGardenId, setActiveGardenId] = useState<string | null>(null);
+  const [gardenName, setGardenName] = useState('');
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [plantSpecies, setPlantSpecies] = useState<PlantSpecies | 'RANDOM'>('RANDOM');
+
+  const setActiveGarden = useCallback((garden: GardenDocument | null) => {
+      activeGardenRef.current = garden;
+      gardenNameRef.current = garden ? garden.name : '';
+      setActiveGardenId(garden ? garden.id : null);
+      setGardenName(gardenNameRef.current);
   }, []);
 
-  const handleGardenEvent = useCallback((event: GardenEvent, data?: any) => {
+  const persistGarden = useCallback((garden: GardenDocument) => {
+      saveGarden(garden)
+        .then(() => setLibraryVersion(v => v + 1))
+        .catch(err => console.error("Garden autosave failed", err));
+  }, []);
+
+  const handleGardenChange = useCallback((flowers: SavedFlower[]) => {
+      let garden = activeGardenRef.current;
+      if (!garden) {
+          if (flowers.length === 0) return; // Nothing planted yet
+          garden = createGardenDocument(gardenNameRef.current || `Jardín ${new Date().toLocaleString()}`);
+          setActiveGardenId(garden.id);
+      }
+      activeGardenRef.current = { ...garden, flowers, updatedAt: Date.now() };
+      persistGarden(activeGardenRef.current);
+  }, [persistGarden]);
+
+  const handleRenameGarden = useCallback((name: string) => {
+      gardenNameRef.current = name;
+      setGardenName(name);
+      if (activeGardenRef.current && name.trim()) {
+          activeGardenRef.current = { ...activeGardenRef.current, name };
+          persistGarden(activeGardenRef.current);
+      }
+  }, [persistGarden]);
+
+  const handleLoadGarden = useCallback((garden: GardenDocument) => {
+      setActiveGarden(garden);
+      setActiveEventData({ type: 'LOAD_GARDEN', payload: garden });
+      setTimeout(() => setActiveEventData(null), 500);
+  }, [setActiveGarden]);
+
+  const handleImportGarden = useCallback((garden: GardenDocument) => {
+      // Imported files get a fresh id so they never overwrite a local garden
+      const imported = { ...garden, id: createGardenDocument(garden.name).id };
+      persistGarden(imported);
+      handleLoadGarden(imported);
+  }, [persistGarden, handleLoadGarden]);
+
+  const handleDeleteGarden = useCallback((id: string) => {
+      if (activeGardenRef.current?.id === id) setActiveGarden(null);
+      deleteGarden(id)
+        .then(() => setLibraryVersion(v => v + 1))
+        .catch(err => console.error("Garden delete failed", err));
+  }, [setActiveGarden]);
+
+  const handleRestart = useCallback(() => {
+      setScore(0);
+      setPlayerScores([0, 0]);
+      handleClearCanvas();
+  }, [handleClearCanvas]);
+
+  // Runs an event locally, whether it came from this player or from the network
+  const applyGardenEvent = useCallback((event: GardenEvent, data?: any) => {
     if (event === 'SAVE_SNAPSHOT') {
         handleSaveSnapshot();
     }
+    if (event === 'RESET' && level.id === DifficultyLevel.GARDEN) {
+        // Clearing starts a new garden; the previous one stays in the library
+        setActiveGarden(null);
+    }
     setActiveEventData({ type: event, payload: data });
     setTimeout(() => setActiveEventData(null), 1000);
-  }, [handleSaveSnapshot]);
+  }, [handleSaveSnapshot, level.id, setActiveGarden]);
+
+  // The session outlives renders: it reaches the latest handler through a ref
+  const applyGardenEventRef = useRef(applyGardenEvent);
+  applyGardenEventRef.current = applyGardenEvent;
+
+  const handleGardenEvent = useCallback((event: GardenEvent, data?: any) => {
+    if (isSharedEvent(level.id, event)) netRef.current?.send({ kind: 'event', event, payload: data });
+    applyGardenEvent(event, data);
+  }, [applyGardenEvent, level.id]);
+
+  const connectNet = (url: string, room: string) => {
+    netRef.current?.close();
+    netRef.current = createNetSession({
+      url, room, level: level.id,
+      onStatus: (status, error) => { setNetStatus(status); setNetError(error || null); },
+      onEvent: (event, payload) => applyGardenEventRef.current(event, payload)
+    });
+  };
+
+  const disconnectNet = () => {
+    netRef.current?.close();
+    netRef.current = null;
+  };
+
+  useEffect(() => () => netRef.current?.close(), []);
+
+  const handleTimelapse = useCallback((exportVideo: boolean) => {
+      if (paintHistoryRef.current.strokes.length === 0 || recordingModeRef.current) return;
+      if (exportVideo && !startRecording('TIMELAPSE')) return;
+      setIsReplaying(true);
+      handleGardenEvent('TIMELAPSE', { durationMs: TIMELAPSE_DURATION_MS });
+  }, [handleGardenEvent, startRecording]);
   
-  const handleScore = useCallback((points: number) => {
+  const handleScore = useCallback((points: number, player?: number) => {
+    if (player !== undefined) setPlayerScores(prev => prev.map((value, i) => i === player ? value + points : value));
     setScore(prev => prev + points);
   }, []);
 
+  const startChart = useCallback((chart: SongChart | null) => {
+    setScore(0);
+    setChartStats(null);
+    setChartError(null);
+    // Always a fresh object so picking the same song again restarts it
+    setSongChart(chart ? { ...chart } : null);
+  }, []);
+
+  const handleChartFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let data: unknown;
+    try { data = JSON.parse(await file.text()); } catch (err) { setChartError("Archivo de canción inválido"); return; }
+    // parseSongChart explains what is wrong with the chart, in Spanish
+    try { startChart(parseSongChart(data)); } catch (err: any) { setChartError(err.message); }
+  }, [startChart]);
+
   const { startSensors, stopSensors, isActive } = useLocalSensors({
     onGardenEvent: handleGardenEvent
   });
 
+  // --- AI Companion (Gemini Live) ---
+  // Optional: without an API key the game runs fully offline on local sensors.
+  const hasApiKey = Boolean(process.env.API_KEY);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+
+  const handleTranscript = useCallback((text: string, isUser: boolean) => {
+    setTranscript(prev => {
+      const last = prev[prev.length - 1];
+      // Streaming transcription arrives in chunks: merge consecutive chunks of the same speaker
+      if (last && last.isUser === isUser) {
+        return [...prev.slice(0, -1), { text: last.text + text, isUser }];
+      }
+      return [...prev, { text, isUser }].slice(-MAX_TRANSCRIPT_ENTRIES);
+    });
+  }, []);
+
+  const {
+    connect: connectCompanion,
+    disconnect: disconnectCompanion,
+    connectionState: companionState,
+    isTalking: isCompanionTalking,
+    errorMessage: companionError
+  } = useGeminiLive({
+    systemInstruction: level.systemInstruction,
+    onTranscript: handleTranscript,
+    onGardenEvent: handleGardenEvent
+  });
+
+  const isCompanionOn = companionState === 'connected' || companionState === 'connecting';
+
+  const toggleCompanion = () => {
+    if (!hasApiKey || !videoNode) return;
+    if (isCompanionOn) {
+      disconnectCompanion();
+    } else {
+      setTranscript([]);
+      connectCompanion(videoNode);
+    }
+  };
+
   // Start camera on mount
   useEffect(() => {
     let stream: MediaStream | null = null;
@@ -125,12 +527,15 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
   const toggleSession = () => {
     if (isActive) {
       stopSensors();
+      disconnectCompanion();
     } else {
       startSensors();
     }
   };
 
   const isPainter = level.id === DifficultyLevel.PAINTER;
+  const isBodyScannerOn = isBodyTracking || level.id === DifficultyLevel.DODGE; // Esquiva is played with the body
+  const isSplit = isSplitMode && SPLIT_LEVELS.includes(level.id);
 
   // Dynamic Instructions based on Game Mode (Spanish)
   const renderInstructions = () => {
@@ -140,9 +545,17 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                 <>
                  <div className="grid grid-cols-[20px_1fr] gap-1">
                     <span>👇</span> <span><b>JUNTAR MANOS</b>: Plantar</span>
+                    <span>🌱</span> <span><b>PALETA</b>: Elegir Especie</span>
                     <span>✊</span> <span><b>PELLIZCAR</b>: Mover Flor</span>
                     <span>👋</span> <span><b>DESLIZAR</b>: Rotar Cámara</span>
                     <span>☝️</span> <span><b>SUBIR MANOS</b>: Vista Aérea</span>
+                    {isFaceTracking && (
+                      <>
+                        <span>😊</span> <span><b>SONREÍR</b>: Sol · <b>BOCA ABIERTA</b>: Florecer</span>
+                        <span>🤨</span> <span><b>CEJAS</b>: Viento · <b>OJOS CERRADOS</b>: Noche</span>
+                        <span>↔️</span> <span><b>INCLINAR CABEZA</b>: Rotar Cámara</span>
+                      </>
+                    )}
                  </div>
                 </>
             );
@@ -151,7 +564,9 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                 <>
                  <div className="grid grid-cols-[20px_1fr] gap-1">
                     <span>👆</span> <span><b>DEDO ÍNDICE</b>: Apuntar</span>
-                    <span>💥</span> <span><b>DISPARAR</b>: Destruir</span>
+                    <span>💥</span> <span><b>PISTOLA</b>: Disparar (mantén para ráfaga)</span>
+                    <span>🛡️</span> <span><b>DEFENDER</b>: Que no te alcancen</span>
+                    {isSplit && <><span>👥</span> <span><b>2 JUGADORES</b>: Cada uno en su mitad, gana quien más derribe</span></>}
                  </div>
                 </>
             );
@@ -161,6 +576,20 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                  <div className="grid grid-cols-[20px_1fr] gap-1">
                     <span>👋</span> <span><b>GOLPEAR</b>: Pelota</span>
                     <span>🎯</span> <span><b>ACERTAR</b>: Dianas</span>
+                    {isSplit && <><span>👥</span> <span><b>2 JUGADORES</b>: Golpes alternos, la pelota toma el color de quien sigue</span></>}
+                    {isBodyTracking && <><span>🦵</span> <span><b>CUERPO</b>: Golpea con brazo o pie</span></>}
+                 </div>
+                </>
+            );
+        case DifficultyLevel.DODGE:
+            return (
+                <>
+                 <div className="grid grid-cols-[20px_1fr] gap-1">
+                    <span>🧍</span> <span><b>DE PIE</b>: En el centro, cuerpo entero a la vista</span>
+                    <span>🔴</span> <span><b>BARRA ALTA</b>: Agáchate</span>
+                    <span>🟡</span> <span><b>BARRA BAJA</b>: Salta</span>
+                    <span>🔵</span> <span><b>MURO</b>: Inclínate o da un paso al otro lado</span>
+                    <span>❤️</span> <span><b>VIDAS</b>: 3 golpes y se acaba</span>
                  </div>
                 </>
             );
@@ -170,15 +599,33 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                  <div className="grid grid-cols-[20px_1fr] gap-1">
                     <span>🎸</span> <span><b>PELLIZCAR</b>: Tocar Nota</span>
                     <span>🎵</span> <span><b>MOVER</b>: Elegir Traste</span>
+                    <span>✋</span> <span><b>SOLTAR</b>: Apagar Cuerda</span>
+                    <span>⚡</span> <span><b>RASGUEAR</b>: Mano Rápida</span>
+                    <span>🎶</span> <span><b>ACORDES</b>: Pellizca uno o muestra 1-5 dedos</span>
                  </div>
                 </>
             );
         case DifficultyLevel.PAINTER:
+            if (isMultiFinger) return (
+                <>
+                 <div className="grid grid-cols-[20px_1fr] gap-1">
+                    <span>✊</span> <span><b>PULGAR DENTRO</b>: Cada dedo estirado pinta</span>
+                    <span>🎨</span> <span><b>PALETA</b>: Toca un color y une ese dedo al pulgar</span>
+                    <span>🙌</span> <span><b>DOS MANOS</b>: Hasta 6 pinceles</span>
+                    <span>👏</span> <span><b>APLAUDIR</b>: Borrar Todo</span>
+                 </div>
+                </>
+            );
             return (
                 <>
                  <div className="grid grid-cols-[20px_1fr] gap-1">
                     <span>👆</span> <span><b>ÍNDICE</b>: Mover Cursor</span>
                     <span>👌</span> <span><b>PELLIZCAR</b>: Pintar/Click</span>
+                    <span>🖌️</span> <span><b>PINCELES</b>: Pellizca uno junto a la paleta</span>
+                    <span>🖐️</span> <span><b>PALMA QUIETA</b>: Rueda de color</span>
+                    <span>💉</span> <span><b>CUENTAGOTAS</b>: Toma un color de la cámara</span>
+                    <span>⭐</span> <span><b>FORMAS</b>: Dibuja círculo, estrella... y pellizca ✓</span>
+                    <span>✌️</span> <span><b>V + DESLIZAR</b>: Deshacer / Rehacer</span>
                     <span>👏</span> <span><b>APLAUDIR</b>: Borrar Todo</span>
                  </div>
                 </>
@@ -204,10 +651,19 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
           <GardenScene 
             activeEvent={activeEventData?.type || null}
             eventPayload={activeEventData?.payload}
-            isActive={true} 
+            isActive={isActive} 
             interactionRef={interactionRef}
+            bodyRef={bodyRef}
             levelId={level.id}
             onScore={handleScore}
+            onGameState={setGameStatus}
+            onGardenChange={handleGardenChange}
+            plantSpecies={plantSpecies}
+            paintHistoryRef={paintHistoryRef}
+            onPaintHistoryChange={handlePaintHistoryChange}
+            onTimelapseEnd={handleTimelapseEnd}
+            playerRefs={isSplit ? playerRefs : null}
+            netRef={netRef}
           />
       </div>
 
@@ -226,29 +682,321 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                  <button onClick={handleClearCanvas} className="px-4 py-2 bg-rose-600/80 hover:bg-rose-500 backdrop-blur rounded-full text-white text-sm transition-all border border-rose-400/50 flex items-center gap-2 shadow-lg">
                     <span>🗑️</span> Borrar
                  </button>
+                 <button onClick={() => handleExportStrokes('svg')} disabled={paintHistoryRef.current.strokes.length === 0} title="Exportar vector (SVG)"
+                    className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-white text-sm transition-all border border-white/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                    🖋️ SVG
+                 </button>
+                 <button onClick={() => handleExportStrokes('json')} disabled={paintHistoryRef.current.strokes.length === 0} title="Exportar trazos (JSON)"
+                    className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-white text-sm transition-all border border-white/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                    {'{ }'}
+                 </button>
+                 <button onClick={() => handleTimelapse(false)} disabled={paintHistoryRef.current.strokes.length === 0 || isReplaying} title="Ver time-lapse"
+                    className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-white text-sm transition-all border border-white/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                    🎞️
+                 </button>
+                 <button onClick={() => handleTimelapse(true)} disabled={paintHistoryRef.current.strokes.length === 0 || isReplaying || !!recordingMode || !isRecordingSupported()} title="Exportar time-lapse (WebM)"
+                    className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-white text-sm transition-all border border-white/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                    🎬 WebM
+                 </button>
+                 <button onClick={handleToggleSessionRecording} disabled={recordingMode === 'TIMELAPSE' || !isRecordingSupported()} title={recordingMode === 'SESSION' ? 'Detener grabación' : 'Grabar sesión'}
+                    className={`px-3 py-2 backdrop-blur rounded-full text-white text-sm transition-all border disabled:opacity-30 disabled:cursor-not-allowed ${recordingMode === 'SESSION' ? 'bg-rose-600/80 border-rose-400/50 animate-pulse' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+                    {recordingMode === 'SESSION' ? '⏹️ REC' : '⏺️ REC'}
+                 </button>
+                 <button onClick={toggleMultiFinger} title="Pintar con varios dedos"
+                    className={`px-3 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${isMultiFinger ? 'bg-indigo-600/80 border-indigo-400/50' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+                    🖐️ {isMultiFinger ? 'Multidedo' : 'Un dedo'}
+                 </button>
+                 <button onClick={() => handleGardenEvent('UNDO')} disabled={paintHistoryRef.current.strokes.length === 0} title="Deshacer"
+                    className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-white text-sm transition-all border border-white/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                    ↩️
+                 </button>
+                 <button onClick={() => handleGardenEvent('REDO')} disabled={paintHistoryRef.current.redoStack.length === 0} title="Rehacer"
+                    className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-white text-sm transition-all border border-white/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                    ↪️
+                 </button>
              </div>
           )}
         </div>
-        <div className="flex items-center gap-2 px-3 py-1 bg-black/40 backdrop-blur rounded-full border border-white/10">
+        <div className="flex items-center gap-2">
+          {isActive && (
+            <div className="pointer-events-auto flex items-center gap-2">
+              {traceError && <span className="text-xs text-rose-300">{traceError}</span>}
+              <button onClick={toggleTraceRecording} title={isTraceRecording ? 'Detener y descargar la traza' : 'Grabar traza de manos (JSON)'}
+                className={`px-3 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${isTraceRecording ? 'bg-rose-600/80 border-rose-400/50 animate-pulse' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+                {isTraceRecording ? '⏹️ Traza' : '⏺️ Traza'}
+              </button>
+              <label title={traceReplay ? 'Reproduciendo traza' : 'Reproducir una traza en lugar de la cámara'}
+                className={`px-3 py-2 backdrop-blur rounded-full text-white text-sm transition-all border cursor-pointer ${traceReplay ? 'bg-amber-600/80 border-amber-400/50 animate-pulse' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+                📼
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleTraceFile} />
+              </label>
+            </div>
+          )}
+          {isActive && hasFaceGestures(level.id) && (
+            <button onClick={() => setIsFaceTracking(on => !on)} title="Jugar con la cara: sonrisa, boca, cejas, ojos e inclinación de cabeza"
+              className={`pointer-events-auto px-4 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${isFaceTracking ? 'bg-pink-600/80 border-pink-400/50' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+              🙂 Cara
+            </button>
+          )}
+          {isActive && NET_LEVELS.includes(level.id) && !isSplit && (
+            <button onClick={() => { setIsNetPanelOpen(open => !open); setIsTrainerOpen(false); }} title="Jugar con otro navegador de la red local"
+              className={`pointer-events-auto px-4 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${netStatus === 'connected' ? 'bg-cyan-600/80 border-cyan-400/50' : isNetPanelOpen ? 'bg-cyan-900/60 border-cyan-400/30' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+              🌐 {netStatus === 'connected' ? 'En red: ON' : 'En red'}
+            </button>
+          )}
+          {isActive && SPLIT_LEVELS.includes(level.id) && (netStatus === 'offline' || netStatus === 'error') && (
+            <button onClick={() => { setIsSplitMode(on => !on); setPlayerScores([0, 0]); }} title="Dos jugadores en la misma cámara, cada uno en su mitad de la pantalla"
+              className={`pointer-events-auto px-4 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${isSplitMode ? 'bg-sky-600/80 border-sky-400/50' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+              👥 2 Jugadores
+            </button>
+          )}
+          {isActive && level.id !== DifficultyLevel.DODGE && (
+            <button onClick={() => setIsBodyTracking(on => !on)} title="Seguimiento de cuerpo completo: saltos, sentadillas, inclinaciones y patadas"
+              className={`pointer-events-auto px-4 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${isBodyTracking ? 'bg-orange-600/80 border-orange-400/50' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+              🕺 Cuerpo
+            </button>
+          )}
+          {isActive && (
+            <button onClick={() => { setIsTrainerOpen(open => !open); setIsNetPanelOpen(false); }} title="Enseñar gestos propios"
+              className={`pointer-events-auto px-4 py-2 backdrop-blur rounded-full text-white text-sm transition-all border ${isTrainerOpen ? 'bg-violet-600/80 border-violet-400/50' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+              ✋ Mis Gestos{customGestures.length > 0 ? ` (${customGestures.length})` : ''}
+            </button>
+          )}
+          {isActive && (
+            <button
+              onClick={toggleCompanion}
+              disabled={!hasApiKey}
+              title={hasApiKey ? 'Activar compañero IA' : 'Sin clave de API: modo sin conexión'}
+              className={`pointer-events-auto px-4 py-2 backdrop-blur rounded-full text-white text-sm transition-all border flex items-center gap-2 ${
+                !hasApiKey ? 'bg-black/30 border-white/5 text-white/40 cursor-not-allowed'
+                : isCompanionOn ? 'bg-indigo-600/80 hover:bg-indigo-500 border-indigo-400/50 shadow-lg'
+                : 'bg-black/40 hover:bg-black/60 border-white/10'}`}
+            >
+              <span>🤖</span>
+              {!hasApiKey ? 'IA sin conexión' : companionState === 'connecting' ? 'Conectando...' : isCompanionOn ? 'Compañero IA: ON' : 'Compañero IA'}
+            </button>
+          )}
+          <div className="flex items-center gap-2 px-3 py-1 bg-black/40 backdrop-blur rounded-full border border-white/10">
             <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-400 shadow-[0_0_10px_#4ade80]' : 'bg-yellow-500'}`} />
             <span className="text-xs text-white/80 font-mono uppercase">{isActive ? 'VISIÓN ACTIVA' : 'LISTO'}</span>
+          </div>
         </div>
       </header>
 
-      {/* Score Display (WallBall) - z-20 */}
-      {level.id === DifficultyLevel.WALLBALL && (
+      {/* AI Companion Transcript - z-40 */}
+      {isActive && (isCompanionOn || companionError) && (
+        <div className="absolute bottom-6 left-6 z-40 w-[300px] pointer-events-none bg-black/60 backdrop-blur rounded-lg p-3 border-l-2 border-indigo-400 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-bold text-indigo-300 uppercase tracking-wider">Compañero IA</p>
+                <AudioVisualizer isActive={isCompanionTalking} />
+            </div>
+            {companionError && <p className="text-xs text-rose-300 mb-2">{companionError}</p>}
+            <div className="space-y-1 max-h-48 overflow-hidden text-xs">
+                {transcript.length === 0 && (
+                    <p className="text-white/40 italic">{companionState === 'connecting' ? 'Conectando...' : 'Habla para empezar...'}</p>
+                )}
+                {transcript.map((entry, i) => (
+                    <p key={i} className={entry.isUser ? 'text-white/60' : 'text-indigo-100'}>
+                        <b>{entry.isUser ? 'Tú' : 'IA'}:</b> {entry.text}
+                    </p>
+                ))}
+            </div>
+        </div>
+      )}
+
+      {/* Score Display (WallBall / Arcade / Dodge / Guitar song mode) - z-20 */}
+      {(level.id === DifficultyLevel.WALLBALL || level.id === DifficultyLevel.ARCADE || level.id === DifficultyLevel.DODGE || (level.id === DifficultyLevel.GUITAR && songChart)) && (
         <div className="absolute top-20 left-0 right-0 z-20 flex flex-col items-center pointer-events-none animate-in fade-in slide-in-from-top-4 duration-700">
             <div className="relative flex flex-col items-center">
-                <h2 className="text-6xl font-black text-white tracking-tighter drop-shadow-[0_0_15px_rgba(255,255,255,0.6)] font-mono">
-                    {score.toLocaleString()}
-                </h2>
-                <div className="mt-1 text-xs font-bold tracking-[0.3em] text-emerald-400 uppercase whitespace-nowrap bg-black/60 px-3 py-1 rounded-full backdrop-blur-sm border border-emerald-500/30">
-                    Puntuación Actual
+                {isSplit ? (
+                    <div className="flex items-end gap-12">
+                        {PLAYER_NAMES.map((name, i) => (
+                            <div key={name} className="flex flex-col items-center">
+                                <h2 className="text-5xl font-black tracking-tighter font-mono" style={{ color: PLAYER_COLORS[i], textShadow: `0 0 15px ${PLAYER_COLORS[i]}` }}>
+                                    {playerScores[i].toLocaleString()}
+                                </h2>
+                                <div className="mt-1 text-xs font-bold tracking-[0.3em] uppercase whitespace-nowrap bg-black/60 px-3 py-1 rounded-full backdrop-blur-sm" style={{ color: PLAYER_COLORS[i] }}>
+                                    {name}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                    <h2 className="text-6xl font-black text-white tracking-tighter drop-shadow-[0_0_15px_rgba(255,255,255,0.6)] font-mono">
+                        {score.toLocaleString()}
+                    </h2>
+                    <div className="mt-1 text-xs font-bold tracking-[0.3em] text-emerald-400 uppercase whitespace-nowrap bg-black/60 px-3 py-1 rounded-full backdrop-blur-sm border border-emerald-500/30">
+                        Puntuación Actual
+                    </div>
+                    </>
+                )}
+                {level.id === DifficultyLevel.ARCADE && gameStatus && (
+                    <div className="mt-2 flex items-center gap-3 text-xs font-mono text-white/80 bg-black/50 px-3 py-1 rounded-full">
+                        <span>OLEADA {gameStatus.wave}</span>
+                        <div className="w-32 h-2 bg-white/10 rounded-full overflow-hidden">
+                            <div className={`h-full transition-all duration-300 ${gameStatus.health > 30 ? 'bg-emerald-400' : 'bg-rose-500'}`}
+                                 style={{ width: `${(gameStatus.health / gameStatus.maxHealth) * 100}%` }} />
+                        </div>
+                        <span>{gameStatus.health} HP</span>
+                    </div>
+                )}
+                {level.id === DifficultyLevel.DODGE && gameStatus && (
+                    <div className="mt-2 flex items-center gap-3 text-xs font-mono text-white/80 bg-black/50 px-3 py-1 rounded-full">
+                        <span>NIVEL {gameStatus.wave}</span>
+                        <span className="tracking-widest">{'❤️'.repeat(gameStatus.health)}{'🖤'.repeat(Math.max(0, gameStatus.maxHealth - gameStatus.health))}</span>
+                    </div>
+                )}
+                {level.id === DifficultyLevel.GUITAR && chartStats && (
+                    <div className="mt-2 flex gap-3 text-xs font-mono text-white/80 bg-black/50 px-3 py-1 rounded-full">
+                        <span>COMBO x{chartStats.combo}</span>
+                        <span>PRECISIÓN {Math.round(chartStats.accuracy * 100)}%</span>
+                        {chartStats.isFinished && <span className="text-emerald-400">¡CANCIÓN COMPLETA! MEJOR COMBO x{chartStats.maxCombo}</span>}
+                    </div>
+                )}
+            </div>
+        </div>
+      )}
+
+      {/* Game Over (Arcade / Dodge) - z-50 */}
+      {isActive && gameStatus?.isGameOver && (
+        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-500">
+            <h2 className="text-6xl md:text-8xl font-black text-rose-500 tracking-tighter drop-shadow-[0_0_25px_rgba(244,63,94,0.6)]">GAME OVER</h2>
+            <p className="mt-4 text-white/70 font-mono">{level.id === DifficultyLevel.DODGE ? 'Nivel' : 'Oleada'} {gameStatus.wave} · {score.toLocaleString()} puntos</p>
+            {isSplit && (
+                <p className="mt-2 font-mono font-bold">
+                    {PLAYER_NAMES.map((name, i) => <span key={name} className="mx-3" style={{ color: PLAYER_COLORS[i] }}>{name}: {playerScores[i].toLocaleString()}</span>)}
+                </p>
+            )}
+            <button onClick={handleRestart} className="mt-8 px-8 py-4 bg-gradient-to-r from-pink-600 to-rose-600 hover:from-pink-500 hover:to-rose-500 text-white rounded-full font-bold text-lg shadow-lg transition-all hover:scale-105">
+                Reintentar
+            </button>
+        </div>
+      )}
+
+      {/* Weather Controls (Garden) - z-30. The AI companion can trigger the same events by voice */}
+      {level.id === DifficultyLevel.GARDEN && isActive && (
+        <div className="absolute top-20 left-6 z-30 pointer-events-auto flex flex-col gap-2">
+            {([['SUN', '☀️', 'Sol'], ['NIGHT', '🌙', 'Noche'], ['WIND', '💨', 'Viento'], ['BLOOM', '🌸', 'Florecer']] as [GardenEvent, string, string][]).map(([event, icon, label]) => (
+                <button key={event} onClick={() => handleGardenEvent(event)} title={label}
+                    className="w-10 h-10 bg-black/40 hover:bg-black/60 backdrop-blur rounded-full text-lg transition-all border border-white/10 hover:scale-110">
+                    {icon}
+                </button>
+            ))}
+        </div>
+      )}
+
+      {/* Species Palette (Garden) - z-30. Decides what the next planting gesture grows */}
+      {level.id === DifficultyLevel.GARDEN && isActive && (
+        <div className="absolute top-20 left-20 z-30 pointer-events-auto flex flex-col gap-2">
+            {([['RANDOM', '🎲', 'Aleatorio'], ...PLANT_SPECIES_IDS.map(id => [id, PLANT_SPECIES[id].icon, PLANT_SPECIES[id].label])] as [PlantSpecies | 'RANDOM', string, string][]).map(([species, icon, label]) => (
+                <button key={species} onClick={() => setPlantSpecies(species)} title={label}
+                    className={`w-10 h-10 backdrop-blur rounded-full text-lg transition-all border hover:scale-110 ${plantSpecies === species ? 'bg-emerald-600/70 border-emerald-300' : 'bg-black/40 hover:bg-black/60 border-white/10'}`}>
+                    {icon}
+                </button>
+            ))}
+        </div>
+      )}
+
+      {/* Paint Layers + Palette (Painter) - z-30. Top of the layer list is the top of the stack */}
+      {isPainter && isActive && (
+        <div className="absolute top-20 left-6 z-30 w-[200px] pointer-events-auto flex flex-col gap-2">
+        <div className="bg-black/60 backdrop-blur rounded-lg p-3 text-xs text-white/80 space-y-2 border-l-2 border-emerald-400">
+            <p className="font-bold text-emerald-400 uppercase tracking-wider">Capas</p>
+            {paintHistoryRef.current.layers.map((layer, i) => ({ layer, i })).reverse().map(({ layer, i }) => (
+                <div key={i} className={`px-2 py-1 rounded ${paintHistoryRef.current.activeLayer === i ? 'bg-emerald-600/50' : 'hover:bg-white/10'}`}>
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => updatePaintLayer(i, { visible: !layer.visible })} title={layer.visible ? 'Ocultar' : 'Mostrar'} className={layer.visible ? '' : 'opacity-40'}>
+                            {layer.visible ? '👁️' : '🚫'}
+                        </button>
+                        <button onClick={() => selectPaintLayer(i)} className="flex-1 text-left">
+                            {layer.name} <span className="text-white/40">({paintHistoryRef.current.strokes.filter(s => s.layer === i).length})</span>
+                        </button>
+                    </div>
+                    <input type="range" min={0} max={1} step={0.05} value={layer.opacity}
+                        onChange={e => updatePaintLayer(i, { opacity: Number(e.target.value) })}
+                        className="w-full accent-emerald-400" title="Opacidad" />
                 </div>
+            ))}
+        </div>
+        <div className="bg-black/60 backdrop-blur rounded-lg p-3 text-xs text-white/80 space-y-2 border-l-2 border-sky-400">
+            <p className="font-bold text-sky-300 uppercase tracking-wider">Simetría</p>
+            <div className="grid grid-cols-6 gap-1">
+                {SYMMETRY_MODES.map(([mode, icon, label]) => (
+                    <button key={mode} onClick={() => updateSymmetry({ mode })} title={label}
+                        className={`h-7 rounded transition-all ${symmetry.mode === mode ? 'bg-sky-600/70' : 'hover:bg-white/10'}`}>
+                        {icon}
+                    </button>
+                ))}
             </div>
+            {(symmetry.mode === 'RADIAL' || symmetry.mode === 'KALEIDOSCOPE') && (
+                <div className="flex items-center gap-2">
+                    <span>Ejes</span>
+                    <input type="range" min={MIN_SYMMETRY_FOLDS} max={MAX_SYMMETRY_FOLDS} step={1} value={symmetry.folds}
+                        onChange={e => updateSymmetry({ folds: Number(e.target.value) })} className="flex-1 accent-sky-400" />
+                    <span className="w-4 text-right">{symmetry.folds}</span>
+                </div>
+            )}
+        </div>
+        <PaletteEditor
+            palettes={palettes}
+            activePaletteId={activePalette.id}
+            onSelect={selectPalette}
+            onCreate={handleCreatePalette}
+            onChange={palette => updatePalettes(palettes.map(p => p.id === palette.id ? palette : p))}
+            onDelete={handleDeletePalette}
+            getCurrentColor={() => interactionRef.current.isMultiFinger ? interactionRef.current.painterColors.index : interactionRef.current.activeColor}
+        />
+        </div>
+      )}
+
+      {/* Gesture Trainer - z-40 */}
+      {isActive && isTrainerOpen && (
+        <div className="absolute top-20 right-6 z-40 w-[280px] pointer-events-auto">
+            <GestureTrainer gestures={customGestures} onChange={updateCustomGestures} handLandmarksRef={handLandmarksRef} onClose={() => setIsTrainerOpen(false)} />
+        </div>
+      )}
+
+      {/* Networked play - z-40 */}
+      {isActive && isNetPanelOpen && (
+        <div className="absolute top-20 right-6 z-40 w-[260px] pointer-events-auto">
+            <NetPanel status={netStatus} error={netError} onConnect={connectNet} onDisconnect={disconnectNet} onClose={() => setIsNetPanelOpen(false)} />
+        </div>
+      )}
+
+      {/* Song Chart Picker (Guitar) - z-30 */}
+      {level.id === DifficultyLevel.GUITAR && isActive && (
+        <div className="absolute top-20 left-6 z-30 w-[200px] pointer-events-auto bg-black/60 backdrop-blur rounded-lg p-3 text-xs text-white/80 space-y-2 border-l-2 border-indigo-400">
+            <p className="font-bold text-indigo-300 uppercase tracking-wider">Modo Canción</p>
+            {BUILT_IN_CHARTS.map(chart => (
+                <button key={chart.title} onClick={() => startChart(chart)}
+                    className={`block w-full text-left px-2 py-1 rounded transition-all ${songChart?.title === chart.title ? 'bg-indigo-600 text-white' : 'hover:bg-white/10'}`}>
+                    🎵 {chart.title} <span className="text-white/40">{chart.tempo} BPM</span>
+                </button>
+            ))}
+            <label className="block w-full px-2 py-1 rounded hover:bg-white/10 cursor-pointer">
+                📂 Cargar JSON...
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleChartFile} />
+            </label>
+            {songChart && (
+                <button onClick={() => startChart(null)} className="block w-full text-left px-2 py-1 rounded hover:bg-white/10">
+                    ✋ Tocar Libre
+                </button>
+            )}
+            {chartError && <p className="text-rose-300">{chartError}</p>}
         </div>
       )}
 
+      {/* Calibration Wizard - z-50. Before the game, so it has the camera and hand tracking to itself */}
+      {!isActive && calibrationTarget && (
+        <CalibrationWizard
+          videoElement={videoNode}
+          playerName={calibrationTarget.name}
+          onComplete={handleCalibrationComplete}
+          onCancel={() => setCalibrationTarget(null)}
+        />
+      )}
+
       {/* Floating Interface Wrapper - No Z-index here, let children manage stacking */}
       <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-end md:justify-center">
         
@@ -267,6 +1015,24 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                >
                  Comenzar Juego
                </button>
+               <PlayerProfiles
+                 profiles={players}
+                 activePlayerId={activePlayerId}
+                 onSelect={selectPlayer}
+                 onCalibrate={(name, profileId) => setCalibrationTarget({ name, profileId })}
+                 onDelete={handleDeletePlayer}
+               />
+               {level.id === DifficultyLevel.GARDEN && (
+                 <GardenLibrary
+                   activeGardenId={activeGardenId}
+                   gardenName={gardenName}
+                   refreshKey={libraryVersion}
+                   onRename={handleRenameGarden}
+                   onLoad={handleLoadGarden}
+                   onDelete={handleDeleteGarden}
+                   onImport={handleImportGarden}
+                 />
+               )}
              </div>
         )}
 
@@ -312,6 +1078,12 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                     className="w-full h-full object-cover mirror-mode"
                     style={{ transform: 'scaleX(-1)' }} 
                 />
+                {isBodyScannerOn && (
+                  <BodyScanner isActive={isActive} videoElement={videoNode} bodyRef={bodyRef} onGesture={handleGardenEvent} />
+                )}
+                {isFaceTracking && hasFaceGestures(level.id) && (
+                  <FaceScanner isActive={isActive} videoElement={videoNode} levelId={level.id} onGesture={handleGardenEvent} />
+                )}
                 {/* Visual Scanner Overlay */}
                 <HandScanner 
                   isActive={isActive} 
@@ -319,6 +1091,16 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ level, onExit }) => {
                   onGesture={handleGardenEvent}
                   interactionRef={interactionRef}
                   levelId={level.id}
+                  songChart={songChart}
+                  paletteColors={activePalette.colors}
+                  onScore={handleScore}
+                  onChartStats={setChartStats}
+                  customGestures={isTrainerOpen ? NO_CUSTOM_GESTURES : customGestures}
+                  handLandmarksRef={handLandmarksRef}
+                  calibration={activePlayer}
+                  replay={traceReplay}
+                  onLandmarks={handleTraceLandmarks}
+                  playerRefs={isSplit ? playerRefs : null}
                 />
             </div>
         </div>
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { NetStatus } from '../types';
+import { defaultSignalingUrl } from '../utils/netSession';
+
+interface NetPanelProps {
+  status: NetStatus;
+  error: string | null;
+  onConnect: (url: string, room: string) => void;
+  onDisconnect: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<NetStatus, string> = {
+  offline: 'Sin conexión',
+  connecting: 'Conectando al servidor...',
+  waiting: 'Esperando al otro jugador...',
+  connected: '¡Conectados!',
+  error: 'Error'
+};
+
+/**
+ * Joins another browser on the LAN: both pick the same room on the signaling server
+ * (`npm run signaling` on any machine of the network).
+ */
+export const NetPanel: React.FC<NetPanelProps> = ({ status, error, onConnect, onDisconnect, onClose }) => {
+  const [url, setUrl] = useState(defaultSignalingUrl);
+  const [room, setRoom] = useState('sala-1');
+  const isOnline = status !== 'offline' && status !== 'error';
+
+  return (
+    <div className="bg-black/70 backdrop-blur rounded-lg p-3 text-xs text-white/80 space-y-2 border-l-2 border-cyan-400">
+      <div className="flex items-center justify-between">
+        <p className="font-bold text-cyan-300 uppercase tracking-wider">Jugar en red</p>
+        <button onClick={onClose} title="Cerrar" className="px-2 rounded hover:bg-white/10">✕</button>
+      </div>
+      <label className="block space-y-1">
+        <span className="text-white/50">Servidor</span>
+        <input value={url} onChange={e => setUrl(e.target.value)} disabled={isOnline} placeholder="http://192.168.1.10:8787"
+          className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 text-white placeholder-white/30 outline-none focus:border-cyan-400 disabled:opacity-50" />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-white/50">Sala</span>
+        <input value={room} onChange={e => setRoom(e.target.value)} disabled={isOnline} maxLength={32}
+          className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 text-white placeholder-white/30 outline-none focus:border-cyan-400 disabled:opacity-50" />
+      </label>
+      <p className={status === 'connected' ? 'text-emerald-300' : status === 'error' ? 'text-rose-300' : 'text-white/60'}>
+        {status === 'error' && error ? error : STATUS_LABELS[status]}
+      </p>
+      {isOnline ? (
+        <button onClick={onDisconnect} className="w-full px-2 py-1 rounded bg-rose-600/70 hover:bg-rose-500 transition-all">Desconectar</button>
+      ) : (
+        <button onClick={() => onConnect(url.trim(), room.trim())} disabled={!url.trim() || !room.trim()}
+          className="w-full px-2 py-1 rounded bg-cyan-600/70 hover:bg-cyan-500 transition-all disabled:opacity-40">Conectar</button>
+      )}
+    </div>
+  );
+};
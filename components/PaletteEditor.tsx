@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { ColorPalette } from '../types';
+import { MAX_PALETTE_COLORS } from '../utils/paletteStorage';
+
+interface PaletteEditorProps {
+  palettes: ColorPalette[];
+  activePaletteId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void; // Copies the active palette into a new editable one
+  onChange: (palette: ColorPalette) => void;
+  onDelete: (id: string) => void;
+  getCurrentColor: () => string; // Color picked last (wheel, eyedropper or swatch)
+}
+
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({ palettes, activePaletteId, onSelect, onCreate, onChange, onDelete, getCurrentColor }) => {
+  const palette = palettes.find(p => p.id === activePaletteId) || palettes[0];
+  const isFull = palette.colors.length >= MAX_PALETTE_COLORS;
+
+  const addColor = (color: string) => {
+    if (palette.builtIn || isFull || palette.colors.includes(color)) return;
+    onChange({ ...palette, colors: [...palette.colors, color] });
+  };
+
+  // React's onChange fires on every 'input' while the native picker is open: only add on 'change'
+  const colorInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    const input = colorInputRef.current;
+    if (!input) return;
+    const handlePick = () => addColor(input.value);
+    input.addEventListener('change', handlePick);
+    return () => input.removeEventListener('change', handlePick);
+  });
+
+  return (
+    <div className="bg-black/60 backdrop-blur rounded-lg p-3 text-xs text-white/80 space-y-2 border-l-2 border-fuchsia-400">
+      <p className="font-bold text-fuchsia-300 uppercase tracking-wider">Paleta</p>
+      <select value={palette.id} onChange={e => onSelect(e.target.value)} className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 text-white outline-none">
+        {palettes.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.builtIn ? '★ ' : ''}{p.name}</option>)}
+      </select>
+      {!palette.builtIn && (
+        <input value={palette.name} onChange={e => onChange({ ...palette, name: e.target.value })} placeholder="Nombre de la paleta"
+          className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 text-white placeholder-white/30 outline-none focus:border-fuchsia-400" />
+      )}
+      <div className="flex flex-wrap gap-1">
+        {palette.colors.map(color => (
+          <button key={color} disabled={palette.builtIn} title={palette.builtIn ? color : `Quitar ${color}`} style={{ backgroundColor: color }}
+            onClick={() => onChange({ ...palette, colors: palette.colors.filter(c => c !== color) })}
+            className="w-5 h-5 rounded-full border border-white/40 enabled:hover:scale-110 transition-all" />
+        ))}
+      </div>
+      {palette.builtIn ? (
+        <button onClick={onCreate} className="block w-full px-2 py-1 rounded bg-white/10 hover:bg-white/20">✏️ Copiar para editar</button>
+      ) : (
+        <div className="flex items-center gap-1">
+          <button onClick={() => addColor(getCurrentColor())} disabled={isFull} title="Añadir el color actual"
+            className="flex-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30">➕ Actual</button>
+          <label title="Añadir un color" className={`px-2 py-1 rounded bg-white/10 hover:bg-white/20 cursor-pointer ${isFull ? 'opacity-30 pointer-events-none' : ''}`}>
+            🎨
+            <input ref={colorInputRef} type="color" className="hidden" />
+          </label>
+          <button onClick={onCreate} title="Duplicar" className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">⧉</button>
+          <button onClick={() => onDelete(palette.id)} title="Eliminar" className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">🗑️</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { CalibrationProfile } from '../types';
+
+interface PlayerProfilesProps {
+  profiles: CalibrationProfile[];
+  activePlayerId: string; // '' = nobody, default thresholds
+  onSelect: (id: string) => void;
+  onCalibrate: (name: string, profileId?: string) => void; // New player, or recalibrate an existing one
+  onDelete: (id: string) => void;
+}
+
+export const PlayerProfiles: React.FC<PlayerProfilesProps> = ({ profiles, activePlayerId, onSelect, onCalibrate, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const active = profiles.find(p => p.id === activePlayerId);
+
+  return (
+    <div className="w-[320px] mx-auto mt-6 bg-black/50 backdrop-blur rounded-xl p-4 text-left text-sm text-white/80 border border-white/10 space-y-2">
+      <p className="text-xs font-bold text-sky-300 uppercase tracking-wider">Jugador</p>
+      <select value={active ? active.id : ''} onChange={e => onSelect(e.target.value)}
+        className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/10 text-white outline-none">
+        <option value="" className="bg-slate-900">Sin calibrar (valores estándar)</option>
+        {profiles.map(p => <option key={p.id} value={p.id} className="bg-slate-900">🧑 {p.name}</option>)}
+      </select>
+      {active && (
+        <div className="flex gap-2">
+          <button onClick={() => onCalibrate(active.name, active.id)} className="flex-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs">🔄 Recalibrar</button>
+          <button onClick={() => onDelete(active.id)} title="Eliminar jugador" className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs">🗑️</button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="Nuevo jugador" maxLength={24}
+          className="flex-1 min-w-0 px-3 py-1 rounded-lg bg-white/10 border border-white/10 text-white placeholder-white/30 outline-none focus:border-sky-400" />
+        <button onClick={() => { onCalibrate(newName.trim()); setNewName(''); }} disabled={!newName.trim()}
+          className="px-3 py-1 rounded-lg bg-sky-600/60 hover:bg-sky-500/70 disabled:opacity-30 text-xs font-bold">🎯 Calibrar</button>
+      </div>
+      <p className="text-xs text-white/40">Mide tu mano, tu pinza y hasta dónde llegas para que los gestos se adapten a ti.</p>
+    </div>
+  );
+};
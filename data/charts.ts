@@ -0,0 +1,55 @@
+import { SongChart } from '../types';
+
+/**
+ * Built-in charts for the Air Guitar rhythm mode. Same shape as the JSON files
+ * players can load: `beat` counts from the start of the song (the first bar is a count-in),
+ * `string` 1 is the high E at the top of the fretboard.
+ */
+export const BUILT_IN_CHARTS: SongChart[] = [
+  {
+    title: 'Escala de Do',
+    tempo: 70,
+    timeSignature: [4, 4],
+    notes: [
+      { beat: 4, string: 2, fret: 1 },
+      { beat: 5, string: 2, fret: 3 },
+      { beat: 6, string: 2, fret: 5 },
+      { beat: 7, string: 2, fret: 6 },
+      { beat: 8, string: 2, fret: 8 },
+      { beat: 9, string: 1, fret: 5 },
+      { beat: 10, string: 1, fret: 7 },
+      { beat: 11, string: 1, fret: 8 },
+      { beat: 13, string: 1, fret: 8 },
+      { beat: 14, string: 1, fret: 7 },
+      { beat: 15, string: 1, fret: 5 },
+      { beat: 16, string: 2, fret: 8 },
+      { beat: 17, string: 2, fret: 6 },
+      { beat: 18, string: 2, fret: 5 },
+      { beat: 19, string: 2, fret: 3 },
+      { beat: 20, string: 2, fret: 1 },
+    ]
+  },
+  {
+    title: 'Himno de la Alegría',
+    tempo: 80,
+    timeSignature: [4, 4],
+    notes: [
+      { beat: 4, string: 2, fret: 5 }, { beat: 5, string: 2, fret: 5 }, { beat: 6, string: 2, fret: 6 }, { beat: 7, string: 2, fret: 8 },
+      { beat: 8, string: 2, fret: 8 }, { beat: 9, string: 2, fret: 6 }, { beat: 10, string: 2, fret: 5 }, { beat: 11, string: 2, fret: 3 },
+      { beat: 12, string: 2, fret: 1 }, { beat: 13, string: 2, fret: 1 }, { beat: 14, string: 2, fret: 3 }, { beat: 15, string: 2, fret: 5 },
+      { beat: 16, string: 2, fret: 5 }, { beat: 17.5, string: 2, fret: 3 }, { beat: 18, string: 2, fret: 3 },
+    ]
+  },
+  {
+    title: 'Rasgueo 4/4',
+    tempo: 90,
+    timeSignature: [4, 4],
+    notes: [
+      { beat: 4, strum: true }, { beat: 5, strum: true }, { beat: 6, strum: true }, { beat: 7, strum: true },
+      { beat: 8, strum: true }, { beat: 9, strum: true }, { beat: 10, strum: true }, { beat: 11, strum: true },
+      { beat: 12, strum: true }, { beat: 13.5, strum: true }, { beat: 14, strum: true }, { beat: 15, strum: true },
+      { beat: 16, strum: true }, { beat: 17.5, strum: true }, { beat: 18, strum: true }, { beat: 19.5, strum: true },
+      { beat: 20, strum: true },
+    ]
+  }
+];
@@ -0,0 +1,20 @@
+import { ChordShape } from '../types';
+
+/**
+ * Chord voicings for the Air Guitar level.
+ * `frets` lists strings 1 (high E, top of the fretboard) to 6 (low E):
+ * a number is the fret to hold (0 = open string) and null mutes the string.
+ * Add your own shapes here; the first five can also be picked by showing
+ * 1-5 fingers with the second hand.
+ */
+export const CHORDS: ChordShape[] = [
+  { name: 'C',  frets: [0, 1, 0, 2, 3, null] },
+  { name: 'G',  frets: [3, 0, 0, 0, 2, 3] },
+  { name: 'Am', frets: [0, 1, 2, 2, 0, null] },
+  { name: 'Em', frets: [0, 0, 0, 2, 2, 0] },
+  { name: 'D',  frets: [2, 3, 2, 0, null, null] },
+  { name: 'F',  frets: [1, 1, 2, 3, 3, 1] },
+  { name: 'E',  frets: [0, 0, 1, 2, 2, 0] },
+  { name: 'A',  frets: [0, 2, 2, 2, 0, null] },
+  { name: 'Dm', frets: [1, 3, 2, 0, null, null] },
+];
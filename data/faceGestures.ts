@@ -0,0 +1,51 @@
+import { DifficultyLevel, GardenEvent } from '../types';
+import { FaceGestureDefinition } from '../utils/faceExpressions';
+
+// Keeps each definition's payload typed against its own event
+const faceGesture = <E extends GardenEvent>(definition: FaceGestureDefinition<E>) => definition;
+
+const TILT_ENTER = 15; // Degrees of head roll
+const TILT_EXIT = 8;
+
+/**
+ * Facial expressions as game input, for players who cannot rely on their hands.
+ * Blendshape scores are 0 - 1; each expression must be held briefly so talking does not trigger it.
+ */
+export const FACE_GESTURES: FaceGestureDefinition<any>[] = [
+  faceGesture({
+    id: 'smile-sun', event: 'SUN', levels: [DifficultyLevel.GARDEN],
+    measure: face => face.smile, enter: 0.6, exit: 0.35, holdMs: 400, cooldownMs: 3000,
+    label: "😊 SOL"
+  }),
+  faceGesture({
+    id: 'mouth-bloom', event: 'BLOOM', levels: [DifficultyLevel.GARDEN],
+    measure: face => face.mouthOpen, enter: 0.5, exit: 0.25, holdMs: 300, cooldownMs: 2000,
+    label: "😮 FLORECER"
+  }),
+  faceGesture({
+    id: 'brow-wind', event: 'WIND', levels: [DifficultyLevel.GARDEN],
+    measure: face => face.browRaise, enter: 0.6, exit: 0.35, holdMs: 300, cooldownMs: 2000,
+    label: "🤨 VIENTO"
+  }),
+  // Eyes closed for a moment: natural blinks are far shorter
+  faceGesture({
+    id: 'blink-night', event: 'NIGHT', levels: [DifficultyLevel.GARDEN],
+    measure: face => face.blink, enter: 0.6, exit: 0.35, holdMs: 600, cooldownMs: 3000,
+    label: "😌 NOCHE"
+  }),
+  // Head tilt orbits the garden camera, again every 800 ms while held
+  faceGesture({
+    id: 'tilt-right', event: 'GESTURE_SWIPE', levels: [DifficultyLevel.GARDEN],
+    measure: face => face.tilt, enter: TILT_ENTER, exit: TILT_EXIT, holdMs: 200, cooldownMs: 800, repeat: true,
+    payload: () => ({ direction: 'RIGHT' as const }),
+    label: "ROTATE >>"
+  }),
+  faceGesture({
+    id: 'tilt-left', event: 'GESTURE_SWIPE', levels: [DifficultyLevel.GARDEN],
+    measure: face => -face.tilt, enter: TILT_ENTER, exit: TILT_EXIT, holdMs: 200, cooldownMs: 800, repeat: true,
+    payload: () => ({ direction: 'LEFT' as const }),
+    label: "<< ROTATE"
+  })
+];
+
+export const hasFaceGestures = (level: DifficultyLevel) => FACE_GESTURES.some(g => g.levels.includes(level));
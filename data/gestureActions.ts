@@ -0,0 +1,30 @@
+import { CustomGesture, GardenEvent } from '../types';
+
+export interface GestureAction {
+  label: string;
+  event: GardenEvent;
+  payload?: CustomGesture['payload'];
+}
+
+// What a custom gesture can trigger. Events that need live hand data (grab, notes, shapes) are left out
+export const GESTURE_ACTIONS: GestureAction[] = [
+  { label: '🧹 Borrar / reiniciar', event: 'RESET' },
+  { label: '📸 Guardar foto', event: 'SAVE_SNAPSHOT' },
+  { label: '↩️ Deshacer (Pintor)', event: 'UNDO' },
+  { label: '↪️ Rehacer (Pintor)', event: 'REDO' },
+  { label: '🌱 Plantar (Jardín)', event: 'GESTURE_PLANT' },
+  { label: '⬆️ Subir cámara (Jardín)', event: 'GESTURE_LIFT' },
+  { label: '⬇️ Bajar cámara (Jardín)', event: 'GESTURE_GROUND' },
+  { label: '⬅️ Girar a la izquierda (Jardín)', event: 'GESTURE_SWIPE', payload: { direction: 'LEFT' } },
+  { label: '➡️ Girar a la derecha (Jardín)', event: 'GESTURE_SWIPE', payload: { direction: 'RIGHT' } },
+  { label: '☀️ Sol (Jardín)', event: 'SUN' },
+  { label: '🌙 Noche (Jardín)', event: 'NIGHT' },
+  { label: '💨 Viento (Jardín)', event: 'WIND' },
+  { label: '🌸 Florecer (Jardín)', event: 'BLOOM' },
+  { label: '🔫 Disparar (Arcade)', event: 'GESTURE_SHOOT' },
+  { label: '🎸 Rasgueo abajo (Guitarra)', event: 'GESTURE_STRUM', payload: { direction: 'DOWN' } },
+  { label: '🎸 Rasgueo arriba (Guitarra)', event: 'GESTURE_STRUM', payload: { direction: 'UP' } }
+];
+
+export const getGestureAction = (gesture: Pick<CustomGesture, 'event' | 'payload'>) =>
+  GESTURE_ACTIONS.find(a => a.event === gesture.event && JSON.stringify(a.payload) === JSON.stringify(gesture.payload));
@@ -0,0 +1,112 @@
+import { DifficultyLevel, GardenEvent } from '../types';
+import { GestureDefinition, GestureEngine, GestureFrame, landmarkDistance } from '../utils/gestures';
+
+// Keeps each definition's payload typed against its own event
+const gesture = <E extends GardenEvent>(definition: GestureDefinition<E>) => definition;
+
+const V_SIGN = { index: 'EXTENDED', middle: 'EXTENDED', ring: 'CURLED', pinky: 'CURLED' } as const;
+
+// Sideways swipe with the V sign, not while pinching (or, in multi-finger mode, painting with the thumb tucked)
+const isVSwipe = (frame: GestureFrame) => {
+  const { velocityX, velocityY, isMultiFinger } = frame.interaction; const hand = frame.hands[0];
+  return Math.abs(velocityX) > 1.2 && Math.abs(velocityY) < 1.0 && hand.pinchDistance > frame.thresholds.pinchStart && !(isMultiFinger && hand.curled.thumb);
+};
+
+// Wrists close to an edge are usually half out of frame: their claps are noise
+const CLAP_EDGE_MARGIN = 0.2;
+const isClap = ({ hands, handDistance, approachSpeed, thresholds }: GestureFrame) => {
+  const [w1, w2] = [hands[0].landmarks[0], hands[1].landmarks[0]];
+  const isAtEdge = [w1, w2].some(w => w.y > 1 - CLAP_EDGE_MARGIN || w.x < CLAP_EDGE_MARGIN || w.x > 1 - CLAP_EDGE_MARGIN);
+  return handDistance < thresholds.clapDistance && approachSpeed > 0.04 && !isAtEdge && Math.abs(w1.y - w2.y) < 0.1;
+};
+
+const pinchRatio = ({ hands }: GestureFrame) => hands[0].pinchDistance / hands[0].handScale;
+
+/**
+ * Every discrete hand gesture, per level. Thresholds are relative to the hand size
+ * (see `getHandFeatures`) so they hold at any distance from the camera.
+ */
+export const GESTURES: GestureDefinition<any>[] = [
+  // Garden camera: swipe to orbit, raise / lower the hand to fly up / down (shared cooldown)
+  gesture({
+    id: 'camera-swipe', event: 'GESTURE_SWIPE', levels: [DifficultyLevel.GARDEN],
+    when: ({ interaction }) => Math.abs(interaction.velocityX) > 1.0 && Math.abs(interaction.velocityY) < 1.0,
+    cooldownMs: 600, cooldownGroup: 'camera', repeat: true,
+    payload: ({ interaction }) => ({ direction: interaction.velocityX > 0 ? 'RIGHT' as const : 'LEFT' as const }),
+    feedback: { label: ({ interaction }) => interaction.velocityX > 0 ? "ROTATE >>" : "<< ROTATE", color: "#38bdf8", haptic: 20 }
+  }),
+  gesture({
+    id: 'camera-lift', event: 'GESTURE_LIFT', levels: [DifficultyLevel.GARDEN],
+    when: ({ interaction }) => interaction.y < 0.25,
+    cooldownMs: 800, cooldownGroup: 'camera', repeat: true,
+    feedback: { label: "CAMERA UP", color: "#38bdf8", haptic: 10 }
+  }),
+  gesture({
+    id: 'camera-ground', event: 'GESTURE_GROUND', levels: [DifficultyLevel.GARDEN],
+    when: ({ interaction }) => interaction.y > 0.75,
+    cooldownMs: 800, cooldownGroup: 'camera', repeat: true,
+    feedback: { label: "CAMERA DOWN", color: "#38bdf8", haptic: 10 }
+  }),
+  // Hands clasped together plant where they meet, again every 1.5 s while held
+  gesture({
+    id: 'clasp-plant', event: 'GESTURE_PLANT', levels: [DifficultyLevel.GARDEN], hands: 2,
+    when: ({ handDistance }) => handDistance < 0.25,
+    cooldownMs: 1500, repeat: true,
+    feedback: { haptic: [50, 50, 200] }
+  }),
+  // Pinch to grab, with a wide release band so a held object is not dropped by jitter (calibrated per player)
+  gesture({
+    id: 'grab', event: 'GESTURE_GRAB', releaseEvent: 'GESTURE_RELEASE', levels: [DifficultyLevel.GARDEN],
+    measure: pinchRatio, enter: f => f.thresholds.grab[0], exit: f => f.thresholds.grab[1],
+    feedback: { haptic: 15 }
+  }),
+  gesture({
+    id: 'grab-ball', event: 'GESTURE_GRAB', releaseEvent: 'GESTURE_RELEASE', levels: [DifficultyLevel.WALLBALL],
+    measure: pinchRatio, enter: f => f.thresholds.grabBall[0], exit: f => f.thresholds.grabBall[1],
+    feedback: { haptic: 15 }
+  }),
+  // Finger gun: thumb up, index out, the rest folded tight into the palm
+  gesture({
+    id: 'finger-gun', event: 'GESTURE_SHOOT', levels: [DifficultyLevel.ARCADE],
+    fingers: { thumb: 'EXTENDED', index: 'EXTENDED', middle: 'FOLDED', ring: 'FOLDED', pinky: 'FOLDED' },
+    when: ({ hands: [hand] }) => [12, 16, 20].every(tip => landmarkDistance(hand.landmarks[tip], hand.palm) < 1.2 * hand.handScale),
+    feedback: { haptic: [30, 50, 30] }
+  }),
+  // Painter: V sign swiped back / forward. Raw x grows to the left of the mirrored view
+  gesture({
+    id: 'undo-swipe', event: 'UNDO', levels: [DifficultyLevel.PAINTER], fingers: V_SIGN,
+    when: frame => isVSwipe(frame) && frame.interaction.velocityX > 0,
+    cooldownMs: 700, cooldownGroup: 'history', repeat: true,
+    feedback: { label: "↩ DESHACER", color: "#fbbf24", haptic: 25 }
+  }),
+  gesture({
+    id: 'redo-swipe', event: 'REDO', levels: [DifficultyLevel.PAINTER], fingers: V_SIGN,
+    when: frame => isVSwipe(frame) && frame.interaction.velocityX < 0,
+    cooldownMs: 700, cooldownGroup: 'history', repeat: true,
+    feedback: { label: "REHACER ↪", color: "#fbbf24", haptic: 25 }
+  }),
+  // Painter: a real clap (fast, aligned, away from the edges) clears the canvas
+  gesture({
+    id: 'clap-clear', event: 'RESET', levels: [DifficultyLevel.PAINTER], hands: 2,
+    when: isClap,
+    cooldownMs: 1500,
+    feedback: { label: "✨ ¡BORRADO!", color: "#ef4444", haptic: [80, 50, 80] }
+  })
+];
+
+/**
+ * Mirrors the held gestures into the shared pointer state: pointing, grabbing, and clasped hands
+ * pinning the pointer between the wrists. Returns whether the hands are clasped (planting).
+ */
+export function applyHeldGestures(engine: GestureEngine, frame: GestureFrame): boolean {
+  const { interaction, hands } = frame;
+  interaction.isPointing = engine.isActive('finger-gun');
+  interaction.isGrabbing = !interaction.isPointing && (engine.isActive('grab') || engine.isActive('grab-ball'));
+  const isPlanting = engine.isActive('clasp-plant');
+  if (isPlanting) {
+    const [a, b] = [hands[0].landmarks[0], hands[1].landmarks[0]];
+    interaction.x = 1 - (a.x + b.x) / 2;
+    interaction.y = (a.y + b.y) / 2;
+  }
+  return isPlanting;
+}
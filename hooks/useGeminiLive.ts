@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality } from '@google/genai';
+import { GoogleGenAI, Session, LiveServerMessage, Modality } from '@google/genai';
 import { createAudioBlob, decodeAudioData, PCM_SAMPLE_RATE, blobToBase64, OUTPUT_SAMPLE_RATE } from '../utils/audioUtils';
 import { ConnectionState, GardenEvent } from '../types';
 
@@ -15,7 +15,7 @@ export const useGeminiLive = ({ systemInstruction, onTranscript, onGardenEvent }
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   // Refs for cleanup and state management
-  const sessionRef = useRef<LiveSession | null>(null);
+  const sessionRef = useRef<Session | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
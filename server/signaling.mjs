@@ -0,0 +1,114 @@
+/**
+ * Signaling for networked play on a LAN (see utils/netSession.ts). Only relays the WebRTC
+ * offer / answer / ICE candidates between the two browsers in a room; game traffic never
+ * passes through here. No dependencies: plain Node http with Server-Sent Events.
+ *
+ *   npm run signaling            (PORT=8787 by default)
+ *
+ *   GET  /rooms/:room/events?peer=ID   event stream: peers | join | leave | signal | full
+ *   POST /rooms/:room/signal           { from, to, data } relayed to `to` as a signal event
+ */
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_PEERS = 2;
+const MAX_BODY_BYTES = 64 * 1024; // An SDP offer is a few KB
+const HEARTBEAT_MS = 15000;       // Keeps idle streams open through proxies
+
+/** @type {Map<string, Map<string, import('node:http').ServerResponse>>} room -> peer id -> event stream */
+const rooms = new Map();
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const push = (stream, message) => stream.write(`data: ${JSON.stringify(message)}\n\n`);
+
+const broadcast = (room, message, except) => {
+  rooms.get(room)?.forEach((stream, peer) => { if (peer !== except) push(stream, message); });
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) { reject(new Error('Body too large')); req.destroy(); }
+  });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const joinRoom = (req, res, room, peer) => {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const peers = rooms.get(room) || new Map();
+  // A reconnecting stream replaces its old self
+  peers.delete(peer);
+  if (peers.size >= MAX_PEERS) {
+    push(res, { type: 'full' });
+    res.end();
+    return;
+  }
+  push(res, { type: 'peers', peers: [...peers.keys()] });
+  broadcast(room, { type: 'join', peer });
+  peers.set(peer, res);
+  rooms.set(room, peers);
+  console.log(`[${room}] ${peer} joined (${peers.size}/${MAX_PEERS})`);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    if (peers.get(peer) !== res) return;
+    peers.delete(peer);
+    if (peers.size === 0) rooms.delete(room);
+    broadcast(room, { type: 'leave', peer });
+    console.log(`[${room}] ${peer} left`);
+  });
+};
+
+const relaySignal = async (req, res, room) => {
+  let message;
+  try { message = JSON.parse(await readBody(req)); } catch (e) { message = null; }
+  const target = message && rooms.get(room)?.get(message.to);
+  if (!target || typeof message.from !== 'string' || !rooms.get(room).has(message.from)) {
+    res.writeHead(404, CORS_HEADERS).end();
+    return;
+  }
+  push(target, { type: 'signal', from: message.from, data: message.data });
+  res.writeHead(204, CORS_HEADERS).end();
+};
+
+const decodeRoom = (raw) => {
+  try { return decodeURIComponent(raw); } catch (e) { return null; } // Malformed escape, e.g. %E0%A4%A
+};
+
+const handleRequest = (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const match = url.pathname.match(/^\/rooms\/([^/]{1,100})\/(events|signal)$/);
+  if (req.method === 'OPTIONS') return res.writeHead(204, CORS_HEADERS).end();
+  if (!match) return res.writeHead(404, CORS_HEADERS).end();
+  const room = decodeRoom(match[1]);
+  if (room === null) return res.writeHead(400, CORS_HEADERS).end();
+  const peer = url.searchParams.get('peer');
+  if (match[2] === 'events' && req.method === 'GET' && peer) return joinRoom(req, res, room, peer);
+  if (match[2] === 'signal' && req.method === 'POST') return relaySignal(req, res, room);
+  res.writeHead(400, CORS_HEADERS).end();
+};
+
+// One bad request must not take every room on the LAN down with it
+const failRequest = (res, err) => {
+  console.error('Request failed', err);
+  if (res.headersSent) res.destroy();
+  else res.writeHead(500, CORS_HEADERS).end();
+};
+
+const server = createServer((req, res) => {
+  try {
+    Promise.resolve(handleRequest(req, res)).catch(err => failRequest(res, err));
+  } catch (err) {
+    failRequest(res, err);
+  }
+});
+
+server.listen(PORT, '0.0.0.0', () => console.log(`Signaling server on http://0.0.0.0:${PORT}`));
@@ -0,0 +1,45 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel } from '../types';
+import { parseHandTrace } from '../utils/handTrace';
+import { replayGestureTrace } from '../utils/traceHarness';
+
+// Hand traces in the recorder's format (utils/handTrace.ts), 30 fps
+const loadTrace = (name: string) => parseHandTrace(JSON.parse(readFileSync(new URL(`./traces/${name}.json`, import.meta.url), 'utf8')));
+
+describe('replayGestureTrace', () => {
+  it('pinch grabs and releases, clasped hands plant again every 1.5 s', () => {
+    expect(replayGestureTrace(loadTrace('pinch-plant'))).toEqual([
+      { t: 495, event: 'GESTURE_GRAB', gesture: 'grab' },
+      { t: 1584, event: 'GESTURE_RELEASE', gesture: 'grab' },
+      { t: 2145, event: 'GESTURE_PLANT', gesture: 'clasp-plant' },
+      { t: 3663, event: 'GESTURE_PLANT', gesture: 'clasp-plant' }
+    ]);
+  });
+
+  it('a sideways swipe rotates the garden camera both ways', () => {
+    expect(replayGestureTrace(loadTrace('swipe-rotate'))).toEqual([
+      { t: 561, event: 'GESTURE_SWIPE', payload: { direction: 'RIGHT' }, gesture: 'camera-swipe' },
+      { t: 1749, event: 'GESTURE_SWIPE', payload: { direction: 'LEFT' }, gesture: 'camera-swipe' }
+    ]);
+  });
+
+  it('each clap clears the canvas once', () => {
+    expect(replayGestureTrace(loadTrace('clap-reset'))).toEqual([
+      { t: 462, event: 'RESET', gesture: 'clap-clear' },
+      { t: 2607, event: 'RESET', gesture: 'clap-clear' }
+    ]);
+  });
+
+  it('the finger gun shoots once per draw', () => {
+    expect(replayGestureTrace(loadTrace('finger-gun-shoot'))).toEqual([
+      { t: 495, event: 'GESTURE_SHOOT', gesture: 'finger-gun' },
+      { t: 1650, event: 'GESTURE_SHOOT', gesture: 'finger-gun' }
+    ]);
+  });
+
+  it('only fires the gestures of the level it replays in', () => {
+    expect(replayGestureTrace(loadTrace('finger-gun-shoot'), { level: DifficultyLevel.GARDEN }).map(e => e.event)).not.toContain('GESTURE_SHOOT');
+    expect(replayGestureTrace(loadTrace('clap-reset'), { level: DifficultyLevel.ARCADE })).toEqual([]);
+  });
+});
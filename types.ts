@@ -4,7 +4,8 @@ export enum DifficultyLevel {
   ARCADE = 'ARCADE',
   WALLBALL = 'WALLBALL',
   GUITAR = 'GUITAR',
-  PAINTER = 'PAINTER'
+  PAINTER = 'PAINTER',
+  DODGE = 'DODGE'
 }
 
 export interface LevelConfig {
@@ -31,16 +32,79 @@ export type GardenEvent =
   | 'GESTURE_SHOOT'   // Finger Gun -> Laser
   | 'GESTURE_PLAY_NOTE' // Guitar Fretboard interaction
   | 'GESTURE_STRUM'   // Guitar Strum interaction
+  | 'CHORD_CHANGE'    // Guitar chord selected
   | 'GESTURE_PAINT'   // Painting active
   | 'COLOR_CHANGE'    // Palette interaction
   | 'SAVE_SNAPSHOT'   // Save image command
+  | 'UNDO'            // Painter: remove last stroke
+  | 'REDO'            // Painter: restore last undone stroke
+  | 'TIMELAPSE'       // Painter: replay the recorded strokes (payload: { durationMs })
+  | 'SHAPE_SNAP'      // Painter: redraw the last stroke as a clean shape (payload: { points, from })
+  | 'LOAD_GARDEN'     // Restore a saved garden (payload: GardenDocument)
+  | 'BODY_JUMP'       // Body tracking: both feet off the ground
+  | 'BODY_SQUAT'      // Body tracking: hips dropped well below standing height
+  | 'BODY_LEAN'       // Body tracking: torso tilted sideways (payload: { direction })
+  | 'BODY_KICK'       // Body tracking: a fast raised foot (payload: { foot })
   | 'BLOOM'           // Environmental trigger
   | 'WIND'            // Environmental trigger
   | 'SUN'             // Environmental trigger
   | 'NIGHT';          // Environmental trigger
 
+// Payload carried by each event; events not listed carry none
+export interface GardenEventPayloads {
+  GESTURE_SWIPE: { direction: 'LEFT' | 'RIGHT' };
+  GESTURE_RELEASE: { string: number } | undefined; // Guitar: the string that was let go
+  GESTURE_PLAY_NOTE: { fret: number; string: number };
+  GESTURE_STRUM: { direction: 'UP' | 'DOWN'; chord?: string; frets?: (number | null)[] };
+  CHORD_CHANGE: { chord: string | null };
+  COLOR_CHANGE: { color: string };
+  TIMELAPSE: { durationMs: number };
+  SHAPE_SNAP: { points: { x: number; y: number }[]; from: { x: number; y: number } };
+  LOAD_GARDEN: GardenDocument;
+  BODY_LEAN: { direction: 'LEFT' | 'RIGHT' }; // On screen
+  BODY_KICK: { foot: 'LEFT' | 'RIGHT' };      // The player's own foot
+}
+
+export type GardenEventPayload<E extends GardenEvent> = E extends keyof GardenEventPayloads ? GardenEventPayloads[E] : undefined;
+
+export interface ChordShape {
+  name: string;
+  frets: (number | null)[]; // Per string, 1 (high E) to 6 (low E). null = muted
+}
+
+// Rhythm-game chart for the Guitar level (loaded from JSON)
+export interface ChartNote {
+  beat: number;     // Position in beats from the start of the song
+  string?: number;  // 1 (high E) - 6 (low E). Omitted for strums
+  fret?: number;    // 1 - 8
+  strum?: boolean;  // Hit with GESTURE_STRUM instead of a fret pinch
+}
+
+export interface SongChart {
+  title: string;
+  tempo: number; // BPM
+  timeSignature: [number, number];
+  notes: ChartNote[];
+}
+
+export type HitGrade = 'PERFECT' | 'GOOD' | 'MISS';
+
+export interface ChartStats {
+  title: string;
+  combo: number;
+  maxCombo: number;
+  accuracy: number; // 0 - 1
+  counts: Record<HitGrade, number>;
+  lastGrade: HitGrade | null;
+  isFinished: boolean;
+}
+
+export type BrushType = 'IMPASTO' | 'WATERCOLOR' | 'AIRBRUSH' | 'MARKER' | 'CHALK' | 'GLITTER' | 'ERASER';
+
+export type PainterFinger = 'index' | 'middle' | 'ring';
+
 export interface PainterCursor {
-  id: string; // 'index', 'middle', 'ring'
+  id: string; // 'index', or '<hand>-<finger>' in multi-finger mode (e.g. '1-middle')
   x: number;
   y: number;
   z: number;
@@ -48,6 +112,137 @@ export interface PainterCursor {
   vy: number; // Screen velocity Y
   color: string;
   size: number;
+  pressure: number; // 0 - 1, from how tight the pinch is
+  brush: BrushType;
+}
+
+// Painter stroke history. Strokes are stored as data so a layer can be rebuilt by replaying them.
+export interface StrokePoint {
+  x: number; // Normalized 0-1 (Screen space)
+  y: number;
+  size: number;     // Brush diameter as a fraction of the screen height
+  pressure: number; // 0 - 1
+  t: number;        // ms since the painting session started
+}
+
+// Mirror / kaleidoscope painting. HORIZONTAL mirrors left-right, VERTICAL top-bottom
+export type SymmetryMode = 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'BOTH' | 'RADIAL' | 'KALEIDOSCOPE';
+
+export interface PaintSymmetry {
+  mode: SymmetryMode;
+  folds: number; // Copies around the center for RADIAL / KALEIDOSCOPE
+}
+
+export interface PaintStroke {
+  id: string;
+  layer: number;
+  color: string;
+  brush: BrushType;
+  seed: number; // Drives the splat jitter so replays are identical
+  symmetry?: PaintSymmetry; // Absent = no symmetry
+  author?: string; // Networked play: the remote peer that painted it. Absent = this player
+  points: StrokePoint[];
+}
+
+// Clean shapes a rough painter stroke can snap to
+export type ShapeType = 'CIRCLE' | 'LINE' | 'RECTANGLE' | 'TRIANGLE' | 'STAR';
+
+export interface PaintLayer {
+  name: string;
+  visible: boolean;
+  opacity: number; // 0 - 1
+}
+
+export interface PaintHistory {
+  strokes: PaintStroke[];
+  redoStack: PaintStroke[];
+  layers: PaintLayer[];
+  activeLayer: number;
+  startedAt: number; // Epoch ms, origin of the stroke point timestamps
+}
+
+// Raw stroke export (.strokes.json)
+export interface StrokeDocument {
+  version: number;
+  aspect: number; // Width / height of the screen the strokes were painted on
+  createdAt: number;
+  layers: PaintLayer[];
+  strokes: PaintStroke[];
+}
+
+// Painter color palette (custom ones persist in localStorage)
+export interface ColorPalette {
+  id: string;
+  name: string;
+  colors: string[]; // '#rrggbb'
+  builtIn?: boolean; // Read-only presets
+}
+
+// Gestures taught by the user from their own examples (see utils/customGestures.ts)
+export type CustomGestureKind = 'POSE' | 'MOTION';
+
+export interface CustomGesture {
+  id: string;
+  name: string;
+  kind: CustomGestureKind;
+  event: GardenEvent;    // Emitted when recognized
+  payload?: GardenEventPayloads[keyof GardenEventPayloads];
+  samples: number[][][]; // Per example, frames of normalized landmarks (a pose has a single frame)
+}
+
+// Per-player hand measurements from the calibration wizard (see utils/calibration.ts)
+export interface ReachArea {
+  minX: number; maxX: number; // Raw (unmirrored) image coords, 0 - 1
+  minY: number; maxY: number;
+}
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;        // Player name
+  handScale: number;   // Wrist to index knuckle at the usual play distance, normalized image units
+  pinchClosed: number; // Thumb tip to index tip / handScale, pinching
+  pinchOpen: number;   // Same, with the hand relaxed open
+  reach: ReachArea;    // Where the index tip comfortably reaches
+  updatedAt: number;
+}
+
+// Recorded hand tracking, for replay without a camera and headless gesture checks (see utils/handTrace.ts)
+export interface HandTraceFrame {
+  t: number; // ms since the first frame
+  landmarks: { x: number; y: number; z: number }[][]; // Per detected hand (primary first), 21 raw points
+}
+
+export interface HandTrace {
+  version: number;
+  level: DifficultyLevel; // Level it was recorded in
+  width: number;          // Video size at recording time
+  height: number;
+  recordedAt: number;
+  frames: HandTraceFrame[];
+}
+
+// Full-body tracking (optional, see utils/bodyMotion.ts). Screen space like the hand pointer: 0 - 1, mirrored
+export type BodyLimb = 'leftHand' | 'rightHand' | 'leftElbow' | 'rightElbow' | 'leftFoot' | 'rightFoot'; // The player's own left / right
+
+export interface BodyPoint {
+  x: number;
+  y: number;
+  vx: number; // Screen units per second
+  vy: number;
+  visible: boolean;
+}
+
+export interface BodyInteractionState {
+  isTracking: boolean;      // A body is in view
+  head: BodyPoint;          // Nose
+  shoulders: BodyPoint;     // Midpoint of the shoulders
+  hips: BodyPoint;          // Midpoint of the hips
+  limbs: Record<BodyLimb, BodyPoint>; // Wrists, elbows and ankles
+  torso: number;            // Shoulders to hips distance: the body's size on screen
+  lean: number;             // -1 (left) to 1 (right) on screen
+  crouch: number;           // 0 standing to 1 deep squat
+  isJumping: boolean;
+  isSquatting: boolean;
 }
 
 // Mutable state for high-frequency updates (Shared between HandScanner and GardenScene)
@@ -69,8 +264,11 @@ export interface GardenInteractionState {
   // Painter Mode Specifics
   isPainting: boolean;
   brushSize: number; // 1 = Thin, 2 = Thick
+  brushType: BrushType;
+  symmetry: PaintSymmetry;
   activeColor: string; // Hex code for primary
-  painterColors: { index: string; middle: string; ring: string }; // Per-finger colors
+  painterColors: Record<PainterFinger, string>; // Per-finger colors
+  isMultiFinger: boolean; // Every extended finger paints its own stroke
   cursors: PainterCursor[]; // Multi-touch pointers
 
   // Physics Velocities
@@ -78,3 +276,59 @@ export interface GardenInteractionState {
   velocityY: number; // Screen Y
   velocityZ: number; // Depth/Push velocity
 }
+
+// Health / wave status reported by GardenScene for survival games (Arcade)
+export interface GameStatus {
+  health: number;
+  maxHealth: number;
+  wave: number;
+  isGameOver: boolean;
+}
+
+// Serializable Garden format (persisted to IndexedDB / exported as .json)
+export type PlantSpecies = 'TULIP' | 'DAISY' | 'TREE' | 'GRASS' | 'BUSH';
+
+export type GrowthStage = 'SEED' | 'SPROUT' | 'GROWING' | 'MATURE' | 'SEEDING';
+
+export interface SavedFlower {
+  species: PlantSpecies;
+  seed: number;        // Rebuilds the same procedural shape
+  position: [number, number, number];
+  rotation: [number, number, number];
+  petalColor: string;  // Hex
+  size: number;        // Fully grown scale
+  growth: number;      // 0 (seed) to 1 (mature)
+}
+
+export interface GardenDocument {
+  version: number;
+  id: string;
+  name: string;
+  updatedAt: number;
+  flowers: SavedFlower[];
+}
+
+// Networked play over a WebRTC data channel (see utils/netSession.ts and server/signaling.mjs)
+export type NetStatus = 'offline' | 'connecting' | 'waiting' | 'connected' | 'error';
+
+// Ownership of a shared scene object: a Lamport clock orders claims from both peers (see utils/sharedObjects.ts)
+export interface NetClaim {
+  owner: string; // Peer id
+  clock: number;
+}
+
+export type NetVector = [number, number, number];
+
+export type NetMessage =
+  | { kind: 'event'; event: GardenEvent; payload?: unknown }
+  // Compact interaction state, ~20 times a second on the unreliable channel. `position`: the 3D cursor, in world space
+  | { kind: 'pointer'; x: number; y: number; position: NetVector; hovering: boolean; grabbing: boolean; color: string }
+  // Frontón: whoever hit the ball last simulates it and streams its state
+  | { kind: 'ball'; claim: NetClaim; position: NetVector; velocity: NetVector }
+  // Painter: `points` replace everything from index `from` on (appending, or a whole redo / shape snap)
+  | { kind: 'stroke'; stroke: Omit<PaintStroke, 'points' | 'author'>; from: number; points: StrokePoint[] }
+  | { kind: 'unstroke'; id: string }
+  // Garden: a new plant; grabbing one claims it until it lands (claim null = released where it landed)
+  | { kind: 'plant'; id: string; flower: SavedFlower }
+  | { kind: 'flower'; id: string; claim: NetClaim | null; position: NetVector }
+  | { kind: 'flowerMove'; id: string; clock: number; position: NetVector; isHeld: boolean };
@@ -0,0 +1,143 @@
+import { BodyInteractionState, BodyLimb, BodyPoint, GardenEvent } from '../types';
+import { smoothPoint } from './handMotion';
+
+/**
+ * Full-body tracking on the 33-point pose model: smoothed head, torso and limbs in screen space,
+ * and jumps, squats, leans and kicks judged against the player's own standing posture.
+ */
+
+export type PoseLandmark = { x: number, y: number, z: number, visibility?: number };
+
+export interface BodyFiring {
+  event: GardenEvent;
+  payload?: unknown;
+}
+
+export interface BodyMotionState {
+  standingHipY: number | null; // Learned while the player stands; null until a body is seen
+  leanDirection: 'LEFT' | 'RIGHT' | null;
+  lastKick: number;
+}
+
+const NOSE = 0;
+const SHOULDERS: [number, number] = [11, 12];
+const HIPS: [number, number] = [23, 24];
+const LIMB_LANDMARKS: Record<BodyLimb, number> = { leftHand: 15, rightHand: 16, leftElbow: 13, rightElbow: 14, leftFoot: 27, rightFoot: 28 };
+export const BODY_LIMBS = Object.keys(LIMB_LANDMARKS) as BodyLimb[];
+
+const MIN_VISIBILITY = 0.5;
+const VELOCITY_ALPHA = 0.4;
+const STANDING_ALPHA = 0.02; // The standing height follows the player stepping closer or further, slowly
+const MIN_TORSO = 0.05;
+
+// Distances in torso lengths (shoulders to hips), so they hold at any distance from the camera
+const JUMP_ENTER = 0.2; const JUMP_EXIT = 0.08;
+const SQUAT_ENTER = 0.35; const SQUAT_EXIT = 0.2;
+const DEEP_SQUAT = 0.7;
+const LEAN_ENTER = 0.35; const LEAN_EXIT = 0.2;
+const FULL_LEAN = 0.6;
+const KICK_SPEED = 3;   // Torso lengths per second
+const KICK_RAISE = 0.3; // Kicking ankle above the other one
+const KICK_COOLDOWN_MS = 600;
+
+const createBodyPoint = (): BodyPoint => ({ x: 0.5, y: 0.5, vx: 0, vy: 0, visible: false });
+
+export function createBodyState(): BodyInteractionState {
+  return {
+    isTracking: false,
+    head: createBodyPoint(),
+    shoulders: createBodyPoint(),
+    hips: createBodyPoint(),
+    limbs: {
+      leftHand: createBodyPoint(), rightHand: createBodyPoint(),
+      leftElbow: createBodyPoint(), rightElbow: createBodyPoint(),
+      leftFoot: createBodyPoint(), rightFoot: createBodyPoint()
+    },
+    torso: 0.3,
+    lean: 0,
+    crouch: 0,
+    isJumping: false,
+    isSquatting: false
+  };
+}
+
+export const createBodyMotionState = (): BodyMotionState => ({ standingHipY: null, leanDirection: null, lastKick: 0 });
+
+const isVisible = (landmarks: PoseLandmark[], indices: number[]) => indices.every(i => (landmarks[i].visibility ?? 1) >= MIN_VISIBILITY);
+
+const midpoint = (landmarks: PoseLandmark[], [a, b]: [number, number]): PoseLandmark =>
+  ({ x: (landmarks[a].x + landmarks[b].x) / 2, y: (landmarks[a].y + landmarks[b].y) / 2, z: (landmarks[a].z + landmarks[b].z) / 2 });
+
+// Follows a raw (unmirrored) landmark: snaps when it reappears, otherwise smooths it and its velocity
+const trackPoint = (point: BodyPoint, raw: PoseLandmark, visible: boolean, dt: number) => {
+  if (!visible) {
+    point.visible = false;
+    point.vx *= 0.9; point.vy *= 0.9;
+    return;
+  }
+  const target = { x: 1 - raw.x, y: raw.y, z: 0 };
+  const next = point.visible ? smoothPoint({ x: point.x, y: point.y, z: 0 }, target, dt) : target;
+  point.vx = point.visible ? point.vx * (1 - VELOCITY_ALPHA) + ((next.x - point.x) / dt) * VELOCITY_ALPHA : 0;
+  point.vy = point.visible ? point.vy * (1 - VELOCITY_ALPHA) + ((next.y - point.y) / dt) * VELOCITY_ALPHA : 0;
+  point.x = next.x; point.y = next.y;
+  point.visible = true;
+};
+
+/** No body this frame: everything lets go, the learned standing height is kept. */
+export function releaseBodyMotion(body: BodyInteractionState) {
+  body.isTracking = false;
+  body.isJumping = false;
+  body.isSquatting = false;
+  body.crouch = 0;
+  body.lean = 0;
+  [body.head, body.shoulders, body.hips, ...BODY_LIMBS.map(limb => body.limbs[limb])].forEach(point => { point.visible = false; });
+}
+
+/** Updates the shared body state from one pose and returns the body events of this frame. */
+export function updateBodyMotion(state: BodyMotionState, body: BodyInteractionState, landmarks: PoseLandmark[], dt: number, now: number): BodyFiring[] {
+  // Without shoulders and hips there is no posture to judge
+  if (!isVisible(landmarks, [...SHOULDERS, ...HIPS])) {
+    releaseBodyMotion(body);
+    state.leanDirection = null;
+    return [];
+  }
+  body.isTracking = true;
+  trackPoint(body.head, landmarks[NOSE], isVisible(landmarks, [NOSE]), dt);
+  trackPoint(body.shoulders, midpoint(landmarks, SHOULDERS), true, dt);
+  trackPoint(body.hips, midpoint(landmarks, HIPS), true, dt);
+  BODY_LIMBS.forEach(limb => {
+    const index = LIMB_LANDMARKS[limb];
+    trackPoint(body.limbs[limb], landmarks[index], isVisible(landmarks, [index]), dt);
+  });
+  const torso = Math.max(MIN_TORSO, Math.hypot(body.shoulders.x - body.hips.x, body.shoulders.y - body.hips.y));
+  body.torso = torso;
+
+  const fired: BodyFiring[] = [];
+  if (state.standingHipY === null) state.standingHipY = body.hips.y;
+  const rise = (state.standingHipY - body.hips.y) / torso; // Screen y grows downwards
+  const wasJumping = body.isJumping; const wasSquatting = body.isSquatting;
+  body.isJumping = rise > (wasJumping ? JUMP_EXIT : JUMP_ENTER);
+  body.isSquatting = -rise > (wasSquatting ? SQUAT_EXIT : SQUAT_ENTER);
+  body.crouch = Math.max(0, Math.min(1, -rise / DEEP_SQUAT));
+  if (body.isJumping && !wasJumping) fired.push({ event: 'BODY_JUMP' });
+  if (body.isSquatting && !wasSquatting) fired.push({ event: 'BODY_SQUAT' });
+  if (!body.isJumping && !body.isSquatting) state.standingHipY += (body.hips.y - state.standingHipY) * STANDING_ALPHA;
+
+  const offset = (body.shoulders.x - body.hips.x) / torso;
+  body.lean = Math.max(-1, Math.min(1, offset / FULL_LEAN));
+  const leanDirection = Math.abs(offset) > (state.leanDirection ? LEAN_EXIT : LEAN_ENTER) ? (offset < 0 ? 'LEFT' : 'RIGHT') : null;
+  if (leanDirection && leanDirection !== state.leanDirection) fired.push({ event: 'BODY_LEAN', payload: { direction: leanDirection } });
+  state.leanDirection = leanDirection;
+
+  // A kick is a foot moving fast while raised above the other one, not both feet leaving the ground
+  const { leftFoot, rightFoot } = body.limbs;
+  if (!body.isJumping && leftFoot.visible && rightFoot.visible && now - state.lastKick >= KICK_COOLDOWN_MS) {
+    const kicking = ([['LEFT', leftFoot, rightFoot], ['RIGHT', rightFoot, leftFoot]] as const).find(([, foot, other]) =>
+      Math.hypot(foot.vx, foot.vy) / torso > KICK_SPEED && (other.y - foot.y) / torso > KICK_RAISE);
+    if (kicking) {
+      state.lastKick = now;
+      fired.push({ event: 'BODY_KICK', payload: { foot: kicking[0] } });
+    }
+  }
+  return fired;
+}
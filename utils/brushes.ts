@@ -0,0 +1,229 @@
+import * as THREE from 'three';
+import { BrushType } from '../types';
+
+export interface BrushTextures {
+  colorTex: THREE.Texture; // White RGB, shape in alpha: the material color tints it
+  normalTex?: THREE.Texture;
+}
+
+export interface BrushDefinition {
+  label: string;
+  icon: string;
+  opacity: number;
+  spacing: number;               // Splat spacing, as a multiple of the base interpolation step
+  sizeJitter: [number, number];  // Random scale range per splat
+  scatter: number;               // Random offset, as a fraction of the brush size
+  randomRotation: boolean;       // Otherwise splats follow the stroke direction
+  createTextures: () => BrushTextures | null;
+  createMaterial: (color: string, textures: BrushTextures) => THREE.Material;
+}
+
+const TEXTURE_SIZE = 128;
+
+// Draws a white brush shape on a transparent canvas and wraps it as a texture
+const canvasTexture = (draw: (ctx: CanvasRenderingContext2D, size: number) => void, size: number = TEXTURE_SIZE): BrushTextures | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  draw(ctx, size);
+  return { colorTex: new THREE.CanvasTexture(canvas) };
+};
+
+const splatMaterial = (color: string, textures: BrushTextures, opacity: number, blending: THREE.Blending = THREE.NormalBlending) =>
+  new THREE.MeshBasicMaterial({ color, map: textures.colorTex, transparent: true, opacity, blending, depthTest: false, depthWrite: false, side: THREE.DoubleSide });
+
+// Height map with dragged bristle lines, turned into a normal map so the paint catches the light
+const createImpastoTextures = (): BrushTextures | null => {
+  const size = 256; 
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const cx = size / 2;
+  const cy = size / 2;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, size, size);
+  const gradient = ctx.createRadialGradient(cx, cy, size * 0.1, cx, cy, size * 0.5);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1.0)'); 
+  gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.5)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+  ctx.globalCompositeOperation = 'multiply'; 
+  ctx.strokeStyle = '#cccccc'; 
+  for (let i = 0; i < 100; i++) {
+      const x = Math.random() * size;
+      const width = size * 0.8;
+      const y = Math.random() * size;
+      ctx.beginPath();
+      ctx.moveTo(x - width/2, y);
+      ctx.bezierCurveTo(x - width/4, y + Math.random()*4, x + width/4, y - Math.random()*4, x + width/2, y);
+      ctx.lineWidth = 1 + Math.random() * 2;
+      ctx.stroke();
+  }
+  const imgData = ctx.getImageData(0, 0, size, size);
+  const data = imgData.data;
+  const normalData = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+          const i = (y * size + x) * 4;
+          const h = data[i] / 255.0; 
+          const x1 = Math.min(x + 1, size - 1);
+          const y1 = Math.min(y + 1, size - 1);
+          const iX = (y * size + x1) * 4;
+          const iY = (y1 * size + x) * 4;
+          const hX = data[iX] / 255.0;
+          const hY = data[iY] / 255.0;
+          const scale = 15.0; 
+          const dx = (h - hX) * scale;
+          const dy = (h - hY) * scale;
+          const dz = 1.0;
+          const len = Math.sqrt(dx*dx + dy*dy + dz*dz);
+          normalData[i]   = ((dx/len) * 0.5 + 0.5) * 255;
+          normalData[i+1] = ((dy/len) * 0.5 + 0.5) * 255;
+          normalData[i+2] = ((dz/len) * 0.5 + 0.5) * 255;
+          normalData[i+3] = 255;
+      }
+  }
+  const normalTex = new THREE.DataTexture(normalData, size, size, THREE.RGBAFormat);
+  normalTex.needsUpdate = true;
+  const colorData = imgData.data;
+  for (let i = 0; i < colorData.length; i+=4) {
+      const val = colorData[i]; 
+      colorData[i] = 255; colorData[i+1] = 255; colorData[i+2] = 255; colorData[i+3] = val; 
+  }
+  ctx.putImageData(imgData, 0, 0);
+  const colorTex = new THREE.CanvasTexture(canvas);
+  return { colorTex, normalTex };
+};
+
+// Pale wash with a darker "wet edge" ring and pigment granulation
+const createWatercolorTextures = () => canvasTexture((ctx, size) => {
+  const c = size / 2;
+  for (let i = 0; i < 4; i++) {
+    // A few offset blobs make the outline irregular, like pigment bleeding into wet paper
+    const ox = c + (Math.random() - 0.5) * size * 0.15; const oy = c + (Math.random() - 0.5) * size * 0.15;
+    const gradient = ctx.createRadialGradient(ox, oy, 0, ox, oy, size * 0.42);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 0.15)');
+    gradient.addColorStop(0.75, 'rgba(255, 255, 255, 0.3)');
+    gradient.addColorStop(0.9, 'rgba(255, 255, 255, 0.55)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = gradient;
+    ctx.beginPath(); ctx.arc(ox, oy, size * 0.42, 0, Math.PI * 2); ctx.fill();
+  }
+  ctx.globalCompositeOperation = 'destination-out';
+  for (let i = 0; i < 300; i++) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${Math.random() * 0.3})`;
+    ctx.fillRect(Math.random() * size, Math.random() * size, 2, 2);
+  }
+});
+
+const createAirbrushTextures = () => canvasTexture((ctx, size) => {
+  const c = size / 2;
+  const gradient = ctx.createRadialGradient(c, c, 0, c, c, c);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+  gradient.addColorStop(0.3, 'rgba(255, 255, 255, 0.6)');
+  gradient.addColorStop(0.6, 'rgba(255, 255, 255, 0.15)');
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+});
+
+// Chisel tip: flat, hard-edged and fully opaque
+const createMarkerTextures = () => canvasTexture((ctx, size) => {
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.roundRect(size * 0.3, size * 0.1, size * 0.4, size * 0.8, size * 0.08);
+  ctx.fill();
+});
+
+// Dry grainy dots, denser in the middle
+const createChalkTextures = () => canvasTexture((ctx, size) => {
+  const c = size / 2;
+  for (let i = 0; i < 900; i++) {
+    const r = Math.sqrt(Math.random()) * c * 0.9; const a = Math.random() * Math.PI * 2;
+    ctx.fillStyle = `rgba(255, 255, 255, ${0.4 + Math.random() * 0.6})`;
+    const dot = 1 + Math.random() * 2.5;
+    ctx.fillRect(c + Math.cos(a) * r, c + Math.sin(a) * r, dot, dot);
+  }
+});
+
+// Four-point sparkle with a glowing core
+const createGlitterTextures = () => canvasTexture((ctx, size) => {
+  const c = size / 2;
+  const glow = ctx.createRadialGradient(c, c, 0, c, c, c * 0.5);
+  glow.addColorStop(0, 'rgba(255, 255, 255, 1)');
+  glow.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  for (let i = 0; i < 8; i++) {
+    const r = i % 2 === 0 ? c * 0.95 : c * 0.12;
+    const a = (i / 8) * Math.PI * 2;
+    ctx.lineTo(c + Math.cos(a) * r, c + Math.sin(a) * r);
+  }
+  ctx.closePath();
+  ctx.fill();
+});
+
+const createEraserTextures = () => canvasTexture((ctx, size) => {
+  const c = size / 2;
+  const gradient = ctx.createRadialGradient(c, c, c * 0.6, c, c, c);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+});
+
+export const BRUSHES: Record<BrushType, BrushDefinition> = {
+  IMPASTO: {
+    label: 'Óleo', icon: '🖌️', opacity: 1, spacing: 1, sizeJitter: [0.9, 1.1], scatter: 0, randomRotation: false,
+    createTextures: createImpastoTextures,
+    createMaterial: (color, textures) => new THREE.MeshStandardMaterial({
+      color, map: textures.colorTex, normalMap: textures.normalTex, normalScale: new THREE.Vector2(2, 2), roughness: 0.3, metalness: 0.1,
+      transparent: true, opacity: 1.0, depthTest: false, depthWrite: false, side: THREE.DoubleSide
+    })
+  },
+  WATERCOLOR: {
+    label: 'Acuarela', icon: '💧', opacity: 0.35, spacing: 6, sizeJitter: [1.1, 1.7], scatter: 0.12, randomRotation: true,
+    createTextures: createWatercolorTextures,
+    createMaterial: (color, textures) => splatMaterial(color, textures, 0.35)
+  },
+  AIRBRUSH: {
+    label: 'Aerógrafo', icon: '🌫️', opacity: 0.12, spacing: 3, sizeJitter: [1.3, 1.6], scatter: 0.08, randomRotation: true,
+    createTextures: createAirbrushTextures,
+    createMaterial: (color, textures) => splatMaterial(color, textures, 0.12)
+  },
+  MARKER: {
+    label: 'Rotulador', icon: '🖊️', opacity: 1, spacing: 1, sizeJitter: [1, 1], scatter: 0, randomRotation: false,
+    createTextures: createMarkerTextures,
+    createMaterial: (color, textures) => splatMaterial(color, textures, 1)
+  },
+  CHALK: {
+    label: 'Tiza', icon: '🖍️', opacity: 0.8, spacing: 4, sizeJitter: [0.8, 1.2], scatter: 0.1, randomRotation: true,
+    createTextures: createChalkTextures,
+    createMaterial: (color, textures) => splatMaterial(color, textures, 0.8)
+  },
+  GLITTER: {
+    label: 'Purpurina', icon: '✨', opacity: 0.9, spacing: 25, sizeJitter: [0.2, 0.6], scatter: 0.9, randomRotation: true,
+    createTextures: createGlitterTextures,
+    createMaterial: (color, textures) => splatMaterial(color, textures, 0.9, THREE.AdditiveBlending)
+  },
+  ERASER: {
+    label: 'Borrador', icon: '🧽', opacity: 1, spacing: 2, sizeJitter: [1.5, 1.5], scatter: 0, randomRotation: true,
+    createTextures: createEraserTextures,
+    // Scales the destination color and alpha down by the splat alpha (layer targets are premultiplied)
+    createMaterial: (_color, textures) => new THREE.MeshBasicMaterial({
+      map: textures.colorTex, transparent: true, depthTest: false, depthWrite: false, side: THREE.DoubleSide,
+      blending: THREE.CustomBlending, blendEquation: THREE.AddEquation,
+      blendSrc: THREE.ZeroFactor, blendDst: THREE.OneMinusSrcAlphaFactor,
+      blendSrcAlpha: THREE.ZeroFactor, blendDstAlpha: THREE.OneMinusSrcAlphaFactor
+    })
+  }
+};
+
+export const BRUSH_TYPES = Object.keys(BRUSHES) as BrushType[];
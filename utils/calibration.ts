@@ -0,0 +1,85 @@
+import { CalibrationProfile, ReachArea } from '../types';
+import { Landmark } from './gestures';
+
+/**
+ * Turns a player's calibration into the thresholds HandScanner and the gesture registry use.
+ * Without a profile the thresholds are the original constants, tuned on an adult hand at arm's length.
+ */
+
+export interface HandThresholds {
+  pinchStart: number;          // Painter / menu pinch: starts below, normalized image units
+  pinchEnd: number;            // Painter pinch ends above
+  grab: [number, number];      // Garden grab enter / exit, x handScale
+  grabBall: [number, number];  // WallBall grab enter / exit, x handScale
+  press: number;               // Guitar fret press, x handScale
+  clapDistance: number;        // Wrist to wrist for a clap, normalized image units
+}
+
+export const DEFAULT_THRESHOLDS: HandThresholds = {
+  pinchStart: 0.08,
+  pinchEnd: 0.12,
+  grab: [0.8, 1.4],
+  grabBall: [1.2, 2.0],
+  press: 0.5,
+  clapDistance: 0.1
+};
+
+// The hand the defaults were tuned on
+const REFERENCE_HAND_SCALE = 0.1;
+const REFERENCE_PINCH_CLOSED = 0.3;
+const REFERENCE_PINCH_OPEN = 2.0;
+
+export const MIN_REACH_SPAN = 0.3; // Narrower areas would make the pointer jumpy
+export const FULL_REACH: ReachArea = { minX: 0, maxX: 1, minY: 0, maxY: 1 };
+
+const isFullReach = (reach: ReachArea) => reach.minX <= 0 && reach.maxX >= 1 && reach.minY <= 0 && reach.maxY >= 1;
+
+export function getHandThresholds(profile?: CalibrationProfile | null): HandThresholds {
+  if (!profile) return DEFAULT_THRESHOLDS;
+  // A pinch ratio keeps its place between this player's closed and open pinch
+  const remap = (ratio: number) =>
+    profile.pinchClosed + ((ratio - REFERENCE_PINCH_CLOSED) * (profile.pinchOpen - profile.pinchClosed)) / (REFERENCE_PINCH_OPEN - REFERENCE_PINCH_CLOSED);
+  // Absolute distances also follow the player's hand size, and grow with the reach stretch (see remapToReach)
+  const { reach } = profile;
+  const stretch = 1 / Math.sqrt((reach.maxX - reach.minX) * (reach.maxY - reach.minY));
+  const absolute = (distance: number) => remap(distance / REFERENCE_HAND_SCALE) * profile.handScale * stretch;
+  return {
+    pinchStart: absolute(DEFAULT_THRESHOLDS.pinchStart),
+    pinchEnd: absolute(DEFAULT_THRESHOLDS.pinchEnd),
+    grab: [remap(DEFAULT_THRESHOLDS.grab[0]), remap(DEFAULT_THRESHOLDS.grab[1])],
+    grabBall: [remap(DEFAULT_THRESHOLDS.grabBall[0]), remap(DEFAULT_THRESHOLDS.grabBall[1])],
+    press: remap(DEFAULT_THRESHOLDS.press),
+    clapDistance: (DEFAULT_THRESHOLDS.clapDistance / REFERENCE_HAND_SCALE) * profile.handScale * stretch
+  };
+}
+
+/**
+ * Stretches the comfortable reach area over the whole frame, so a small or seated player
+ * reaches every corner. Returns the landmarks untouched when the area is the full frame.
+ */
+export function remapToReach(landmarks: Landmark[], reach: ReachArea): Landmark[] {
+  if (isFullReach(reach)) return landmarks;
+  const spanX = reach.maxX - reach.minX; const spanY = reach.maxY - reach.minY;
+  return landmarks.map(p => ({ ...p, x: (p.x - reach.minX) / spanX, y: (p.y - reach.minY) / spanY }));
+}
+
+const percentile = (values: number[], p: number) => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+};
+
+export const median = (values: number[]) => percentile(values, 0.5);
+
+const widen = (min: number, max: number) => {
+  const center = (min + max) / 2; const half = Math.max(MIN_REACH_SPAN, max - min) / 2;
+  const lo = Math.max(0, Math.min(1 - half * 2, center - half));
+  return [lo, Math.min(1, lo + half * 2)];
+};
+
+/** Reach area from the index tips seen while the player swept the frame; outliers (tracking glitches) are dropped. */
+export function measureReach(points: { x: number, y: number }[]): ReachArea {
+  if (points.length < 10) return FULL_REACH;
+  const [minX, maxX] = widen(percentile(points.map(p => p.x), 0.05), percentile(points.map(p => p.x), 0.95));
+  const [minY, maxY] = widen(percentile(points.map(p => p.y), 0.05), percentile(points.map(p => p.y), 0.95));
+  return { minX, maxX, minY, maxY };
+}
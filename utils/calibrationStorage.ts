@@ -0,0 +1,39 @@
+import { CalibrationProfile } from '../types';
+import { FULL_REACH, MIN_REACH_SPAN } from './calibration';
+import { readStoredList, readStoredString, writeStoredJson, writeStoredString } from './localStore';
+
+const PLAYERS_KEY = 'divervisiones.players';
+const ACTIVE_PLAYER_KEY = 'divervisiones.activePlayer';
+
+export function createCalibrationProfile(name: string, measurements: Omit<CalibrationProfile, 'id' | 'name' | 'updatedAt'>): CalibrationProfile {
+  return { id: `player-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, updatedAt: Date.now(), ...measurements };
+}
+
+const isPositive = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+const isValidReach = (reach: any) =>
+  reach && [reach.minX, reach.maxX, reach.minY, reach.maxY].every(v => typeof v === 'number' && v >= 0 && v <= 1)
+  && reach.maxX - reach.minX >= MIN_REACH_SPAN && reach.maxY - reach.minY >= MIN_REACH_SPAN;
+
+// Profiles with impossible measurements are dropped, an unusable reach falls back to the full frame
+export function loadCalibrationProfiles(): CalibrationProfile[] {
+  return readStoredList(PLAYERS_KEY)
+    .filter(p => p && typeof p.id === 'string' && isPositive(p.handScale) && isPositive(p.pinchClosed) && isPositive(p.pinchOpen) && p.pinchOpen > p.pinchClosed)
+    .map(p => ({
+      id: p.id, name: String(p.name || 'Jugador'), handScale: p.handScale, pinchClosed: p.pinchClosed, pinchOpen: p.pinchOpen,
+      reach: isValidReach(p.reach) ? p.reach : FULL_REACH, updatedAt: Number(p.updatedAt) || 0
+    }));
+}
+
+export function saveCalibrationProfiles(profiles: CalibrationProfile[]) {
+  writeStoredJson(PLAYERS_KEY, profiles);
+}
+
+// Empty string: no player selected, default thresholds
+export function loadActivePlayerId(): string {
+  return readStoredString(ACTIVE_PLAYER_KEY, '');
+}
+
+export function saveActivePlayerId(id: string) {
+  writeStoredString(ACTIVE_PLAYER_KEY, id);
+}
@@ -0,0 +1,72 @@
+const RECORDING_FPS = 30;
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export interface CanvasRecorder {
+  stop: () => Promise<Blob>;
+}
+
+/**
+ * Flattens the mirrored camera feed and the WebGL layer into one 2D canvas.
+ * Shared by snapshots and video recording so both look like what the player sees.
+ */
+export function drawComposite(ctx: CanvasRenderingContext2D, video: HTMLVideoElement | null, glCanvas: HTMLCanvasElement) {
+  const { width, height } = ctx.canvas;
+  if (video) {
+    ctx.save();
+    ctx.scale(-1, 1);
+    ctx.drawImage(video, -width, 0, width, height);
+    ctx.restore();
+  } else {
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(glCanvas, 0, 0, width, height);
+}
+
+export function createCompositeCanvas(video: HTMLVideoElement | null): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = video?.videoWidth || 640;
+  canvas.height = video?.videoHeight || 480;
+  return canvas;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Records the composited camera + WebGL view as WebM until `stop()` is called.
+ * The composite is redrawn every animation frame into a captured offscreen canvas.
+ */
+export function startCompositeRecording(video: HTMLVideoElement | null, glCanvas: HTMLCanvasElement): CanvasRecorder {
+  const canvas = createCompositeCanvas(video);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D not available");
+
+  let frameId = 0;
+  const draw = () => {
+    drawComposite(ctx, video, glCanvas);
+    frameId = requestAnimationFrame(draw);
+  };
+  draw();
+
+  const stream = canvas.captureStream(RECORDING_FPS);
+  const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start(1000);
+
+  const stop = () => new Promise<Blob>(resolve => {
+    const finish = () => {
+      cancelAnimationFrame(frameId);
+      stream.getTracks().forEach(t => t.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    if (recorder.state === 'inactive') { finish(); return; }
+    recorder.onstop = finish;
+    recorder.stop();
+  });
+
+  return { stop };
+}
@@ -0,0 +1,50 @@
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(v => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * HSV to hex. Hue in degrees, saturation and value 0 - 1.
+ */
+export function hsvToHex(hue: number, saturation: number, value: number): string {
+  const h = ((hue % 360) + 360) % 360 / 60;
+  const s = clamp01(saturation); const v = clamp01(value);
+  const c = v * s;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const [r, g, b] = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x];
+  const m = v - c;
+  return rgbToHex((r + m) * 255, (g + m) * 255, (b + m) * 255);
+}
+
+export function hexToHsv(hex: string): { hue: number, saturation: number, value: number } {
+  const n = parseInt(hex.replace('#', ''), 16) || 0;
+  const r = ((n >> 16) & 255) / 255; const g = ((n >> 8) & 255) / 255; const b = (n & 255) / 255;
+  const max = Math.max(r, g, b); const d = max - Math.min(r, g, b);
+  let hue = 0;
+  if (d > 0) {
+    if (max === r) hue = ((g - b) / d) % 6;
+    else if (max === g) hue = (b - r) / d + 2;
+    else hue = (r - g) / d + 4;
+  }
+  return { hue: (hue * 60 + 360) % 360, saturation: max === 0 ? 0 : d / max, value: max };
+}
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+/**
+ * Averages a small square of the live camera frame around a normalized (unmirrored) point.
+ * `ctx` is a scratch canvas, at least (radius * 2 + 1) px square.
+ */
+export function sampleVideoColor(video: HTMLVideoElement, x: number, y: number, ctx: CanvasRenderingContext2D, radius: number = 3): string | null {
+  if (!video.videoWidth || video.readyState < 2) return null;
+  const size = radius * 2 + 1;
+  const sx = Math.min(video.videoWidth - size, Math.max(0, Math.round(x * video.videoWidth) - radius));
+  const sy = Math.min(video.videoHeight - size, Math.max(0, Math.round(y * video.videoHeight) - radius));
+  ctx.drawImage(video, sx, sy, size, size, 0, 0, size, size);
+  const data = ctx.getImageData(0, 0, size, size).data;
+  let r = 0; let g = 0; let b = 0;
+  for (let i = 0; i < data.length; i += 4) { r += data[i]; g += data[i + 1]; b += data[i + 2]; }
+  const count = data.length / 4;
+  return rgbToHex(r / count, g / count, b / count);
+}
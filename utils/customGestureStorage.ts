@@ -0,0 +1,25 @@
+import { CustomGesture } from '../types';
+import { MAX_GESTURE_SAMPLES } from './customGestures';
+import { getGestureAction } from '../data/gestureActions';
+import { readStoredList, writeStoredJson } from './localStore';
+
+const CUSTOM_GESTURES_KEY = 'divervisiones.customGestures';
+
+export function createCustomGesture(fields: Omit<CustomGesture, 'id'>): CustomGesture {
+  return { id: `gesture-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, ...fields };
+}
+
+const isFrameList = (sample: unknown): sample is number[][] =>
+  Array.isArray(sample) && sample.length > 0 && sample.every(frame => Array.isArray(frame) && frame.every(v => typeof v === 'number' && Number.isFinite(v)));
+
+// Drop whatever does not parse, and gestures mapped to an event + payload that is not one of the trainer's actions
+export function loadCustomGestures(): CustomGesture[] {
+  return readStoredList(CUSTOM_GESTURES_KEY)
+    .filter(g => g && typeof g.id === 'string' && typeof g.event === 'string' && (g.kind === 'POSE' || g.kind === 'MOTION') && Array.isArray(g.samples) && !!getGestureAction(g))
+    .map(g => ({ id: g.id, name: String(g.name || 'Gesto'), kind: g.kind, event: g.event, payload: g.payload, samples: g.samples.filter(isFrameList).slice(0, MAX_GESTURE_SAMPLES) }))
+    .filter(g => g.samples.length > 0);
+}
+
+export function saveCustomGestures(gestures: CustomGesture[]) {
+  writeStoredJson(CUSTOM_GESTURES_KEY, gestures);
+}
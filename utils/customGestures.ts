@@ -0,0 +1,152 @@
+import { CustomGesture, DifficultyLevel } from '../types';
+import { GestureDefinition, GestureFrame, Landmark, landmarkDistance } from './gestures';
+
+/**
+ * Gestures taught by the user from a few examples. Landmarks are made wrist-relative and
+ * scale-invariant; poses are matched by k-nearest neighbors, motions by dynamic time warping.
+ */
+
+export const MIN_GESTURE_SAMPLES = 3;
+export const MAX_GESTURE_SAMPLES = 8;
+export const MOTION_DURATION_MS = 1500; // Length of a recorded motion, and of the live window
+
+const MOTION_FRAMES = 20;        // Motions are resampled in time to this many frames
+const MOTION_PATH_WEIGHT = 1;    // Per hand size of wrist path apart, vs. the RMS hand shape distance
+const MIN_MOTION_TRAVEL = 1.5;   // Wrist travel (in hand sizes) below which the hand is just held
+const POSE_NEIGHBORS = 3;
+const POSE_MAX_DISTANCE = 0.35;  // RMS landmark distance, in hand sizes
+const MOTION_MAX_DISTANCE = 0.5;
+const SPREAD_MARGIN = 1.5;       // Thresholds widen up to 2x for users whose examples vary a lot
+const POSE_HOLD_MS = 300;
+const CUSTOM_COOLDOWN_MS = 1000;
+
+export interface TimedHand { t: number; landmarks: Landmark[] }
+
+const handSize = (landmarks: Landmark[]) => landmarkDistance(landmarks[0], landmarks[5]) || 0.1;
+
+/** Landmarks relative to the wrist, in hand sizes (wrist to index knuckle). */
+export function normalizeHandPose(landmarks: Landmark[]): number[] {
+  const wrist = landmarks[0]; const scale = handSize(landmarks);
+  return landmarks.slice(1).flatMap(p => [(p.x - wrist.x) / scale, (p.y - wrist.y) / scale]);
+}
+
+/** A recorded motion as evenly timed frames of [wrist path since the start, hand pose]. */
+export function createMotionSample(hands: TimedHand[]): number[][] {
+  const first = hands[0]; const origin = first.landmarks[0]; const scale = handSize(first.landmarks);
+  const duration = hands[hands.length - 1].t - first.t || 1;
+  let j = 0;
+  return Array.from({ length: MOTION_FRAMES }, (_, i) => {
+    const t = first.t + (duration * i) / (MOTION_FRAMES - 1);
+    while (j < hands.length - 1 && hands[j + 1].t <= t) j++;
+    const { landmarks } = hands[j];
+    return [
+      (landmarks[0].x - origin.x) / scale,
+      (landmarks[0].y - origin.y) / scale,
+      ...normalizeHandPose(landmarks)
+    ];
+  });
+}
+
+const rmsDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum / a.length);
+};
+
+// Where the wrist went and what the hand looked like, weighed separately so the shape does not drown the path
+const motionFrameDistance = (a: number[], b: number[]) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1]) * MOTION_PATH_WEIGHT + rmsDistance(a.slice(2), b.slice(2));
+
+/** Dynamic time warping within a Sakoe-Chiba band, averaged per step. */
+export function dtwDistance(a: number[][], b: number[][], band: number = Math.ceil(MOTION_FRAMES / 4)): number {
+  const n = a.length; const m = b.length; const width = m + 1;
+  const cost = new Float64Array((n + 1) * width).fill(Infinity);
+  cost[0] = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = Math.max(1, i - band); j <= Math.min(m, i + band); j++) {
+      cost[i * width + j] = motionFrameDistance(a[i - 1], b[j - 1]) + Math.min(cost[(i - 1) * width + j], cost[i * width + j - 1], cost[(i - 1) * width + j - 1]);
+    }
+  }
+  return cost[n * width + m] / Math.max(n, m);
+}
+
+const wristTravel = (hands: TimedHand[]) =>
+  hands.reduce((sum, h, i) => i === 0 ? 0 : sum + landmarkDistance(hands[i - 1].landmarks[0], h.landmarks[0]), 0) / handSize(hands[0].landmarks);
+
+// How far apart the user's own examples are, so shaky or loose repetitions still count
+const matchThreshold = (gesture: CustomGesture) => {
+  const base = gesture.kind === 'POSE' ? POSE_MAX_DISTANCE : MOTION_MAX_DISTANCE;
+  const { samples } = gesture;
+  let sum = 0; let pairs = 0;
+  for (let i = 0; i < samples.length; i++) {
+    for (let j = i + 1; j < samples.length; j++) {
+      sum += gesture.kind === 'POSE' ? rmsDistance(samples[i][0], samples[j][0]) : dtwDistance(samples[i], samples[j]);
+      pairs++;
+    }
+  }
+  return pairs ? Math.min(base * 2, Math.max(base, (sum / pairs) * SPREAD_MARGIN)) : base;
+};
+
+/**
+ * Classifies the primary hand once per frame: the id of the matching custom gesture, or null.
+ * Keeps the last MOTION_DURATION_MS of the hand for motions.
+ */
+export function createCustomGestureClassifier(gestures: CustomGesture[]) {
+  const thresholds = new Map(gestures.map(g => [g.id, matchThreshold(g)]));
+  const poseSamples = gestures.filter(g => g.kind === 'POSE').flatMap(g => g.samples.map(sample => ({ id: g.id, vector: sample[0] })));
+  const motions = gestures.filter(g => g.kind === 'MOTION');
+  let history: TimedHand[] = [];
+  let lastFrame: GestureFrame | null = null; let match: string | null = null;
+
+  const classifyMotion = () => {
+    if (history.length < 2 || history[history.length - 1].t - history[0].t < MOTION_DURATION_MS * 0.8 || wristTravel(history) < MIN_MOTION_TRAVEL) return null;
+    const live = createMotionSample(history);
+    let bestId: string | null = null; let bestDistance = Infinity;
+    for (const g of motions) {
+      for (const sample of g.samples) {
+        const distance = dtwDistance(live, sample);
+        if (distance < thresholds.get(g.id)! && distance < bestDistance) { bestId = g.id; bestDistance = distance; }
+      }
+    }
+    return bestId;
+  };
+
+  const classifyPose = (landmarks: Landmark[]) => {
+    if (poseSamples.length === 0) return null;
+    const vector = normalizeHandPose(landmarks);
+    const neighbors = poseSamples.map(s => ({ id: s.id, distance: rmsDistance(vector, s.vector) }))
+      .sort((a, b) => a.distance - b.distance).slice(0, POSE_NEIGHBORS);
+    const nearest = neighbors[0];
+    if (nearest.distance > thresholds.get(nearest.id)!) return null;
+    // Majority of the neighbors, so a single stray example of another gesture does not win
+    const votes = neighbors.filter(n => n.id === nearest.id).length;
+    return votes * 2 > neighbors.length ? nearest.id : null;
+  };
+
+  return (frame: GestureFrame): string | null => {
+    if (frame === lastFrame) return match;
+    lastFrame = frame;
+    const hand = frame.hands[0];
+    if (!hand) { history = []; match = null; return null; }
+    history.push({ t: frame.now, landmarks: hand.landmarks });
+    history = history.filter(h => frame.now - h.t <= MOTION_DURATION_MS);
+    match = motions.length ? classifyMotion() : null;
+    // A recognized motion starts over, so the same movement is not matched twice
+    if (match) history = [];
+    else match = classifyPose(hand.landmarks);
+    return match;
+  };
+}
+
+/** Registry entries for the custom gestures: they run through the same engine as the built-in ones, in every level. */
+export function createCustomGestureDefinitions(gestures: CustomGesture[]): GestureDefinition<any>[] {
+  const classify = createCustomGestureClassifier(gestures);
+  return gestures.map(g => ({
+    id: `custom-${g.id}`, event: g.event, levels: Object.values(DifficultyLevel),
+    when: (frame: GestureFrame) => classify(frame) === g.id,
+    holdMs: g.kind === 'POSE' ? POSE_HOLD_MS : 0,
+    cooldownMs: CUSTOM_COOLDOWN_MS,
+    payload: () => g.payload,
+    feedback: { label: `✋ ${g.name}`, color: "#a78bfa", haptic: 20 }
+  }));
+}
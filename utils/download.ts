@@ -0,0 +1,10 @@
+/**
+ * Triggers a browser download for generated content (exports, snapshots)
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
@@ -0,0 +1,81 @@
+import { DifficultyLevel, GardenEvent, GardenEventPayload } from '../types';
+import { Landmark } from './gestures';
+
+/**
+ * Face input from the face landmarker: a few expression strengths read from the blendshapes
+ * plus the head roll, turned into events with hysteresis, hold time and cooldowns.
+ */
+
+export interface FaceExpressions {
+  smile: number;     // 0 - 1
+  mouthOpen: number;
+  browRaise: number;
+  blink: number;     // Both eyes
+  tilt: number;      // Head roll in degrees, positive towards the right of the (mirrored) screen
+}
+
+export interface FaceGestureDefinition<E extends GardenEvent = GardenEvent> {
+  id: string;
+  event: E;
+  levels: DifficultyLevel[];
+  measure: (face: FaceExpressions) => number;
+  enter: number;        // Becomes active above this
+  exit: number;         // Stays active until below this
+  holdMs?: number;      // Must be held this long (a deliberate blink, not a natural one)
+  cooldownMs?: number;
+  repeat?: boolean;     // Keep firing every cooldown while held
+  payload?: () => GardenEventPayload<E>;
+  label?: string;
+}
+
+export interface FaceGestureFiring {
+  definition: FaceGestureDefinition;
+  event: GardenEvent;
+  payload?: unknown;
+}
+
+type Blendshape = { categoryName: string, score: number };
+
+const LEFT_EYE_CORNER = 33;
+const RIGHT_EYE_CORNER = 263;
+
+/** `aspect` is the video's width / height, so the roll angle is measured in true proportions. */
+export function readFaceExpressions(blendshapes: Blendshape[], landmarks: Landmark[], aspect: number): FaceExpressions {
+  const scores = new Map(blendshapes.map(b => [b.categoryName, b.score]));
+  const score = (...names: string[]) => names.reduce((sum, name) => sum + (scores.get(name) || 0), 0) / names.length;
+  const [a, b] = [landmarks[LEFT_EYE_CORNER], landmarks[RIGHT_EYE_CORNER]]
+    .map(p => ({ x: (1 - p.x) * aspect, y: p.y }))
+    .sort((p, q) => p.x - q.x);
+  return {
+    smile: score('mouthSmileLeft', 'mouthSmileRight'),
+    mouthOpen: score('jawOpen'),
+    browRaise: score('browInnerUp'),
+    blink: score('eyeBlinkLeft', 'eyeBlinkRight'),
+    tilt: Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI
+  };
+}
+
+/** Keeps per-expression state between frames; `update` returns what fired. No face releases everything. */
+export function createFaceGestureEngine(definitions: FaceGestureDefinition<any>[]) {
+  const states = new Map<string, { matchedSince: number, active: boolean, lastFired: number }>();
+
+  return {
+    update(face: FaceExpressions | null, level: DifficultyLevel, now: number): FaceGestureFiring[] {
+      const fired: FaceGestureFiring[] = [];
+      definitions.forEach(def => {
+        const state = states.get(def.id) || { matchedSince: 0, active: false, lastFired: -Infinity };
+        states.set(def.id, state);
+        const isMatch = !!face && def.levels.includes(level) && def.measure(face) > (state.active ? def.exit : def.enter);
+        if (!isMatch) { state.active = false; state.matchedSince = 0; return; }
+        if (!state.matchedSince) state.matchedSince = now;
+        if (now - state.matchedSince < (def.holdMs || 0)) return;
+        const wasActive = state.active;
+        state.active = true;
+        if ((wasActive && !def.repeat) || now - state.lastFired < (def.cooldownMs || 0)) return;
+        state.lastFired = now;
+        fired.push({ definition: def, event: def.event, payload: def.payload?.() });
+      });
+      return fired;
+    }
+  };
+}
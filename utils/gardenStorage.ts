@@ -0,0 +1,103 @@
+import { GardenDocument, PlantSpecies, SavedFlower } from '../types';
+import { PLANT_SPECIES_IDS } from './plants';
+import { randomSeed } from './random';
+
+// v1: single flower type with scale/targetScale. v2: plant species + growth
+export const GARDEN_FORMAT_VERSION = 2;
+
+const DB_NAME = 'divervisiones';
+const DB_VERSION = 1;
+const GARDEN_STORE = 'gardens';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GARDEN_STORE)) {
+          db.createObjectStore(GARDEN_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(GARDEN_STORE, mode);
+    const request = action(tx.objectStore(GARDEN_STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export function createGardenDocument(name: string, flowers: SavedFlower[] = []): GardenDocument {
+  return {
+    version: GARDEN_FORMAT_VERSION,
+    id: `garden-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    updatedAt: Date.now(),
+    flowers
+  };
+}
+
+const toVector3 = (value: unknown): [number, number, number] => {
+  const v = Array.isArray(value) ? value : [];
+  return [Number(v[0]) || 0, Number(v[1]) || 0, Number(v[2]) || 0];
+};
+
+/**
+ * Validates an untrusted garden document (e.g. an imported file) and upgrades older versions
+ */
+export function parseGardenDocument(data: unknown): GardenDocument {
+  const doc = data as Partial<GardenDocument>;
+  if (!doc || typeof doc !== 'object' || !Array.isArray(doc.flowers)) throw new Error("Not a garden file");
+  if (typeof doc.version !== 'number' || doc.version > GARDEN_FORMAT_VERSION) throw new Error("Unsupported garden version");
+
+  const flowers: SavedFlower[] = doc.flowers.map((f: any) => {
+    const base = {
+      seed: Number.isFinite(f?.seed) ? Number(f.seed) : randomSeed(),
+      position: toVector3(f?.position),
+      rotation: toVector3(f?.rotation),
+      petalColor: typeof f?.petalColor === 'string' ? f.petalColor : '#f472b6'
+    };
+    if (doc.version === 1) {
+      // v1 flowers become daisies, keeping their color and how far they had grown
+      const size = Number(f?.targetScale) || Number(f?.scale) || 1;
+      return { ...base, species: 'DAISY', size, growth: Math.min(1, (Number(f?.scale) || size) / size) };
+    }
+    const species: PlantSpecies = PLANT_SPECIES_IDS.includes(f?.species) ? f.species : 'DAISY'; // Own keys only, not 'toString' & co.
+    return { ...base, species, size: Number(f?.size) || 1, growth: Math.max(0, Math.min(1, Number(f?.growth) || 0)) };
+  });
+
+  return {
+    version: GARDEN_FORMAT_VERSION,
+    id: typeof doc.id === 'string' && doc.id ? doc.id : createGardenDocument('').id,
+    name: typeof doc.name === 'string' && doc.name ? doc.name : 'Jardín importado',
+    updatedAt: Number(doc.updatedAt) || Date.now(),
+    flowers
+  };
+}
+
+export function saveGarden(doc: GardenDocument): Promise<IDBValidKey> {
+  return runRequest('readwrite', store => store.put({ ...doc, updatedAt: Date.now() }));
+}
+
+export async function listGardens(): Promise<GardenDocument[]> {
+  const gardens = await runRequest<GardenDocument[]>('readonly', store => store.getAll());
+  return gardens.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function deleteGarden(id: string): Promise<undefined> {
+  return runRequest('readwrite', store => store.delete(id));
+}
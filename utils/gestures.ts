@@ -0,0 +1,172 @@
+import { DifficultyLevel, GardenEvent, GardenEventPayload, GardenInteractionState } from '../types';
+import { HandThresholds } from './calibration';
+import { SmoothedTips } from './handMotion';
+
+/**
+ * Declarative gesture engine. A gesture is a pose (finger states) plus optional predicates,
+ * evaluated every frame; the engine adds hysteresis, hold time (debounce) and cooldowns and
+ * reports the events to emit. Positional controls (palette, fretboard, painting) stay in HandScanner.
+ */
+
+export type Landmark = { x: number, y: number, z: number };
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+// EXTENDED: tip further from the wrist than the middle joint. FOLDED: not extended. CURLED: tip inside the knuckle line
+export type FingerState = 'EXTENDED' | 'FOLDED' | 'CURLED';
+
+export interface HandFeatures {
+  landmarks: Landmark[];
+  handScale: number;      // Wrist to index knuckle: every distance threshold is relative to it
+  extended: Record<FingerName, boolean>;
+  curled: Record<FingerName, boolean>;
+  pinchDistance: number;  // Thumb tip to index tip, normalized image units
+  palm: Landmark;
+}
+
+export interface GestureFrame {
+  now: number;
+  hands: HandFeatures[]; // Primary hand first
+  interaction: GardenInteractionState; // Pointer, velocities and painter state
+  handDistance: number;  // Wrist to wrist, -1 with fewer than two hands
+  approachSpeed: number; // How much the wrists closed in since the last frame
+  thresholds: HandThresholds; // The player's calibrated pinch / clap distances
+}
+
+export interface GestureFeedback {
+  label?: string | ((frame: GestureFrame) => string);
+  color?: string;
+  haptic?: number | number[];
+}
+
+export interface GestureDefinition<E extends GardenEvent = GardenEvent> {
+  id: string;
+  event: E;
+  levels: DifficultyLevel[];
+  hands?: 1 | 2;            // Hands required (default 1). Finger states apply to the primary hand
+  fingers?: Partial<Record<FingerName, FingerState>>;
+  when?: (frame: GestureFrame) => boolean;
+  // Hysteresis on a continuous value: becomes active below `enter`, stays active until above `exit`
+  measure?: (frame: GestureFrame) => number;
+  enter?: number | ((frame: GestureFrame) => number);
+  exit?: number | ((frame: GestureFrame) => number);
+  holdMs?: number;          // Must match this long before it activates
+  cooldownMs?: number;      // Minimum time since the last firing (of the whole group, if any)
+  cooldownGroup?: string;
+  repeat?: boolean;         // Keep firing every cooldown while held, instead of once per activation
+  releaseEvent?: GardenEvent; // Emitted when an active gesture ends
+  payload?: (frame: GestureFrame) => GardenEventPayload<E>;
+  feedback?: GestureFeedback;
+}
+
+export interface GestureFiring {
+  definition: GestureDefinition;
+  event: GardenEvent;
+  payload?: unknown;
+}
+
+const FINGER_JOINTS: Record<Exclude<FingerName, 'thumb'>, { tip: number, pip: number, mcp: number }> = {
+  index: { tip: 8, pip: 6, mcp: 5 },
+  middle: { tip: 12, pip: 10, mcp: 9 },
+  ring: { tip: 16, pip: 14, mcp: 13 },
+  pinky: { tip: 20, pip: 18, mcp: 17 }
+};
+
+const THUMB_OUT_RATIO = 0.5;    // Thumb tip to index knuckle
+const THUMB_TUCKED_RATIO = 0.6; // Thumb tip to middle knuckle
+
+export const landmarkDistance = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function getHandFeatures(landmarks: Landmark[]): HandFeatures {
+  const wrist = landmarks[0];
+  const handScale = landmarkDistance(wrist, landmarks[5]) || 0.1;
+  const extended = {} as Record<FingerName, boolean>; const curled = {} as Record<FingerName, boolean>;
+  (Object.keys(FINGER_JOINTS) as (keyof typeof FINGER_JOINTS)[]).forEach(finger => {
+    const { tip, pip, mcp } = FINGER_JOINTS[finger];
+    extended[finger] = landmarkDistance(landmarks[tip], wrist) > landmarkDistance(landmarks[pip], wrist);
+    curled[finger] = landmarkDistance(landmarks[tip], wrist) < landmarkDistance(landmarks[mcp], wrist);
+  });
+  extended.thumb = landmarkDistance(landmarks[4], landmarks[5]) > THUMB_OUT_RATIO * handScale;
+  curled.thumb = landmarkDistance(landmarks[4], landmarks[9]) < THUMB_TUCKED_RATIO * handScale;
+  return {
+    landmarks,
+    handScale,
+    extended,
+    curled,
+    pinchDistance: landmarkDistance(landmarks[4], landmarks[8]),
+    palm: {
+      x: (wrist.x + landmarks[5].x + landmarks[17].x) / 3,
+      y: (wrist.y + landmarks[5].y + landmarks[17].y) / 3,
+      z: (wrist.z + landmarks[5].z + landmarks[17].z) / 3
+    }
+  };
+}
+
+const resolve = (value: GestureDefinition['enter'], frame: GestureFrame) => typeof value === 'function' ? value(frame) : value;
+
+/**
+ * Gesture input for one frame. The primary hand is judged on its smoothed tips, like the painting pointer;
+ * `previousHandDistance` is the last frame's `handDistance` (-1 prevents a false approach speed on re-entry).
+ */
+export function buildGestureFrame(handsLandmarks: Landmark[][], tips: SmoothedTips, interaction: GardenInteractionState, previousHandDistance: number, now: number, thresholds: HandThresholds): GestureFrame {
+  const hands = handsLandmarks.map((landmarks, index) => {
+    if (index !== 0) return getHandFeatures(landmarks);
+    const smoothed = landmarks.slice();
+    smoothed[4] = tips.thumb; smoothed[8] = tips.index; smoothed[12] = tips.middle; smoothed[16] = tips.ring;
+    return getHandFeatures(smoothed);
+  });
+  let handDistance = -1; let approachSpeed = 0;
+  if (hands.length >= 2) {
+    handDistance = landmarkDistance(handsLandmarks[0][0], handsLandmarks[1][0]);
+    if (previousHandDistance !== -1) approachSpeed = previousHandDistance - handDistance;
+  }
+  return { now, hands, interaction, handDistance, approachSpeed, thresholds };
+}
+
+const matchesFingers = (hand: HandFeatures, fingers: Partial<Record<FingerName, FingerState>>) =>
+  (Object.entries(fingers) as [FingerName, FingerState][]).every(([finger, state]) =>
+    state === 'EXTENDED' ? hand.extended[finger] : state === 'CURLED' ? hand.curled[finger] : !hand.extended[finger]);
+
+/**
+ * Keeps per-gesture state between frames. `update` returns what fired this frame;
+ * `isEnabled` lets the caller mute gestures while an overlay owns the hand.
+ */
+export function createGestureEngine(definitions: GestureDefinition<any>[]) {
+  const states = new Map<string, { matchedSince: number, active: boolean }>();
+  const lastFired = new Map<string, number>();
+
+  const isMatch = (def: GestureDefinition, frame: GestureFrame, active: boolean) => {
+    const hand = frame.hands[0];
+    if (!hand || frame.hands.length < (def.hands || 1)) return false;
+    if (def.fingers && !matchesFingers(hand, def.fingers)) return false;
+    if (def.measure && def.measure(frame) >= (resolve(active ? def.exit ?? def.enter : def.enter, frame) ?? 0)) return false;
+    return !def.when || def.when(frame);
+  };
+
+  return {
+    update(frame: GestureFrame, level: DifficultyLevel, isEnabled: (def: GestureDefinition) => boolean = () => true): GestureFiring[] {
+      const fired: GestureFiring[] = [];
+      definitions.forEach(def => {
+        const state = states.get(def.id) || { matchedSince: 0, active: false };
+        states.set(def.id, state);
+        if (!def.levels.includes(level) || !isEnabled(def) || !isMatch(def, frame, state.active)) {
+          if (state.active && def.releaseEvent) fired.push({ definition: def, event: def.releaseEvent });
+          state.active = false; state.matchedSince = 0;
+          return;
+        }
+        if (!state.matchedSince) state.matchedSince = frame.now;
+        if (frame.now - state.matchedSince < (def.holdMs || 0)) return;
+        const wasActive = state.active;
+        state.active = true;
+        const group = def.cooldownGroup || def.id;
+        if ((wasActive && !def.repeat) || frame.now - (lastFired.get(group) ?? -Infinity) < (def.cooldownMs || 0)) return;
+        lastFired.set(group, frame.now);
+        fired.push({ definition: def, event: def.event, payload: def.payload?.(frame) });
+      });
+      return fired;
+    },
+    isActive: (id: string) => !!states.get(id)?.active,
+    reset() { states.clear(); lastFired.clear(); }
+  };
+}
+
+export type GestureEngine = ReturnType<typeof createGestureEngine>;
@@ -0,0 +1,165 @@
+// Standard tuning (E A D G B E) as MIDI notes, indexed by string number - 1.
+// String 1 is the thin high E at the top of the fretboard, string 6 the low E.
+export const STANDARD_TUNING = [64, 59, 55, 50, 45, 40];
+
+// Seconds until a plucked note decays by 60dB (before muting)
+const SUSTAIN_SECONDS = 4.0;
+// Delay between strings when rolling a strum
+const STRUM_ROLL_SECONDS = 0.018;
+
+export type StrumDirection = 'DOWN' | 'UP';
+
+export interface GuitarSynth {
+  pluck: (string: number, fret: number, velocity: number, when?: number) => void;
+  strum: (direction: StrumDirection, velocity: number, frets?: (number | null)[]) => void;
+  mute: (string: number) => void;
+  muteAll: () => void;
+  dispose: () => void;
+}
+
+interface Voice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+export function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+/**
+ * Maps hand speed (normalized screen units per second) to a note gain
+ */
+export function velocityToGain(speed: number): number {
+  return Math.max(0.2, Math.min(1.0, 0.35 + speed * 0.25));
+}
+
+/**
+ * Renders a plucked string with the Karplus-Strong algorithm:
+ * a noise burst circulating through a delay line with an averaging low-pass filter.
+ */
+export function renderPluckedString(ctx: BaseAudioContext, frequency: number, duration: number = SUSTAIN_SECONDS): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const frameCount = Math.floor(sampleRate * duration);
+  const buffer = ctx.createBuffer(1, frameCount, sampleRate);
+  const out = buffer.getChannelData(0);
+
+  // The averaging filter adds half a sample of delay to the loop
+  const period = Math.max(2, Math.round(sampleRate / frequency - 0.5));
+  // Per-cycle loss so every note rings for roughly the same time
+  const decay = Math.pow(0.001, 1 / (frequency * duration));
+
+  const ring = new Float32Array(period);
+  let prev = 0;
+  for (let i = 0; i < period; i++) {
+    // Slightly low-passed noise gives a warmer, less "harpsichord" attack
+    const noise = Math.random() * 2 - 1;
+    prev = prev * 0.3 + noise * 0.7;
+    ring[i] = prev;
+  }
+
+  let idx = 0;
+  for (let n = 0; n < frameCount; n++) {
+    const next = (idx + 1) % period;
+    const sample = ring[idx];
+    out[n] = sample;
+    ring[idx] = decay * 0.5 * (sample + ring[next]);
+    idx = next;
+  }
+  return buffer;
+}
+
+/**
+ * Creates a 6-string guitar voice bank on top of an AudioContext.
+ * One voice per string: plucking a string cuts the note already ringing on it.
+ */
+export function createGuitarSynth(ctx: AudioContext): GuitarSynth {
+  const bufferCache = new Map<number, AudioBuffer>();
+  const voices: (Voice | null)[] = new Array(STANDARD_TUNING.length).fill(null);
+  // Fret currently held on each string (0 = open), used by strums
+  const fretted: number[] = new Array(STANDARD_TUNING.length).fill(0);
+
+  const body = ctx.createBiquadFilter();
+  body.type = 'lowpass';
+  body.frequency.value = 4500;
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.threshold.value = -12;
+  const master = ctx.createGain();
+  master.gain.value = 0.7;
+  body.connect(compressor);
+  compressor.connect(master);
+  master.connect(ctx.destination);
+
+  const getBuffer = (midi: number) => {
+    let buffer = bufferCache.get(midi);
+    if (!buffer) {
+      buffer = renderPluckedString(ctx, midiToFrequency(midi));
+      bufferCache.set(midi, buffer);
+    }
+    return buffer;
+  };
+
+  const releaseVoice = (index: number, when: number) => {
+    const voice = voices[index];
+    if (!voice) return;
+    voice.gain.gain.cancelScheduledValues(when);
+    voice.gain.gain.setTargetAtTime(0, when, 0.03);
+    try { voice.source.stop(when + 0.25); } catch (e) {}
+    voices[index] = null;
+  };
+
+  const pluck = (string: number, fret: number, velocity: number, when: number = ctx.currentTime) => {
+    const index = string - 1;
+    if (index < 0 || index >= STANDARD_TUNING.length) return;
+    if (ctx.state === 'suspended') ctx.resume();
+
+    releaseVoice(index, when);
+
+    const source = ctx.createBufferSource();
+    source.buffer = getBuffer(STANDARD_TUNING[index] + fret);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(velocity, when);
+    source.connect(gain);
+    gain.connect(body);
+    source.start(when);
+
+    const voice = { source, gain };
+    source.onended = () => {
+      if (voices[index] === voice) voices[index] = null;
+    };
+    voices[index] = voice;
+    fretted[index] = fret;
+  };
+
+  const strum = (direction: StrumDirection, velocity: number, frets?: (number | null)[]) => {
+    const t = ctx.currentTime;
+    // Down strums start on the low E (string 6), up strums on the high E
+    const order = direction === 'DOWN' ? [6, 5, 4, 3, 2, 1] : [1, 2, 3, 4, 5, 6];
+    let step = 0;
+    order.forEach(string => {
+      const fret = frets ? frets[string - 1] : fretted[string - 1];
+      if (fret === null || fret === undefined) return; // Muted string in the voicing
+      // Later strings in the roll are hit a bit softer
+      pluck(string, fret, velocity * (1 - step * 0.04), t + step * STRUM_ROLL_SECONDS);
+      step++;
+    });
+  };
+
+  const mute = (string: number) => {
+    const index = string - 1;
+    if (index < 0 || index >= STANDARD_TUNING.length) return;
+    releaseVoice(index, ctx.currentTime);
+    fretted[index] = 0;
+  };
+
+  const muteAll = () => {
+    for (let s = 1; s <= STANDARD_TUNING.length; s++) mute(s);
+  };
+
+  const dispose = () => {
+    muteAll();
+    try { master.disconnect(); } catch (e) {}
+    bufferCache.clear();
+  };
+
+  return { pluck, strum, mute, muteAll, dispose };
+}
@@ -0,0 +1,120 @@
+import { GardenInteractionState } from '../types';
+import { Landmark } from './gestures';
+
+/**
+ * Pointer tracking for the primary hand: smoothed fingertips and the index velocity.
+ * Shared by HandScanner and the headless trace harness so both see the same pointer.
+ */
+
+export interface SmoothedTips {
+  index: Landmark; middle: Landmark; ring: Landmark; thumb: Landmark; palm: Landmark;
+}
+
+export interface HandMotionState {
+  tips: SmoothedTips;
+  lastIndex: Landmark | null; // Smoothed index tip of the previous frame; null until the hand is seen
+}
+
+const ORIGIN = { x: 0, y: 0, z: 0 };
+const VELOCITY_ALPHA = 0.3;
+
+export const createHandMotionState = (): HandMotionState => ({
+  tips: { index: ORIGIN, middle: ORIGIN, ring: ORIGIN, thumb: ORIGIN, palm: ORIGIN },
+  lastIndex: null
+});
+
+export function createInteractionState(): GardenInteractionState {
+  return {
+    x: 0.5,
+    y: 0.5,
+    z: 0,
+    palmX: 0.5,
+    palmY: 0.5,
+    palmZ: 0,
+    isGrabbing: false,
+    isPointing: false,
+    isHovering: false,
+    isPainting: false,
+    brushSize: 1,
+    brushType: 'IMPASTO',
+    symmetry: { mode: 'NONE', folds: 6 },
+    activeColor: '#ef4444',
+    painterColors: { index: '#ef4444', middle: '#3b82f6', ring: '#eab308' }, // Default colors
+    isMultiFinger: false,
+    cursors: [],
+    velocityX: 0,
+    velocityY: 0,
+    velocityZ: 0
+  };
+}
+
+// --- REFINED SMOOTHING ---
+export const smoothPoint = (current: Landmark, target: Landmark, dt: number): Landmark => {
+  const dx = target.x - current.x;
+  const dy = target.y - current.y;
+  const dz = target.z - current.z;
+
+  const dist = Math.sqrt(dx * dx + dy * dy);
+
+  if (dist > 0.3) return target; // Snap
+
+  const speed = dist / dt; // units per second
+
+  const alpha = 0.15 + Math.min(0.65, speed * 0.2);
+
+  return {
+    x: current.x + (dx * alpha),
+    y: current.y + (dy * alpha),
+    z: current.z + (dz * alpha)
+  };
+};
+
+/**
+ * Smooths the primary hand's tips and updates the pointer velocity. The pointer position
+ * (mirrored to screen x) only follows while `isPointerLocked` is false, e.g. not while planting.
+ */
+export function updateHandMotion(state: HandMotionState, landmarks: Landmark[], dt: number, interaction: GardenInteractionState, isPointerLocked: boolean = false) {
+  const wrist = landmarks[0]; const indexMCP = landmarks[5]; const pinkyMCP = landmarks[17];
+  const rawPalm = {
+    x: (wrist.x + indexMCP.x + pinkyMCP.x) / 3,
+    y: (wrist.y + indexMCP.y + pinkyMCP.y) / 3,
+    z: (wrist.z + indexMCP.z + pinkyMCP.z) / 3
+  };
+  const raw = { index: landmarks[8], middle: landmarks[12], ring: landmarks[16], thumb: landmarks[4], palm: rawPalm };
+
+  const s = state.tips;
+  if (!state.lastIndex) {
+    (Object.keys(raw) as (keyof SmoothedTips)[]).forEach(tip => { s[tip] = { x: raw[tip].x, y: raw[tip].y, z: raw[tip].z }; });
+    state.lastIndex = { ...s.index };
+  } else {
+    (Object.keys(raw) as (keyof SmoothedTips)[]).forEach(tip => { s[tip] = smoothPoint(s[tip], raw[tip], dt); });
+  }
+
+  // Instant velocity, then smoothed
+  const ivx = (s.index.x - state.lastIndex.x) / dt;
+  const ivy = (s.index.y - state.lastIndex.y) / dt;
+  const ivz = (s.index.z - state.lastIndex.z) / dt;
+  interaction.velocityX = (interaction.velocityX * (1 - VELOCITY_ALPHA)) + (ivx * VELOCITY_ALPHA);
+  interaction.velocityY = (interaction.velocityY * (1 - VELOCITY_ALPHA)) + (ivy * VELOCITY_ALPHA);
+  interaction.velocityZ = (interaction.velocityZ * (1 - VELOCITY_ALPHA)) + (ivz * VELOCITY_ALPHA);
+  state.lastIndex = { ...s.index };
+
+  interaction.isHovering = true;
+  if (!isPointerLocked) {
+    interaction.x = 1 - s.index.x;
+    interaction.y = s.index.y;
+    interaction.z = s.index.z;
+    interaction.palmX = 1 - s.palm.x;
+    interaction.palmY = s.palm.y;
+    interaction.palmZ = s.palm.z;
+  }
+}
+
+/** No hand this frame: drop the pointer and let the velocity die out. */
+export function releaseHandMotion(interaction: GardenInteractionState) {
+  interaction.isHovering = false;
+  interaction.isGrabbing = false;
+  interaction.isPainting = false;
+  interaction.velocityX *= 0.9;
+  interaction.velocityY *= 0.9;
+}
@@ -0,0 +1,74 @@
+import { DifficultyLevel, HandTrace, HandTraceFrame } from '../types';
+import { Landmark } from './gestures';
+
+export const HAND_TRACE_VERSION = 1;
+const MAX_TRACE_MS = 5 * 60 * 1000; // A long level; keeps the JSON download reasonable
+const HAND_POINTS = 21;
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+/**
+ * Collects raw landmarker results (before calibration) while a session runs.
+ * `record` takes the same timestamp that was passed to detectForVideo.
+ */
+export function createTraceRecorder(level: DifficultyLevel, width: number, height: number) {
+  const frames: HandTraceFrame[] = [];
+  let startedAt = -1;
+  return {
+    record(now: number, landmarks: Landmark[][]) {
+      if (startedAt < 0) startedAt = now;
+      const t = now - startedAt;
+      if (t > MAX_TRACE_MS) return;
+      frames.push({ t: Math.round(t * 10) / 10, landmarks: landmarks.map(hand => hand.map(p => ({ x: round(p.x), y: round(p.y), z: round(p.z) }))) });
+    },
+    finish: (): HandTrace => ({ version: HAND_TRACE_VERSION, level, width, height, recordedAt: Date.now(), frames: frames.slice() })
+  };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
+
+/**
+ * Validates an untrusted trace file. Hands without the 21 numeric points are dropped,
+ * frames are sorted by time.
+ */
+export function parseHandTrace(data: unknown): HandTrace {
+  const trace = data as Partial<HandTrace>;
+  if (!trace || typeof trace !== 'object' || !Array.isArray(trace.frames)) throw new Error("Not a hand trace");
+  if (typeof trace.version !== 'number' || trace.version > HAND_TRACE_VERSION) throw new Error("Unsupported trace version");
+  const isPoint = (p: any) => p && [p.x, p.y, p.z].every(v => typeof v === 'number' && Number.isFinite(v));
+  const frames = trace.frames
+    .filter((f: any) => f && Number.isFinite(f.t) && Array.isArray(f.landmarks))
+    .map((f: any) => ({ t: Number(f.t), landmarks: f.landmarks.filter((hand: any) => Array.isArray(hand) && hand.length === HAND_POINTS && hand.every(isPoint)) }))
+    .sort((a, b) => a.t - b.t);
+  return {
+    version: HAND_TRACE_VERSION,
+    level: Object.values(DifficultyLevel).includes(trace.level as DifficultyLevel) ? trace.level as DifficultyLevel : DifficultyLevel.GARDEN,
+    width: Number(trace.width) || 640,
+    height: Number(trace.height) || 480,
+    recordedAt: Number(trace.recordedAt) || 0,
+    frames
+  };
+}
+
+/**
+ * Plays a trace back in real time in place of detectForVideo: `landmarksAt` returns the frame
+ * due at `now` (the clock starts on the first call). No hands once it is over.
+ */
+export function createTraceReplay(trace: HandTrace) {
+  const { frames } = trace;
+  const durationMs = frames.length ? frames[frames.length - 1].t : 0;
+  let startedAt = -1; let index = 0;
+  return {
+    trace,
+    durationMs,
+    landmarksAt(now: number): Landmark[][] {
+      if (startedAt < 0) startedAt = now;
+      const t = now - startedAt;
+      if (frames.length === 0 || t > durationMs) return [];
+      while (index < frames.length - 1 && frames[index + 1].t <= t) index++;
+      return frames[index].landmarks;
+    }
+  };
+}
+
+export type TraceReplay = ReturnType<typeof createTraceReplay>;
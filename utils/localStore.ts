@@ -0,0 +1,27 @@
+/**
+ * localStorage access for the persisted settings (palettes, players, custom gestures). Storage can be
+ * unavailable (private mode), full or hand-edited: reads fall back, writes are best effort. Each caller
+ * still validates the items it reads.
+ */
+
+/** The JSON list stored under `key`; empty when missing, unreadable or not a list. */
+export function readStoredList(key: string): any[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(raw) ? raw : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function writeStoredJson(key: string, value: unknown) {
+  try { localStorage.setItem(key, JSON.stringify(value)); } catch (e) {}
+}
+
+export function readStoredString(key: string, fallback: string): string {
+  try { return localStorage.getItem(key) || fallback; } catch (e) { return fallback; }
+}
+
+export function writeStoredString(key: string, value: string) {
+  try { localStorage.setItem(key, value); } catch (e) {}
+}
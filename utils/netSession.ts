@@ -0,0 +1,188 @@
+import { DifficultyLevel, GardenEvent, NetMessage, NetStatus } from '../types';
+
+/**
+ * Two browsers playing one game: a WebRTC data channel pair between them, set up through the
+ * small signaling server in server/signaling.mjs (run it on the LAN with `npm run signaling`).
+ *
+ * - 'events' (reliable, ordered): GardenEvents, claims and anything that must arrive.
+ * - 'state' (unordered, no retransmits): pointer and object positions, where only the newest counts.
+ */
+
+export const DEFAULT_SIGNALING_PORT = 8787;
+export const NET_LEVELS: DifficultyLevel[] = [DifficultyLevel.GARDEN, DifficultyLevel.PAINTER, DifficultyLevel.WALLBALL];
+
+// Events that change the shared world; camera moves, snapshots and the like stay local
+const SHARED_EVENTS: Partial<Record<DifficultyLevel, GardenEvent[]>> = {
+  [DifficultyLevel.GARDEN]: ['RESET', 'SUN', 'NIGHT', 'WIND', 'BLOOM'],
+  [DifficultyLevel.PAINTER]: ['RESET']
+};
+
+export const isSharedEvent = (level: DifficultyLevel, event: GardenEvent) => !!SHARED_EVENTS[level]?.includes(event);
+
+export const defaultSignalingUrl = () => `http://${window.location.hostname || 'localhost'}:${DEFAULT_SIGNALING_PORT}`;
+
+type SignalData = { description?: RTCSessionDescriptionInit, candidate?: RTCIceCandidateInit };
+type ServerMessage =
+  | { type: 'peers', peers: string[] }
+  | { type: 'join' | 'leave', peer: string }
+  | { type: 'signal', from: string, data: SignalData }
+  | { type: 'full' };
+
+export interface NetSessionOptions {
+  url: string;
+  room: string;
+  level: DifficultyLevel; // Part of the room name: peers in different games never meet
+  onStatus: (status: NetStatus, error?: string) => void;
+  onEvent: (event: GardenEvent, payload?: unknown) => void;
+}
+
+/**
+ * Joins a room and connects to whoever else is in it (two players per room). Scene messages are
+ * queued in `inbox` for the render loop to drain; GardenEvents go straight to `onEvent`.
+ */
+export function createNetSession({ url, room, level, onStatus, onEvent }: NetSessionOptions) {
+  const peerId = `peer-${Math.random().toString(36).slice(2, 10)}`;
+  const base = `${url.replace(/\/+$/, '')}/rooms/${encodeURIComponent(`${level}-${room}`)}`;
+  const inbox: { message: NetMessage, from: string }[] = [];
+  let pc: RTCPeerConnection | null = null;
+  let channels: Partial<Record<'events' | 'state', RTCDataChannel>> = {};
+  let remotePeer: string | null = null; // Set once both channels are open
+  let connectingTo: string | null = null;
+  // Per sender: each signal is its own POST, so a candidate can arrive before the offer it belongs to
+  const pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
+  let isClosed = false;
+
+  const signal = (to: string, data: SignalData) => {
+    fetch(`${base}/signal`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ from: peerId, to, data }) })
+      .catch(err => console.error("Signaling failed", err));
+  };
+
+  const closePeer = () => {
+    Object.values(channels).forEach(channel => channel?.close());
+    pc?.close();
+    pc = null; channels = {}; remotePeer = null; connectingTo = null;
+  };
+
+  const receive = (from: string, raw: unknown) => {
+    let message: NetMessage;
+    try { message = JSON.parse(String(raw)); } catch (e) { return; }
+    if (!message || typeof message.kind !== 'string') return;
+    if (message.kind === 'event') onEvent(message.event, message.payload);
+    else inbox.push({ message, from });
+  };
+
+  const setupChannel = (channel: RTCDataChannel, remote: string) => {
+    if (channel.label !== 'events' && channel.label !== 'state') return;
+    channels[channel.label] = channel;
+    channel.onmessage = e => receive(remote, e.data);
+    channel.onopen = () => {
+      if (channels.events?.readyState !== 'open' || channels.state?.readyState !== 'open') return;
+      remotePeer = remote;
+      onStatus('connected');
+    };
+    channel.onclose = () => {
+      if (isClosed || connectingTo !== remote) return;
+      closePeer();
+      onStatus('waiting');
+    };
+  };
+
+  const connect = (remote: string, isCaller: boolean) => {
+    closePeer();
+    connectingTo = remote;
+    // LAN play: host candidates are enough, no STUN / TURN
+    const peer = new RTCPeerConnection({ iceServers: [] });
+    pc = peer;
+    peer.onicecandidate = e => { if (e.candidate) signal(remote, { candidate: e.candidate.toJSON() }); };
+    peer.onconnectionstatechange = () => {
+      if (peer === pc && peer.connectionState === 'failed') { closePeer(); onStatus('error', "No se pudo conectar con el otro jugador."); }
+    };
+    if (isCaller) {
+      setupChannel(peer.createDataChannel('events'), remote);
+      setupChannel(peer.createDataChannel('state', { ordered: false, maxRetransmits: 0 }), remote);
+      peer.createOffer()
+        .then(offer => peer.setLocalDescription(offer))
+        .then(() => signal(remote, { description: peer.localDescription!.toJSON() }))
+        .catch(err => { console.error("Offer failed", err); onStatus('error', "No se pudo conectar con el otro jugador."); });
+    } else {
+      peer.ondatachannel = e => setupChannel(e.channel, remote);
+    }
+  };
+
+  const handleSignal = async (from: string, data: SignalData) => {
+    if (data.description?.type === 'offer') connect(from, false);
+    const peer = pc;
+    if (data.candidate && (!peer || connectingTo !== from || !peer.remoteDescription)) {
+      pendingCandidates.set(from, [...(pendingCandidates.get(from) || []), data.candidate]);
+      return;
+    }
+    if (!peer || connectingTo !== from) return;
+    if (data.description) {
+      await peer.setRemoteDescription(data.description);
+      const candidates = pendingCandidates.get(from) || [];
+      pendingCandidates.delete(from);
+      // A stale candidate from an earlier attempt must not block the answer
+      await Promise.all(candidates.map(candidate => peer.addIceCandidate(candidate).catch(err => console.error("ICE candidate rejected", err))));
+      if (data.description.type === 'offer') {
+        await peer.setLocalDescription(await peer.createAnswer());
+        signal(from, { description: peer.localDescription!.toJSON() });
+      }
+    } else if (data.candidate) {
+      await peer.addIceCandidate(data.candidate);
+    }
+  };
+
+  onStatus('connecting');
+  const source = new EventSource(`${base}/events?peer=${peerId}`);
+  source.onmessage = e => {
+    let message: ServerMessage;
+    try { message = JSON.parse(e.data); } catch (err) { return; }
+    switch (message.type) {
+      case 'full':
+        source.close(); closePeer();
+        onStatus('error', "La sala ya tiene dos jugadores.");
+        break;
+      // The newcomer calls whoever is already in the room
+      case 'peers':
+        if (remotePeer) break; // The stream reconnected while the data channels stayed up
+        if (message.peers.length > 0) connect(message.peers[0], true);
+        onStatus('waiting');
+        break;
+      case 'leave':
+        pendingCandidates.delete(message.peer);
+        if (message.peer === connectingTo) { closePeer(); onStatus('waiting'); }
+        break;
+      case 'signal':
+        handleSignal(message.from, message.data).catch(err => console.error("Signal handling failed", err));
+        break;
+    }
+  };
+  // EventSource retries on its own; only a closed stream is final
+  source.onerror = () => {
+    if (isClosed) return;
+    if (source.readyState === EventSource.CLOSED) onStatus('error', "No se puede conectar al servidor de señalización.");
+    else if (!remotePeer) onStatus('connecting');
+  };
+
+  return {
+    peerId,
+    inbox,
+    get remotePeer() { return remotePeer; },
+    /** Drops the message when no peer is connected. Unreliable messages may also be lost or reordered. */
+    send(message: NetMessage, reliable = true) {
+      const channel = reliable ? channels.events : channels.state;
+      if (!remotePeer || channel?.readyState !== 'open') return;
+      channel.send(JSON.stringify(message));
+    },
+    close() {
+      isClosed = true;
+      source.close();
+      closePeer();
+      pendingCandidates.clear();
+      inbox.length = 0;
+      onStatus('offline');
+    }
+  };
+}
+
+export type NetSession = ReturnType<typeof createNetSession>;
@@ -0,0 +1,191 @@
+import { BrushType, PaintHistory, PaintStroke, PaintSymmetry, StrokePoint } from '../types';
+import { BRUSHES } from './brushes';
+import { createRng, randomSeed } from './random';
+
+export const PAINT_LAYER_COUNT = 3;
+export const MIN_SYMMETRY_FOLDS = 2;
+export const MAX_SYMMETRY_FOLDS = 12;
+
+// Spacing (world units) between interpolated splats along a stroke
+const SPLAT_STEP = 0.003;
+const MAX_SPLATS_PER_SEGMENT = 200;
+// Pauses between (and inside) strokes are squeezed to this in a time-lapse
+const TIMELAPSE_MAX_GAP_MS = 250;
+
+// World-space size of the painting plane the normalized stroke points are mapped onto
+export interface PaintFrame {
+  width: number;
+  height: number;
+  centerY: number;
+}
+
+export interface BrushSplat {
+  x: number;
+  y: number;
+  size: number;
+  rotation: number;
+}
+
+export interface TimelapseStep {
+  stroke: PaintStroke;
+  point: StrokePoint;
+  at: number; // ms from the start of the replay
+}
+
+// One copy of the stroke: optional mirroring, then a rotation around the canvas center
+export interface SymmetryTransform {
+  flipX: boolean;
+  flipY: boolean;
+  angle: number;
+}
+
+let strokeCounter = 0;
+
+export function createPaintHistory(): PaintHistory {
+  return {
+    strokes: [],
+    redoStack: [],
+    layers: Array.from({ length: PAINT_LAYER_COUNT }, (_, i) => ({ name: `Capa ${i + 1}`, visible: true, opacity: 1 })),
+    activeLayer: 0,
+    startedAt: Date.now()
+  };
+}
+
+/**
+ * Starts a stroke on the active layer. A new stroke invalidates the redo stack.
+ */
+export function beginStroke(history: PaintHistory, color: string, brush: BrushType, symmetry?: PaintSymmetry): PaintStroke {
+  const stroke: PaintStroke = { id: `stroke-${Date.now()}-${strokeCounter++}`, layer: history.activeLayer, color, brush, seed: randomSeed(), points: [] };
+  if (symmetry && symmetry.mode !== 'NONE') stroke.symmetry = { ...symmetry };
+  history.strokes.push(stroke);
+  history.redoStack = [];
+  return stroke;
+}
+
+// Only this player's strokes: on a shared canvas the other player's stay until they undo them
+export function undoStroke(history: PaintHistory): PaintStroke | null {
+  const index = history.strokes.map(s => !s.author).lastIndexOf(true);
+  if (index < 0) return null;
+  const [stroke] = history.strokes.splice(index, 1);
+  history.redoStack.push(stroke);
+  return stroke;
+}
+
+export function redoStroke(history: PaintHistory): PaintStroke | null {
+  const stroke = history.redoStack.pop();
+  if (!stroke) return null;
+  history.strokes.push(stroke);
+  return stroke;
+}
+
+// Layer settings survive a clear, only the paint goes
+export function clearPaintHistory(history: PaintHistory) {
+  history.strokes = [];
+  history.redoStack = [];
+  history.startedAt = Date.now();
+}
+
+/**
+ * Every copy a stroke is drawn with, the identity first.
+ */
+export function getSymmetryTransforms(symmetry?: PaintSymmetry): SymmetryTransform[] {
+  const identity = { flipX: false, flipY: false, angle: 0 };
+  if (!symmetry) return [identity];
+  const folds = Math.min(MAX_SYMMETRY_FOLDS, Math.max(MIN_SYMMETRY_FOLDS, Math.round(symmetry.folds) || MIN_SYMMETRY_FOLDS));
+  const rotations = Array.from({ length: folds }, (_, i) => ({ flipX: false, flipY: false, angle: (i * Math.PI * 2) / folds }));
+  switch (symmetry.mode) {
+    case 'HORIZONTAL': return [identity, { ...identity, flipX: true }];
+    case 'VERTICAL': return [identity, { ...identity, flipY: true }];
+    case 'BOTH': return [identity, { ...identity, flipX: true }, { ...identity, flipY: true }, { flipX: true, flipY: true, angle: 0 }];
+    case 'RADIAL': return rotations;
+    // Mirrored wedges, like the mirrors of a real kaleidoscope
+    case 'KALEIDOSCOPE': return [...rotations, ...rotations.map(r => ({ ...r, flipX: true }))];
+    default: return [identity];
+  }
+}
+
+// Point relative to the symmetry center
+export function applySymmetryTransform(t: SymmetryTransform, x: number, y: number): { x: number, y: number } {
+  const fx = t.flipX ? -x : x; const fy = t.flipY ? -y : y;
+  const cos = Math.cos(t.angle); const sin = Math.sin(t.angle);
+  return { x: fx * cos - fy * sin, y: fx * sin + fy * cos };
+}
+
+/**
+ * Turns stroke points into brush splats, interpolating between consecutive points.
+ * Spacing, size jitter, scatter and rotation come from the stroke's brush.
+ * The returned function is stateful (previous point + seeded jitter): feed it the points in order.
+ * Symmetry copies are mirrored / rotated around the center of the frame.
+ */
+export function createStrokeRasterizer(stroke: PaintStroke): (point: StrokePoint, frame: PaintFrame) => BrushSplat[] {
+  const brush = BRUSHES[stroke.brush] || BRUSHES.IMPASTO;
+  const step = SPLAT_STEP * brush.spacing;
+  const [minScale, maxScale] = brush.sizeJitter;
+  const rng = createRng(stroke.seed);
+  const transforms = getSymmetryTransforms(stroke.symmetry);
+  let last: { x: number, y: number } | null = null;
+  const splat = (x: number, y: number, size: number, angle: number): BrushSplat => {
+    const offset = brush.scatter * size;
+    return {
+      x: x + (rng() - 0.5) * offset * 2,
+      y: y + (rng() - 0.5) * offset * 2,
+      size: size * (minScale + rng() * (maxScale - minScale)),
+      rotation: brush.randomRotation ? rng() * Math.PI * 2 : angle
+    };
+  };
+
+  return (point, frame) => {
+    const x = (point.x - 0.5) * frame.width;
+    const y = -(point.y - 0.5) * frame.height + frame.centerY;
+    const size = point.size * frame.height;
+    const splats: BrushSplat[] = [];
+    if (last) {
+      const distMove = Math.hypot(x - last.x, y - last.y);
+      // Sparse brushes (glitter) only drop a splat once they've travelled a full step
+      if (brush.spacing > 1 && distMove < step) return splats;
+      const angle = Math.atan2(y - last.y, x - last.x) + (rng() - 0.5) * 0.2;
+      if (distMove > step) {
+        const steps = Math.min(MAX_SPLATS_PER_SEGMENT, Math.floor(distMove / step));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          splats.push(splat(last.x + (x - last.x) * t, last.y + (y - last.y) * t, size, angle));
+        }
+      }
+      // Dense brushes also stamp the exact point; sparse ones already landed there with t = 1
+      if (brush.spacing <= 1) splats.push(splat(x, y, size, angle));
+    } else {
+      splats.push(splat(x, y, size, rng() * Math.PI * 2));
+    }
+    last = { x, y };
+    if (transforms.length === 1) return splats;
+    return transforms.flatMap(t => splats.map(s => {
+      const p = applySymmetryTransform(t, s.x, s.y - frame.centerY);
+      const rotation = (t.flipX ? Math.PI - s.rotation : s.rotation) * (t.flipY ? -1 : 1) + t.angle;
+      return { x: p.x, y: p.y + frame.centerY, size: s.size, rotation };
+    }));
+  };
+}
+
+export function rasterizeStroke(stroke: PaintStroke, frame: PaintFrame): BrushSplat[] {
+  const rasterize = createStrokeRasterizer(stroke);
+  return stroke.points.flatMap(point => rasterize(point, frame));
+}
+
+/**
+ * Schedules every recorded point for a time-lapse: idle time is collapsed and the
+ * result is sped up to fit `durationMs` (never slowed down).
+ */
+export function buildTimelapse(strokes: PaintStroke[], durationMs: number): TimelapseStep[] {
+  const steps = strokes.flatMap(stroke => stroke.points.map(point => ({ stroke, point, at: point.t })));
+  steps.sort((a, b) => a.at - b.at);
+  let clock = 0;
+  let prev = steps.length > 0 ? steps[0].at : 0;
+  steps.forEach(step => {
+    clock += Math.min(TIMELAPSE_MAX_GAP_MS, step.at - prev);
+    prev = step.at;
+    step.at = clock;
+  });
+  const speed = Math.max(1, clock / durationMs);
+  steps.forEach(step => { step.at /= speed; });
+  return steps;
+}
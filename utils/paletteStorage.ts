@@ -0,0 +1,39 @@
+import { ColorPalette } from '../types';
+import { isHexColor } from './color';
+import { readStoredList, readStoredString, writeStoredJson, writeStoredString } from './localStore';
+
+const PALETTES_KEY = 'divervisiones.palettes';
+const ACTIVE_PALETTE_KEY = 'divervisiones.activePalette';
+
+// The on-screen palette column fits this many swatches
+export const MAX_PALETTE_COLORS = 12;
+
+export const BUILT_IN_PALETTES: ColorPalette[] = [
+  { id: 'rainbow', name: 'Arcoíris', builtIn: true, colors: ['#ef4444', '#f97316', '#eab308', '#84cc16', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#d946ef', '#000000'] },
+  { id: 'ocean', name: 'Océano', builtIn: true, colors: ['#082f49', '#0c4a6e', '#0369a1', '#0ea5e9', '#7dd3fc', '#e0f2fe', '#14b8a6', '#fde68a'] },
+  { id: 'autumn', name: 'Otoño', builtIn: true, colors: ['#7c2d12', '#c2410c', '#ea580c', '#f59e0b', '#facc15', '#65a30d', '#78350f', '#fef3c7'] }
+];
+
+export function createPalette(name: string, colors: string[]): ColorPalette {
+  return { id: `palette-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, colors: colors.slice(0, MAX_PALETTE_COLORS) };
+}
+
+// The presets always come first; stored palettes that do not parse are dropped
+export function loadPalettes(): ColorPalette[] {
+  const custom = readStoredList(PALETTES_KEY)
+    .filter(p => p && typeof p.id === 'string' && Array.isArray(p.colors))
+    .map(p => ({ id: p.id, name: String(p.name || 'Paleta'), colors: p.colors.filter(isHexColor).slice(0, MAX_PALETTE_COLORS) }));
+  return [...BUILT_IN_PALETTES, ...custom];
+}
+
+export function savePalettes(palettes: ColorPalette[]) {
+  writeStoredJson(PALETTES_KEY, palettes.filter(p => !p.builtIn));
+}
+
+export function loadActivePaletteId(): string {
+  return readStoredString(ACTIVE_PALETTE_KEY, BUILT_IN_PALETTES[0].id);
+}
+
+export function saveActivePaletteId(id: string) {
+  writeStoredString(ACTIVE_PALETTE_KEY, id);
+}
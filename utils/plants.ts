@@ -0,0 +1,238 @@
+import * as THREE from 'three';
+import { GrowthStage, PlantSpecies } from '../types';
+import { createRng } from './random';
+
+export interface PlantParts {
+  root: THREE.Group;
+  bloom: THREE.Object3D | null; // Flower head / foliage that only opens late in the growth
+}
+
+export interface PlantSpeciesDefinition {
+  label: string;
+  icon: string;
+  growthSeconds: number;       // Seed to mature
+  seedIntervalSeconds: number; // How often a mature plant tries to seed
+  seedRadius: number;          // Max distance for offspring
+  flex: number;                // Sway amplitude (grass bends, trees barely move)
+  sizeRange: [number, number];
+  colors: string[];
+  build: (rng: () => number, color: string) => PlantParts;
+}
+
+const pick = <T>(rng: () => number, list: T[]): T => list[Math.floor(rng() * list.length) % list.length];
+
+const stemMaterial = () => new THREE.MeshStandardMaterial({ color: 0x4ade80 });
+const leafMaterial = (shade: number = 0.35) => new THREE.MeshStandardMaterial({ color: new THREE.Color().setHSL(0.33, 0.6, shade), roughness: 0.8 });
+
+const buildTulip = (rng: () => number, color: string): PlantParts => {
+  const root = new THREE.Group();
+  const height = 0.55 + rng() * 0.15;
+  const stem = new THREE.Mesh(new THREE.CylinderGeometry(0.03, 0.04, height, 6), stemMaterial());
+  stem.position.y = height / 2;
+  root.add(stem);
+  const leafGeo = new THREE.SphereGeometry(0.1, 6, 6);
+  for (let i = 0; i < 2; i++) {
+    const leaf = new THREE.Mesh(leafGeo, leafMaterial());
+    leaf.scale.set(0.35, 2.2, 0.6);
+    leaf.position.set(i === 0 ? 0.05 : -0.05, 0.18, 0);
+    leaf.rotation.z = i === 0 ? -0.35 : 0.35;
+    root.add(leaf);
+  }
+  const bloom = new THREE.Group();
+  bloom.position.y = height;
+  const petalGeo = new THREE.SphereGeometry(0.1, 8, 8);
+  const petalMat = new THREE.MeshStandardMaterial({ color, roughness: 0.4 });
+  for (let i = 0; i < 6; i++) {
+    const angle = (i / 6) * Math.PI * 2;
+    const petal = new THREE.Mesh(petalGeo, petalMat);
+    petal.scale.set(0.6, 1.3, 0.6);
+    petal.position.set(Math.cos(angle) * 0.05, 0.08, Math.sin(angle) * 0.05);
+    petal.rotation.set(Math.sin(angle) * 0.25, 0, -Math.cos(angle) * 0.25); // Cup shape
+    bloom.add(petal);
+  }
+  root.add(bloom);
+  return { root, bloom };
+};
+
+const buildDaisy = (rng: () => number, color: string): PlantParts => {
+  const root = new THREE.Group();
+  const height = 0.45 + rng() * 0.15;
+  const stem = new THREE.Mesh(new THREE.CylinderGeometry(0.03, 0.03, height, 6), stemMaterial());
+  stem.position.y = height / 2;
+  root.add(stem);
+  const bloom = new THREE.Group();
+  bloom.position.y = height;
+  const petalGeo = new THREE.SphereGeometry(0.1, 6, 6);
+  const petalMat = new THREE.MeshStandardMaterial({ color });
+  const petalCount = 10 + Math.floor(rng() * 4);
+  for (let i = 0; i < petalCount; i++) {
+    const angle = (i / petalCount) * Math.PI * 2;
+    const petal = new THREE.Mesh(petalGeo, petalMat);
+    petal.scale.set(1.2, 0.15, 0.35);
+    petal.position.set(Math.cos(angle) * 0.13, 0, Math.sin(angle) * 0.13);
+    petal.rotation.y = -angle;
+    bloom.add(petal);
+  }
+  const center = new THREE.Mesh(new THREE.SphereGeometry(0.07, 8, 8), new THREE.MeshStandardMaterial({ color: 0xfacc15 }));
+  center.scale.y = 0.6;
+  bloom.add(center);
+  root.add(bloom);
+  return { root, bloom };
+};
+
+/**
+ * Expands an L-system string. X marks growing tips, F a branch segment.
+ */
+export function expandLSystem(axiom: string, rules: Record<string, string>, iterations: number): string {
+  let result = axiom;
+  for (let i = 0; i < iterations; i++) {
+    result = result.split('').map(c => rules[c] ?? c).join('');
+  }
+  return result;
+}
+
+// Turtle interpretation: F segment, & pitch down, / roll, [ ] push/pop (thinner, shorter), X foliage
+const buildTree = (rng: () => number, color: string): PlantParts => {
+  const root = new THREE.Group();
+  const bloom = new THREE.Group();
+  const program = expandLSystem('FX', { X: 'F[&X]/[&X]/[&X]' }, 3);
+  const barkMat = new THREE.MeshStandardMaterial({ color: 0x7c4a21, roughness: 0.9 });
+  const foliageMat = new THREE.MeshStandardMaterial({ color, roughness: 0.8, flatShading: true });
+  const foliageGeo = new THREE.IcosahedronGeometry(0.22, 0);
+  const up = new THREE.Vector3(0, 1, 0);
+
+  type Turtle = { pos: THREE.Vector3, rot: THREE.Quaternion, length: number, radius: number };
+  let turtle: Turtle = { pos: new THREE.Vector3(), rot: new THREE.Quaternion(), length: 0.7, radius: 0.09 };
+  const stack: Turtle[] = [];
+  const rotate = (axis: THREE.Vector3, angle: number) => {
+    turtle.rot.multiply(new THREE.Quaternion().setFromAxisAngle(axis, angle));
+  };
+
+  for (const c of program) {
+    if (c === 'F') {
+      const dir = up.clone().applyQuaternion(turtle.rot);
+      const segment = new THREE.Mesh(new THREE.CylinderGeometry(turtle.radius * 0.7, turtle.radius, turtle.length, 5), barkMat);
+      segment.position.copy(turtle.pos).addScaledVector(dir, turtle.length / 2);
+      segment.quaternion.copy(turtle.rot);
+      root.add(segment);
+      turtle.pos.addScaledVector(dir, turtle.length);
+    } else if (c === '&') {
+      rotate(new THREE.Vector3(1, 0, 0), 0.45 + rng() * 0.3);
+    } else if (c === '/') {
+      rotate(up, (Math.PI * 2) / 3 + (rng() - 0.5) * 0.5);
+    } else if (c === '[') {
+      stack.push({ pos: turtle.pos.clone(), rot: turtle.rot.clone(), length: turtle.length, radius: turtle.radius });
+      turtle.length *= 0.7 + rng() * 0.1;
+      turtle.radius *= 0.65;
+    } else if (c === ']') {
+      turtle = stack.pop() || turtle;
+    } else if (c === 'X') {
+      const leaf = new THREE.Mesh(foliageGeo, foliageMat);
+      leaf.position.copy(turtle.pos);
+      leaf.scale.setScalar(0.8 + rng() * 0.6);
+      bloom.add(leaf);
+    }
+  }
+  root.add(bloom);
+  return { root, bloom };
+};
+
+const buildGrass = (rng: () => number, color: string): PlantParts => {
+  const root = new THREE.Group();
+  const bladeMat = new THREE.MeshStandardMaterial({ color, side: THREE.DoubleSide });
+  const blades = 7 + Math.floor(rng() * 5);
+  for (let i = 0; i < blades; i++) {
+    const height = 0.25 + rng() * 0.2;
+    const geo = new THREE.ConeGeometry(0.025, height, 3);
+    geo.translate(0, height / 2, 0); // Pivot at the base so blades bend from the ground
+    const blade = new THREE.Mesh(geo, bladeMat);
+    blade.position.set((rng() - 0.5) * 0.15, 0, (rng() - 0.5) * 0.15);
+    blade.rotation.set((rng() - 0.5) * 0.6, rng() * Math.PI, (rng() - 0.5) * 0.6);
+    root.add(blade);
+  }
+  return { root, bloom: null };
+};
+
+const buildBush = (rng: () => number, color: string): PlantParts => {
+  const root = new THREE.Group();
+  const leafMat = leafMaterial(0.3 + rng() * 0.1);
+  const clumps = 6 + Math.floor(rng() * 4);
+  for (let i = 0; i < clumps; i++) {
+    const r = 0.16 + rng() * 0.12;
+    const clump = new THREE.Mesh(new THREE.IcosahedronGeometry(r, 1), leafMat);
+    const angle = rng() * Math.PI * 2;
+    clump.position.set(Math.cos(angle) * 0.18, 0.15 + rng() * 0.25, Math.sin(angle) * 0.18);
+    root.add(clump);
+  }
+  // Berries / blossoms dotted over the dome once mature
+  const bloom = new THREE.Group();
+  const berryGeo = new THREE.SphereGeometry(0.04, 6, 6);
+  const berryMat = new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.2 });
+  for (let i = 0; i < 10; i++) {
+    const theta = rng() * Math.PI * 2; const phi = rng() * Math.PI * 0.45;
+    const berry = new THREE.Mesh(berryGeo, berryMat);
+    berry.position.set(Math.sin(phi) * Math.cos(theta) * 0.38, 0.25 + Math.cos(phi) * 0.3, Math.sin(phi) * Math.sin(theta) * 0.38);
+    bloom.add(berry);
+  }
+  root.add(bloom);
+  return { root, bloom };
+};
+
+export const PLANT_SPECIES: Record<PlantSpecies, PlantSpeciesDefinition> = {
+  TULIP: {
+    label: 'Tulipán', icon: '🌷', growthSeconds: 12, seedIntervalSeconds: 40, seedRadius: 1.2, flex: 1.0,
+    sizeRange: [1.0, 1.5], colors: ['#ef4444', '#f472b6', '#facc15', '#a855f7', '#fb923c'], build: buildTulip
+  },
+  DAISY: {
+    label: 'Margarita', icon: '🌼', growthSeconds: 8, seedIntervalSeconds: 25, seedRadius: 1.5, flex: 1.2,
+    sizeRange: [1.0, 1.4], colors: ['#f8fafc', '#fde68a', '#e9d5ff', '#fbcfe8'], build: buildDaisy
+  },
+  TREE: {
+    label: 'Árbol', icon: '🌳', growthSeconds: 40, seedIntervalSeconds: 90, seedRadius: 4.0, flex: 0.15,
+    sizeRange: [1.2, 1.8], colors: ['#22c55e', '#16a34a', '#84cc16', '#f97316'], build: buildTree
+  },
+  GRASS: {
+    label: 'Pasto', icon: '🌾', growthSeconds: 5, seedIntervalSeconds: 15, seedRadius: 0.8, flex: 2.0,
+    sizeRange: [0.8, 1.3], colors: ['#4ade80', '#65a30d', '#a3e635'], build: buildGrass
+  },
+  BUSH: {
+    label: 'Arbusto', icon: '🌿', growthSeconds: 20, seedIntervalSeconds: 60, seedRadius: 2.0, flex: 0.4,
+    sizeRange: [1.0, 1.6], colors: ['#dc2626', '#7c3aed', '#f8fafc', '#2563eb'], build: buildBush
+  }
+};
+
+export const PLANT_SPECIES_IDS = Object.keys(PLANT_SPECIES) as PlantSpecies[];
+
+export function randomSpecies(): PlantSpecies {
+  return PLANT_SPECIES_IDS[Math.floor(Math.random() * PLANT_SPECIES_IDS.length)];
+}
+
+/**
+ * Builds the procedural geometry for one plant. Same species + seed + color = same plant.
+ */
+export function buildPlant(species: PlantSpecies, seed: number, color?: string): PlantParts & { color: string, size: number } {
+  const def = PLANT_SPECIES[species];
+  const rng = createRng(seed);
+  const plantColor = color || pick(rng, def.colors);
+  const size = def.sizeRange[0] + rng() * (def.sizeRange[1] - def.sizeRange[0]);
+  return { ...def.build(rng, plantColor), color: plantColor, size };
+}
+
+export function getGrowthStage(growth: number, isSeeding: boolean): GrowthStage {
+  if (growth < 0.08) return 'SEED';
+  if (growth < 0.35) return 'SPROUT';
+  if (growth < 1) return 'GROWING';
+  return isSeeding ? 'SEEDING' : 'MATURE';
+}
+
+// Ease-out so plants shoot up fast and settle into their final size
+export function growthToScale(growth: number): number {
+  const g = Math.max(0, Math.min(1, growth));
+  return 0.1 + 0.9 * (1 - Math.pow(1 - g, 3));
+}
+
+// Flower heads / foliage open during the second half of the growth
+export function growthToBloom(growth: number): number {
+  const t = Math.max(0, Math.min(1, (growth - 0.5) / 0.5));
+  return t * t * (3 - 2 * t);
+}
@@ -0,0 +1,36 @@
+import { DifficultyLevel } from '../types';
+import { Landmark } from './gestures';
+
+/**
+ * Local two-player split mode: player 1 stands on the left half of the (mirrored) screen,
+ * player 2 on the right, each with their own pointer and score.
+ */
+
+export const PLAYER_COUNT = 2;
+export const PLAYER_COLORS = ['#38bdf8', '#f472b6'];
+export const PLAYER_NAMES = ['Jugador 1', 'Jugador 2'];
+export const SPLIT_LEVELS: DifficultyLevel[] = [DifficultyLevel.WALLBALL, DifficultyLevel.ARCADE]; // Competitive variants
+
+const MIDLINE_MARGIN = 0.08; // Near the middle of the screen, handedness decides whose hand it is
+
+type Handedness = { categoryName: string, score: number }[];
+
+// MediaPipe labels hands as if the image were mirrored; the frames we feed it are not, so 'Left' is the player's right hand
+const isPlayersRightHand = (handedness?: Handedness) => handedness?.[0]?.categoryName === 'Left';
+
+/**
+ * Splits the detected hands between the players: at most two each, the player's right hand first
+ * (it drives their pointer). Without handedness (trace replays) only the screen half counts.
+ */
+export function assignHandsToPlayers(hands: Landmark[][], handedness: Handedness[] = []): Landmark[][][] {
+  const players: { landmarks: Landmark[], isRight: boolean }[][] = Array.from({ length: PLAYER_COUNT }, () => []);
+  hands.forEach((landmarks, i) => {
+    const screenX = 1 - landmarks[0].x;
+    const isRight = isPlayersRightHand(handedness[i]);
+    let player = screenX < 0.5 ? 0 : 1;
+    // A hand reaching across the middle: that is player 1's right hand or player 2's left one
+    if (handedness[i] && Math.abs(screenX - 0.5) < MIDLINE_MARGIN) player = isRight ? 0 : 1;
+    players[player].push({ landmarks, isRight });
+  });
+  return players.map(list => list.sort((a, b) => Number(b.isRight) - Number(a.isRight)).slice(0, 2).map(hand => hand.landmarks));
+}
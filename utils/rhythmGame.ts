@@ -0,0 +1,153 @@
+import { ChartNote, ChartStats, HitGrade, SongChart } from '../types';
+
+// Timing windows (ms either side of the note). Generous because camera input lags a few frames.
+export const PERFECT_WINDOW_MS = 120;
+export const GOOD_WINDOW_MS = 250;
+
+const GRADE_POINTS: Record<HitGrade, number> = { PERFECT: 100, GOOD: 50, MISS: 0 };
+
+export interface ChartRunNote {
+  note: ChartNote;
+  timeMs: number; // Offset from the start of the run
+  grade: HitGrade | null;
+}
+
+export interface ChartRun {
+  chart: SongChart;
+  startTime: number; // performance.now() when the run started
+  notes: ChartRunNote[];
+  score: number;
+  combo: number;
+  maxCombo: number;
+  counts: Record<HitGrade, number>;
+}
+
+export type ChartInput = { string: number, fret: number } | 'STRUM';
+
+export interface HitResult {
+  grade: HitGrade;
+  points: number;
+  note: ChartRunNote;
+}
+
+export function beatToMs(beat: number, tempo: number): number {
+  return (beat * 60000) / tempo;
+}
+
+/**
+ * Validates an untrusted JSON document (e.g. a file picked by the user) as a SongChart.
+ * Errors are shown to the player as-is, hence in Spanish.
+ */
+export function parseSongChart(data: unknown): SongChart {
+  const doc = data as Partial<SongChart>;
+  if (!doc || typeof doc !== 'object') throw new Error("La canción debe ser un objeto JSON");
+  if (typeof doc.tempo !== 'number' || doc.tempo <= 0) throw new Error("El tempo de la canción debe ser un número positivo");
+  if (!Array.isArray(doc.notes) || doc.notes.length === 0) throw new Error("La canción no tiene notas");
+
+  const timeSignature: [number, number] = Array.isArray(doc.timeSignature) && doc.timeSignature.length === 2
+    ? [Number(doc.timeSignature[0]) || 4, Number(doc.timeSignature[1]) || 4]
+    : [4, 4];
+
+  const notes = doc.notes.map((n, i) => {
+    if (typeof n?.beat !== 'number' || n.beat < 0) throw new Error(`La nota ${i + 1} tiene un tiempo inválido`);
+    if (n.strum) return { beat: n.beat, strum: true };
+    if (typeof n.string !== 'number' || n.string < 1 || n.string > 6) throw new Error(`La nota ${i + 1} tiene una cuerda inválida`);
+    if (typeof n.fret !== 'number' || n.fret < 1 || n.fret > 8) throw new Error(`La nota ${i + 1} tiene un traste inválido`);
+    return { beat: n.beat, string: n.string, fret: n.fret };
+  });
+
+  return {
+    title: typeof doc.title === 'string' && doc.title ? doc.title : 'Sin título',
+    tempo: doc.tempo,
+    timeSignature,
+    notes: notes.sort((a, b) => a.beat - b.beat)
+  };
+}
+
+export function createChartRun(chart: SongChart, startTime: number): ChartRun {
+  return {
+    chart,
+    startTime,
+    notes: chart.notes.map(note => ({ note, timeMs: beatToMs(note.beat, chart.tempo), grade: null })),
+    score: 0,
+    combo: 0,
+    maxCombo: 0,
+    counts: { PERFECT: 0, GOOD: 0, MISS: 0 }
+  };
+}
+
+// Combo multiplier: x1, then +1 every 10 hits in a row, up to x4
+export function comboMultiplier(combo: number): number {
+  return Math.min(4, 1 + Math.floor(combo / 10));
+}
+
+const matchesInput = (note: ChartNote, input: ChartInput) => {
+  if (input === 'STRUM') return !!note.strum;
+  return !note.strum && note.string === input.string && note.fret === input.fret;
+};
+
+const applyGrade = (run: ChartRun, runNote: ChartRunNote, grade: HitGrade): HitResult => {
+  runNote.grade = grade;
+  run.counts[grade]++;
+  if (grade === 'MISS') {
+    run.combo = 0;
+    return { grade, points: 0, note: runNote };
+  }
+  run.combo++;
+  run.maxCombo = Math.max(run.maxCombo, run.combo);
+  const points = GRADE_POINTS[grade] * comboMultiplier(run.combo);
+  run.score += points;
+  return { grade, points, note: runNote };
+};
+
+/**
+ * Grades a player input against the closest pending note it matches.
+ * Returns null when nothing is inside the timing window (stray inputs are not punished).
+ */
+export function judgeInput(run: ChartRun, now: number, input: ChartInput): HitResult | null {
+  const t = now - run.startTime;
+  let best: ChartRunNote | null = null;
+  let bestDelta = Infinity;
+  for (const runNote of run.notes) {
+    if (runNote.grade || !matchesInput(runNote.note, input)) continue;
+    const delta = Math.abs(runNote.timeMs - t);
+    if (delta <= GOOD_WINDOW_MS && delta < bestDelta) { best = runNote; bestDelta = delta; }
+  }
+  if (!best) return null;
+  return applyGrade(run, best, bestDelta <= PERFECT_WINDOW_MS ? 'PERFECT' : 'GOOD');
+}
+
+/**
+ * Marks every note that scrolled past the timing window as a MISS
+ */
+export function sweepMisses(run: ChartRun, now: number): HitResult[] {
+  const t = now - run.startTime;
+  const misses: HitResult[] = [];
+  run.notes.forEach(runNote => {
+    if (!runNote.grade && t - runNote.timeMs > GOOD_WINDOW_MS) misses.push(applyGrade(run, runNote, 'MISS'));
+  });
+  return misses;
+}
+
+// Weighted accuracy over the notes judged so far (GOOD counts half), 0-1
+export function chartAccuracy(run: ChartRun): number {
+  const judged = run.counts.PERFECT + run.counts.GOOD + run.counts.MISS;
+  if (judged === 0) return 1;
+  return (run.counts.PERFECT + run.counts.GOOD * 0.5) / judged;
+}
+
+export function isChartFinished(run: ChartRun): boolean {
+  return run.notes.every(n => n.grade !== null);
+}
+
+export function getChartStats(run: ChartRun, lastGrade: HitGrade | null): ChartStats {
+  return {
+    title: run.chart.title,
+    combo: run.combo,
+    maxCombo: run.maxCombo,
+    accuracy: chartAccuracy(run),
+    counts: { ...run.counts },
+    lastGrade,
+    isFinished: isChartFinished(run)
+  };
+}
@@ -0,0 +1,186 @@
+import { ShapeType, StrokePoint } from '../types';
+
+type Point = { x: number, y: number };
+
+export interface RecognizedShape {
+  type: ShapeType;
+  points: Point[]; // Clean outline in normalized screen coords (closed shapes repeat the first point)
+  error: number;   // Mean distance of the drawn points to the clean shape, relative to its size
+}
+
+const RESAMPLE_COUNT = 64;
+const MIN_PATH_LENGTH = 0.08;  // Shorter scribbles are never snapped
+const MAX_FIT_ERROR = 0.07;
+const LINE_STRAIGHTNESS = 0.92; // Chord / path length
+const CLOSED_GAP = 0.25;        // Start-end gap / bounding box diagonal
+const CIRCLE_MAX_DEVIATION = 0.13; // Radius std / mean radius
+const CORNER_TOLERANCE = 0.07;  // Douglas-Peucker epsilon / bounding box diagonal
+const STAR_INNER_RATIO = 0.38;  // Regular five-point star
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const pathLength = (points: Point[]) => points.reduce((sum, p, i) => i === 0 ? 0 : sum + distance(points[i - 1], p), 0);
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((s, p) => s + p.x, 0) / points.length,
+  y: points.reduce((s, p) => s + p.y, 0) / points.length
+});
+
+/**
+ * Resamples a polyline to `count` points evenly spaced along its length.
+ */
+export function resamplePath(points: Point[], count: number): Point[] {
+  const step = pathLength(points) / (count - 1);
+  if (points.length < 2 || step === 0) return points.slice();
+  const result: Point[] = [{ ...points[0] }];
+  let carried = 0;
+  for (let i = 1; i < points.length && result.length < count; i++) {
+    let prev = points[i - 1]; const curr = points[i];
+    let segment = distance(prev, curr);
+    while (carried + segment >= step && result.length < count) {
+      const t = (step - carried) / segment;
+      prev = { x: prev.x + (curr.x - prev.x) * t, y: prev.y + (curr.y - prev.y) * t };
+      result.push(prev);
+      segment = distance(prev, curr);
+      carried = 0;
+    }
+    carried += segment;
+  }
+  while (result.length < count) result.push({ ...points[points.length - 1] });
+  return result;
+}
+
+const segmentDistance = (p: Point, a: Point, b: Point) => {
+  const len2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (len2 === 0) return distance(p, a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / len2));
+  return distance(p, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+};
+
+const polylineDistance = (p: Point, outline: Point[]) => {
+  let best = Infinity;
+  for (let i = 1; i < outline.length; i++) best = Math.min(best, segmentDistance(p, outline[i - 1], outline[i]));
+  return best;
+};
+
+// Douglas-Peucker: the corners that survive at the given tolerance
+const simplify = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points.slice();
+  let index = 0; let maxDist = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = segmentDistance(points[i], points[0], points[points.length - 1]);
+    if (d > maxDist) { maxDist = d; index = i; }
+  }
+  if (maxDist <= epsilon) return [points[0], points[points.length - 1]];
+  return [...simplify(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplify(points.slice(index), epsilon)];
+};
+
+const closeOutline = (vertices: Point[]) => [...vertices, { ...vertices[0] }];
+
+const fitRectangle = (points: Point[], corners: Point[]): Point[] => {
+  // Orientation from the longest drawn side, extents from all the points
+  let angle = 0; let longest = 0;
+  corners.forEach((c, i) => {
+    const next = corners[(i + 1) % corners.length];
+    if (distance(c, next) > longest) { longest = distance(c, next); angle = Math.atan2(next.y - c.y, next.x - c.x); }
+  });
+  const ux = Math.cos(angle); const uy = Math.sin(angle);
+  const along = points.map(p => p.x * ux + p.y * uy); const across = points.map(p => -p.x * uy + p.y * ux);
+  const [a0, a1] = [Math.min(...along), Math.max(...along)]; const [b0, b1] = [Math.min(...across), Math.max(...across)];
+  const toPoint = (a: number, b: number) => ({ x: a * ux - b * uy, y: a * uy + b * ux });
+  return closeOutline([toPoint(a0, b0), toPoint(a1, b0), toPoint(a1, b1), toPoint(a0, b1)]);
+};
+
+const buildStar = (center: Point, outerRadius: number, phase: number): Point[] =>
+  closeOutline(Array.from({ length: 10 }, (_, i) => {
+    const r = i % 2 === 0 ? outerRadius : outerRadius * STAR_INNER_RATIO;
+    const a = phase + (i * Math.PI) / 5;
+    return { x: center.x + Math.cos(a) * r, y: center.y + Math.sin(a) * r };
+  }));
+
+// Star drawn either as its outline (10 corners, alternating radii) or as a pentagram (5 tips, skipping one)
+const fitStar = (corners: Point[], center: Point): Point[] | null => {
+  const radii = corners.map(c => distance(c, center));
+  const angles = corners.map(c => Math.atan2(c.y - center.y, c.x - center.x));
+  if (corners.length === 5) {
+    const mean = radii.reduce((s, r) => s + r, 0) / 5;
+    if (radii.some(r => Math.abs(r - mean) > mean * 0.35)) return null;
+    // Signed angle from each tip to the next, in (-PI, PI]
+    const steps = angles.map((a, i) => Math.PI - ((Math.PI * 3 - (angles[(i + 1) % 5] - a)) % (Math.PI * 2)));
+    const isPentagram = steps.every(step => Math.abs(Math.abs(step) - (Math.PI * 4) / 5) < 0.45 && Math.sign(step) === Math.sign(steps[0]));
+    if (!isPentagram) return null;
+    // Keep the drawn crossing lines: the fit is measured against them
+    return closeOutline(Array.from({ length: 5 }, (_, i) => {
+      const a = angles[0] + (Math.sign(steps[0]) * i * Math.PI * 4) / 5;
+      return { x: center.x + Math.cos(a) * mean, y: center.y + Math.sin(a) * mean };
+    }));
+  }
+  if (corners.length >= 9 && corners.length <= 11) {
+    const tips = radii.map((r, i) => ({ r, i })).sort((a, b) => b.r - a.r).slice(0, 5);
+    const outer = tips.reduce((s, t) => s + t.r, 0) / 5;
+    const inner = radii.filter((_, i) => !tips.some(t => t.i === i));
+    const innerMean = inner.reduce((s, r) => s + r, 0) / inner.length;
+    if (innerMean / outer > 0.75) return null;
+    return buildStar(center, outer, angles[tips[0].i]);
+  }
+  return null;
+};
+
+/**
+ * Fits a finished stroke to a circle, line, rectangle, triangle or star.
+ * Points are normalized screen coords; `aspect` (width / height) makes the fit isotropic.
+ * Returns null when nothing fits well enough.
+ */
+export function recognizeShape(strokePoints: Point[], aspect: number): RecognizedShape | null {
+  if (strokePoints.length < 8) return null;
+  const raw = strokePoints.map(p => ({ x: p.x * aspect, y: p.y }));
+  const length = pathLength(raw);
+  if (length < MIN_PATH_LENGTH) return null;
+  const points = resamplePath(raw, RESAMPLE_COUNT);
+  const xs = points.map(p => p.x); const ys = points.map(p => p.y);
+  const diagonal = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  const first = points[0]; const last = points[points.length - 1];
+
+  const result = (type: ShapeType, outline: Point[]): RecognizedShape | null => {
+    const error = points.reduce((s, p) => s + polylineDistance(p, outline), 0) / points.length / diagonal;
+    if (error > MAX_FIT_ERROR) return null;
+    return { type, error, points: outline.map(p => ({ x: p.x / aspect, y: p.y })) };
+  };
+
+  if (distance(first, last) / length > LINE_STRAIGHTNESS) return result('LINE', [first, last]);
+  if (distance(first, last) > diagonal * CLOSED_GAP) return null;
+
+  const center = centroid(points);
+  const radii = points.map(p => distance(p, center));
+  const meanRadius = radii.reduce((s, r) => s + r, 0) / radii.length;
+  const deviation = Math.sqrt(radii.reduce((s, r) => s + (r - meanRadius) ** 2, 0) / radii.length);
+  if (deviation / meanRadius < CIRCLE_MAX_DEVIATION) {
+    return result('CIRCLE', closeOutline(Array.from({ length: 48 }, (_, i) => ({
+      x: center.x + Math.cos((i / 48) * Math.PI * 2) * meanRadius,
+      y: center.y + Math.sin((i / 48) * Math.PI * 2) * meanRadius
+    }))));
+  }
+
+  // Corners of the closed path; the end point closes back onto the start
+  const corners = simplify(points, diagonal * CORNER_TOLERANCE);
+  if (distance(corners[0], corners[corners.length - 1]) < diagonal * CLOSED_GAP) corners.pop();
+  if (corners.length === 3) return result('TRIANGLE', closeOutline(corners));
+  if (corners.length === 4) return result('RECTANGLE', fitRectangle(points, corners));
+  const star = fitStar(corners, center);
+  return star ? result('STAR', star) : null;
+}
+
+/**
+ * Replaces a stroke's path with a clean shape, keeping its timing and an even brush size.
+ */
+export function snapStrokePoints(original: StrokePoint[], outline: Point[], aspect: number): StrokePoint[] {
+  if (original.length === 0) return original;
+  const sizes = original.map(p => p.size).sort((a, b) => a - b);
+  const size = sizes[Math.floor(sizes.length / 2)];
+  const pressure = original.reduce((s, p) => s + p.pressure, 0) / original.length;
+  const t0 = original[0].t; const t1 = original[original.length - 1].t;
+  const count = Math.max(16, Math.min(200, original.length));
+  // Resample isotropically so corners keep their place along the path
+  const path = resamplePath(outline.map(p => ({ x: p.x * aspect, y: p.y })), count);
+  return path.map((p, i) => ({ x: p.x / aspect, y: p.y, size, pressure, t: t0 + ((t1 - t0) * i) / (count - 1) }));
+}
@@ -0,0 +1,62 @@
+import { NetClaim } from '../types';
+
+/**
+ * Who controls each shared scene object in a networked session. Claims carry a Lamport clock, so
+ * when both peers grab the same object before hearing from each other, both settle on the same winner.
+ *
+ * - LOCK (garden plants): the first claim wins, nobody can take an object the other player holds.
+ * - HANDOFF (the Frontón ball): any player may take it over by hitting it, the latest hit wins.
+ */
+export type OwnershipMode = 'LOCK' | 'HANDOFF';
+
+export interface OwnershipTable {
+  /** Takes the object for this peer; null when the other player holds it (LOCK only). */
+  claim(id: string): NetClaim | null;
+  /** Lets go of an object this peer holds. */
+  release(id: string): void;
+  /** Applies the other peer's claim (null = released). Returns false if it lost against ours or is out of date. */
+  receive(id: string, claim: NetClaim | null, from: string): boolean;
+  owner(id: string): NetClaim | undefined;
+  isMine(id: string): boolean;
+  isRemote(id: string): boolean;
+  clear(): void;
+}
+
+export function createOwnershipTable(peerId: string, mode: OwnershipMode): OwnershipTable {
+  const owners = new Map<string, NetClaim>();
+  let clock = 0;
+
+  // Same answer on both peers: the earlier (LOCK) or later (HANDOFF) clock, then the lower peer id
+  const beats = (a: NetClaim, b: NetClaim) =>
+    a.clock === b.clock ? a.owner < b.owner : (mode === 'LOCK' ? a.clock < b.clock : a.clock > b.clock);
+
+  return {
+    claim(id) {
+      const current = owners.get(id);
+      if (current && current.owner !== peerId && mode === 'LOCK') return null;
+      const claim = { owner: peerId, clock: ++clock };
+      owners.set(id, claim);
+      return claim;
+    },
+    release(id) {
+      if (owners.get(id)?.owner === peerId) owners.delete(id);
+    },
+    receive(id, claim, from) {
+      const current = owners.get(id);
+      if (!claim) {
+        if (current?.owner === from) owners.delete(id);
+        return true;
+      }
+      clock = Math.max(clock, claim.clock);
+      if (current && current.owner === peerId && !beats(claim, current)) return false;
+      // An older claim from the same peer arriving late changes nothing
+      if (current && current.owner === claim.owner && current.clock > claim.clock) return false;
+      owners.set(id, claim);
+      return true;
+    },
+    owner: id => owners.get(id),
+    isMine: id => owners.get(id)?.owner === peerId,
+    isRemote: id => { const owner = owners.get(id)?.owner; return !!owner && owner !== peerId; },
+    clear: () => owners.clear()
+  };
+}
@@ -0,0 +1,100 @@
+import { PaintHistory, PaintStroke, StrokeDocument } from '../types';
+import { BRUSHES } from './brushes';
+import { applySymmetryTransform, getSymmetryTransforms } from './paintHistory';
+
+export const STROKE_FORMAT_VERSION = 1;
+
+// The impasto brush texture fades out before the edge of its quad
+const BRUSH_COVERAGE = 0.8;
+
+export function createStrokeDocument(history: PaintHistory, aspect: number): StrokeDocument {
+  return {
+    version: STROKE_FORMAT_VERSION,
+    aspect,
+    createdAt: Date.now(),
+    layers: history.layers.map(layer => ({ ...layer })),
+    strokes: history.strokes.map(stroke => ({ ...stroke, points: stroke.points.map(p => ({ ...p })) }))
+  };
+}
+
+const fmt = (n: number) => (Math.round(n * 10) / 10).toString();
+
+/**
+ * Builds a filled outline around a variable-width polyline, with round caps.
+ * Points are in pixels; `radii` holds the half-width at each point.
+ */
+export function strokeOutlinePath(points: { x: number, y: number }[], radii: number[]): string {
+  if (points.length === 0) return '';
+  if (points.length === 1) {
+    const { x, y } = points[0]; const r = radii[0];
+    return `M ${fmt(x - r)} ${fmt(y)} a ${fmt(r)} ${fmt(r)} 0 1 0 ${fmt(r * 2)} 0 a ${fmt(r)} ${fmt(r)} 0 1 0 ${fmt(-r * 2)} 0 Z`;
+  }
+  const left: string[] = []; const right: string[] = [];
+  points.forEach((p, i) => {
+    // Tangent from the neighbours smooths the joins
+    const prev = points[Math.max(0, i - 1)]; const next = points[Math.min(points.length - 1, i + 1)];
+    const len = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+    const nx = -(next.y - prev.y) / len; const ny = (next.x - prev.x) / len;
+    const r = radii[i];
+    left.push(`${fmt(p.x + nx * r)} ${fmt(p.y + ny * r)}`);
+    right.push(`${fmt(p.x - nx * r)} ${fmt(p.y - ny * r)}`);
+  });
+  const endR = fmt(radii[radii.length - 1]); const startR = fmt(radii[0]);
+  right.reverse();
+  return `M ${left.join(' L ')} A ${endR} ${endR} 0 0 0 ${right[0]} L ${right.join(' L ')} A ${startR} ${startR} 0 0 0 ${left[0]} Z`;
+}
+
+// One outline per symmetry copy
+function strokePaths(stroke: PaintStroke, width: number, height: number): string[] {
+  // Drop points closer than half a pixel: they only produce degenerate normals
+  const points: { x: number, y: number }[] = []; const radii: number[] = [];
+  stroke.points.forEach(p => {
+    const x = p.x * width; const y = p.y * height;
+    const last = points[points.length - 1];
+    if (last && Math.hypot(x - last.x, y - last.y) < 0.5) return;
+    points.push({ x, y });
+    radii.push(Math.max(0.5, (p.size * height * BRUSH_COVERAGE) / 2));
+  });
+  return getSymmetryTransforms(stroke.symmetry).map(t => strokeOutlinePath(points.map(p => {
+    const q = applySymmetryTransform(t, p.x - width / 2, p.y - height / 2);
+    return { x: q.x + width / 2, y: q.y + height / 2 };
+  }), radii));
+}
+
+/**
+ * Renders the visible layers as an SVG document (no camera background).
+ * Each stroke becomes one filled path (a group of them with symmetry) so it stays editable in vector tools.
+ * Eraser strokes become masks over everything painted before them on their layer.
+ */
+export function strokesToSvg(doc: StrokeDocument, height: number = 1080): string {
+  const width = Math.round(height * doc.aspect);
+  const masks: string[] = [];
+  const groups = doc.layers.map((layer, index) => {
+    if (!layer.visible) return '';
+    let content: string[] = [];
+    doc.strokes.filter(s => s.layer === index).forEach(stroke => {
+      // Mirrored copies wind the other way: separate paths keep them from cancelling out where they overlap
+      const paths = strokePaths(stroke, width, height);
+      if (stroke.brush === 'ERASER') {
+        if (content.length === 0) return;
+        const maskId = `mask-${stroke.id}`;
+        masks.push(`    <mask id="${maskId}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">\n      <rect width="${width}" height="${height}" fill="white" />\n      ${paths.map(d => `<path d="${d}" fill="black" />`).join('')}\n    </mask>`);
+        content = [`    <g mask="url(#${maskId})">\n${content.join('\n')}\n    </g>`];
+        return;
+      }
+      const opacity = (BRUSHES[stroke.brush] || BRUSHES.IMPASTO).opacity;
+      const fill = `fill="${stroke.color}"${opacity < 1 ? ` fill-opacity="${opacity}"` : ''}`;
+      content.push(paths.length === 1
+        ? `    <path id="${stroke.id}" d="${paths[0]}" ${fill} />`
+        : `    <g id="${stroke.id}" ${fill}>\n${paths.map(d => `      <path d="${d}" />`).join('\n')}\n    </g>`);
+    });
+    return `  <g id="layer-${index + 1}" inkscape:label="${layer.name}" inkscape:groupmode="layer" opacity="${layer.opacity}">\n${content.join('\n')}\n  </g>`;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>DiverVisiones - Pintor Aéreo</title>`,
+    ...(masks.length > 0 ? [`  <defs>\n${masks.join('\n')}\n  </defs>`] : []),
+    ...groups.filter(Boolean),
+    `</svg>`
+  ].join('\n');
+}
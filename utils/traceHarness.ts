@@ -0,0 +1,51 @@
+import { CalibrationProfile, CustomGesture, DifficultyLevel, GardenEvent, HandTrace } from '../types';
+import { GESTURES, applyHeldGestures } from '../data/gestures';
+import { buildGestureFrame, createGestureEngine } from './gestures';
+import { createHandMotionState, createInteractionState, releaseHandMotion, updateHandMotion } from './handMotion';
+import { getHandThresholds, remapToReach } from './calibration';
+import { createCustomGestureDefinitions } from './customGestures';
+
+export interface TraceEvent {
+  t: number;          // ms into the trace
+  event: GardenEvent;
+  payload?: unknown;
+  gesture: string;    // Id of the gesture definition that fired
+}
+
+export interface TraceReplayOptions {
+  level?: DifficultyLevel;         // Defaults to the level the trace was recorded in
+  calibration?: CalibrationProfile | null;
+  customGestures?: CustomGesture[];
+  isMultiFinger?: boolean;         // Painter multi-finger mode changes the V-sign undo
+}
+
+/**
+ * Runs a recorded trace through the gesture pipeline without a camera, DOM or canvas and returns
+ * the events it fires, in order. Same pointer smoothing, registry and calibration as HandScanner;
+ * positional controls drawn on the canvas (palette, fretboard, chord buttons) are not part of it.
+ */
+export function replayGestureTrace(trace: HandTrace, options: TraceReplayOptions = {}): TraceEvent[] {
+  const level = options.level || trace.level;
+  const engine = createGestureEngine([...GESTURES, ...createCustomGestureDefinitions(options.customGestures || [])]);
+  const thresholds = getHandThresholds(options.calibration);
+  const motion = createHandMotionState();
+  const interaction = createInteractionState();
+  interaction.isMultiFinger = !!options.isMultiFinger;
+
+  const events: TraceEvent[] = [];
+  let lastT = 0; let lastHandDistance = -1; let isPlanting = false;
+  trace.frames.forEach(frameData => {
+    const dt = Math.max(0.001, (frameData.t - lastT) / 1000);
+    lastT = frameData.t;
+    const reach = options.calibration?.reach;
+    const landmarks = reach ? frameData.landmarks.map(hand => remapToReach(hand, reach)) : frameData.landmarks;
+    if (landmarks.length > 0) updateHandMotion(motion, landmarks[0], dt, interaction, isPlanting);
+    else releaseHandMotion(interaction);
+
+    const frame = buildGestureFrame(landmarks, motion.tips, interaction, lastHandDistance, frameData.t, thresholds);
+    lastHandDistance = frame.handDistance;
+    engine.update(frame, level).forEach(({ definition, event, payload }) => events.push({ t: frameData.t, event, payload, gesture: definition.id }));
+    isPlanting = applyHeldGestures(engine, frame);
+  });
+  return events;
+}
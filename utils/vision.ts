@@ -0,0 +1,93 @@
+import { FaceLandmarker, FilesetResolver, HandLandmarker, PoseLandmarker } from '@mediapipe/tasks-vision';
+
+const WASM_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm";
+const HAND_MODEL_URL = "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task";
+const POSE_MODEL_URL = "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task";
+const FACE_MODEL_URL = "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+
+// Bones of the 21-point hand model, as landmark index pairs
+export const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [17, 18], [18, 19], [19, 20], [0, 17]
+];
+
+// Arms, torso and legs of the 33-point pose model (the face points are left out)
+export const BODY_CONNECTIONS: [number, number][] = [
+  [11, 12], [11, 13], [13, 15], [12, 14], [14, 16],
+  [11, 23], [12, 24], [23, 24],
+  [23, 25], [25, 27], [27, 31], [24, 26], [26, 28], [28, 32]
+];
+
+// Global promises to prevent double-loading in StrictMode; cleared on failure so a retry can load again
+let visionPromise: Promise<any> | null = null;
+let handLandmarkerPromise: Promise<HandLandmarker> | null = null;
+let poseLandmarkerPromise: Promise<PoseLandmarker> | null = null;
+let faceLandmarkerPromise: Promise<FaceLandmarker> | null = null;
+
+export function loadVisionFileset(): Promise<any> {
+  if (!visionPromise) {
+    visionPromise = FilesetResolver.forVisionTasks(WASM_URL).catch(error => {
+      visionPromise = null;
+      throw error;
+    });
+  }
+  return visionPromise;
+}
+
+/**
+ * The app's single hand landmarker (two hands, video mode). HandScanner and the calibration
+ * wizard take turns on it, so their detectForVideo timestamps stay increasing.
+ */
+export function loadHandLandmarker(): Promise<HandLandmarker> {
+  if (!handLandmarkerPromise) {
+    handLandmarkerPromise = loadVisionFileset()
+      .then(vision => HandLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetPath: HAND_MODEL_URL, delegate: "GPU" },
+        runningMode: "VIDEO",
+        numHands: 2
+      }))
+      .catch(error => {
+        handLandmarkerPromise = null;
+        throw error;
+      });
+  }
+  return handLandmarkerPromise;
+}
+
+/** Full-body landmarker (one player, video mode), loaded only when body tracking is switched on. */
+export function loadPoseLandmarker(): Promise<PoseLandmarker> {
+  if (!poseLandmarkerPromise) {
+    poseLandmarkerPromise = loadVisionFileset()
+      .then(vision => PoseLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetPath: POSE_MODEL_URL, delegate: "GPU" },
+        runningMode: "VIDEO",
+        numPoses: 1
+      }))
+      .catch(error => {
+        poseLandmarkerPromise = null;
+        throw error;
+      });
+  }
+  return poseLandmarkerPromise;
+}
+
+/** Face landmarker with blendshapes (one face, video mode), loaded only when face input is switched on. */
+export function loadFaceLandmarker(): Promise<FaceLandmarker> {
+  if (!faceLandmarkerPromise) {
+    faceLandmarkerPromise = loadVisionFileset()
+      .then(vision => FaceLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetPath: FACE_MODEL_URL, delegate: "GPU" },
+        runningMode: "VIDEO",
+        numFaces: 1,
+        outputFaceBlendshapes: true
+      }))
+      .catch(error => {
+        faceLandmarkerPromise = null;
+        throw error;
+      });
+  }
+  return faceLandmarkerPromise;
+}